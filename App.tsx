@@ -1,15 +1,45 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 // Fix: Removed incorrect import from 'lucide-center' which doesn't exist.
-import { Shield as ShieldIcon, Users as UsersIcon, QrCode as QrCodeIcon, Trophy as TrophyIcon, LogOut as LogOutIcon, User as UserIcon, Home as HomeIcon, Loader2 as LoaderIcon, RefreshCw as RefreshCwIcon } from 'lucide-react';
+import { Shield as ShieldIcon, Users as UsersIcon, QrCode as QrCodeIcon, Trophy as TrophyIcon, LogOut as LogOutIcon, User as UserIcon, Home as HomeIcon, Loader2 as LoaderIcon, RefreshCw as RefreshCwIcon, CloudUpload as CloudUploadIcon, CloudOff as CloudOffIcon, Database as DatabaseIcon, Settings as SettingsIcon, KeyRound as KeyRoundIcon, Lock as LockIcon, UserCog as UserCogIcon } from 'lucide-react';
 import ScannerTab from './components/ScannerTab';
 import StudentList from './components/StudentList';
 import Reports from './components/Reports';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
-import { Student, AttendanceRecord, TabView, UserRole } from './types';
-import { getStudents, getAttendance } from './services/storageService';
-import { STORAGE_KEYS } from './constants';
+import Settings from './components/Settings';
+import PeriodSelector from './components/PeriodSelector';
+import ChangePasswordModal from './components/ChangePasswordModal';
+import LockScreen from './components/LockScreen';
+import { format } from 'date-fns';
+import { Student, AttendanceRecord, TabView, UserRole, StaffRole, DateRange, Permission } from './types';
+import { getStudents, getAttendance, loadAttendanceRange } from './services/storageService';
+import { startOutbox, subscribeOutbox, getPendingCount, flushOutbox, getFailedMutations, retryFailedMutations, discardFailedMutations } from './services/outboxService';
+import { syncSettings } from './services/settingsService';
+import { syncPhotos } from './services/photoService';
+import { findPeriod, getPeriodForDate, getSelectedSemesterId, setSelectedSemesterId } from './services/academicService';
+import { isActiveStudent } from './services/promotionService';
+import { getHomeroomClass, getStaffIdByName } from './services/staffService';
+import { getPermissions, hasPermission } from './services/permissionService';
+import { getSessionPolicy, readAuthSession, startAuthSession, clearAuthSession, touchAuthSession, setSessionLocked, isSessionExpired, isSessionIdle } from './services/authSessionService';
+import { useSetting } from './hooks/useSetting';
+import { usePermission } from './hooks/usePermission';
+import { STORAGE_KEYS, SETTING_KEYS, DEFAULT_ACADEMIC_YEARS, DEFAULT_STAFF, DEFAULT_SESSION_POLICY } from './constants';
+
+// Izin yang dibutuhkan untuk membuka tiap tab; urutan = prioritas tab awal setelah login
+const TAB_PERMISSIONS: [TabView, Permission][] = [
+  ['dashboard', 'VIEW_DASHBOARD'],
+  ['scan', 'RECORD_ATTENDANCE'],
+  ['reports', 'VIEW_REPORTS'],
+  ['students', 'MANAGE_STUDENTS'],
+  ['settings', 'MANAGE_SETTINGS']
+];
+
+const getDefaultTab = (role: UserRole): TabView =>
+  TAB_PERMISSIONS.find(([, permission]) => hasPermission(getPermissions(), role, permission))?.[0] || 'reports';
+
+// Seberapa sering batas diam & umur sesi diperiksa
+const SESSION_CHECK_INTERVAL_MS = 30000;
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -20,45 +50,130 @@ function App() {
   const [activeTab, setActiveTab] = useState<TabView>('dashboard');
   const [students, setStudents] = useState<Student[]>([]);
   const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [reportRecords, setReportRecords] = useState<AttendanceRecord[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(getPendingCount());
+  const [failedCount, setFailedCount] = useState(() => getFailedMutations().length);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  // 'locked' = layar kunci (diam terlalu lama / dikunci manual), 'switch' = ganti petugas dari header
+  const [lockMode, setLockMode] = useState<'locked' | 'switch' | null>(null);
+  // Mode kiosk punya kunci PIN sendiri; layar tidak dikunci otomatis saat masjid sepi
+  const [kioskActive, setKioskActive] = useState(false);
+  const sessionPolicy = useSetting(SETTING_KEYS.SESSION_POLICY, DEFAULT_SESSION_POLICY);
+  const can = usePermission(userRole);
+  const canOpenTab = (tab: TabView) => TAB_PERMISSIONS.some(([t, permission]) => t === tab && can(permission));
+
+  // Periode (tahun pelajaran + semester) yang dipakai semua laporan
+  const academicYears = useSetting(SETTING_KEYS.ACADEMIC_YEARS, DEFAULT_ACADEMIC_YEARS);
+  const [selectedSemesterId, setSelectedSemesterIdState] = useState(getSelectedSemesterId);
+  const period = findPeriod(academicYears, selectedSemesterId);
+  // Dashboard selalu menampilkan hari ini, jadi labelnya semester berjalan walau arsip sedang dipilih
+  const currentPeriod = findPeriod(academicYears, null);
+  // Alumni hanya tampil di daftar siswa dan laporan periode lama
+  const activeStudents = students.filter(isActiveStudent);
+
+  // Wali kelas otomatis memfilter ke kelasnya sendiri (tetap bisa diganti di tiap layar)
+  const staff = useSetting(SETTING_KEYS.STAFF, DEFAULT_STAFF);
+  const homeroomClass = userRole === 'HOMEROOM' ? getHomeroomClass(staff, currentUser) : undefined;
+
+  // Jendela tanggal yang dimuat dari cache: Dashboard & Scanner selalu hari ini (records),
+  // Reports memuat jendela periode yang sedang dibuka apa adanya (reportRecords).
+  const [todayRange] = useState<DateRange>(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return { start: today, end: today };
+  });
+  const [reportRange, setReportRange] = useState<DateRange>(todayRange);
 
   // Inisialisasi dari Local Storage (Sangat Cepat)
   useEffect(() => {
     const localStuds = localStorage.getItem(STORAGE_KEYS.STUDENTS);
-    const localRecs = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
     if (localStuds) setStudents(JSON.parse(localStuds));
-    if (localRecs) setRecords(JSON.parse(localRecs));
-
-    const sessionAuth = localStorage.getItem(STORAGE_KEYS.AUTH);
-    if (sessionAuth) {
-      try {
-        const parsedAuth = JSON.parse(sessionAuth);
-        setCurrentUser(parsedAuth.username);
-        setUserRole(parsedAuth.role);
-        if (parsedAuth.role === 'PARENT' && parsedAuth.studentData) {
-            setParentStudentData(parsedAuth.studentData);
-            setActiveTab('reports');
-        }
-        setIsAuthenticated(true);
-      } catch (e) {
-        localStorage.removeItem(STORAGE_KEYS.AUTH);
+
+    const session = readAuthSession();
+    const policy = getSessionPolicy();
+    if (session && !isSessionExpired(session, policy) && !(session.role === 'PARENT' && isSessionIdle(session, policy))) {
+      setCurrentUser(session.username);
+      setUserRole(session.role);
+      if (session.role === 'PARENT' && session.studentData) {
+          setParentStudentData(session.studentData);
       }
+      setActiveTab(getDefaultTab(session.role));
+      setIsAuthenticated(true);
+      // Staf yang ditinggal diam (atau terkunci sebelum halaman dimuat ulang) harus membuka kunci dulu
+      if (session.locked || isSessionIdle(session, policy)) lockSession();
+    } else {
+      clearAuthSession();
     }
     
+    loadAttendanceRange(todayRange).then(setRecords);
     // Auto sync sekali saat startup di background
     syncFullData();
   }, []);
 
-  const syncFullData = async () => {
+  useEffect(() => {
+    let cancelled = false;
+    loadAttendanceRange(reportRange).then(data => {
+      if (!cancelled) setReportRecords(data);
+    });
+    return () => { cancelled = true; };
+  }, [reportRange]);
+
+  // Batas sesi: sentuhan/ketikan dihitung aktivitas (scanner USB = ketikan). Staf yang diam
+  // terlalu lama dikunci, wali murid dikeluarkan; lewat batas umur sesi semua wajib login ulang.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const isLocked = lockMode === 'locked';
+    const markActive = () => touchAuthSession();
+    const checkSession = () => {
+      const session = readAuthSession();
+      if (!session || isSessionExpired(session, sessionPolicy)) {
+        handleLogout();
+        alert('Sesi login sudah berakhir. Silakan login kembali.');
+      } else if (!isLocked && !kioskActive && isSessionIdle(session, sessionPolicy)) {
+        if (session.role === 'PARENT') handleLogout();
+        else lockSession();
+      }
+    };
+    if (!isLocked) {
+      window.addEventListener('pointerdown', markActive);
+      window.addEventListener('keydown', markActive);
+    }
+    const timer = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('pointerdown', markActive);
+      window.removeEventListener('keydown', markActive);
+      clearInterval(timer);
+    };
+  }, [isAuthenticated, lockMode, sessionPolicy, kioskActive]);
+
+  // Antrian offline: kirim ulang otomatis & pantau jumlah yang belum terkirim
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox((pending, failed) => {
+      setPendingCount(pending);
+      setFailedCount(failed);
+    });
+    const stopOutbox = startOutbox();
+    return () => {
+      unsubscribe();
+      stopOutbox();
+    };
+  }, []);
+
+  const syncFullData = async (fullResync = false) => {
     if (isSyncing) return;
     setIsSyncing(true);
     try {
+      await flushOutbox(true);
       const [studentData, attendanceData] = await Promise.all([
         getStudents(),
-        getAttendance()
+        getAttendance(todayRange, fullResync),
+        syncSettings()
       ]);
       setStudents(studentData);
       setRecords(attendanceData);
+      setReportRecords(await loadAttendanceRange(reportRange));
+      // Foto bisa banyak: diunduh di belakang tanpa menahan indikator sinkron
+      syncPhotos().catch(error => console.warn("Gagal sinkron foto siswa.", error));
     } catch (error) {
       console.error("Sync error:", error);
     } finally {
@@ -66,27 +181,51 @@ function App() {
     }
   };
 
-  // Fungsi sakti: Update state instan dari Local Storage
-  const handleRecordUpdate = () => {
-    const localRecs = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
-    if (localRecs) {
-        setRecords(JSON.parse(localRecs));
+  // Perubahan yang ditolak server: kirim ulang (mis. setelah server diperbaiki) atau buang
+  const handleFailedMutations = () => {
+    const failed = getFailedMutations();
+    const reasons = Array.from(new Set(failed.map(e => e.lastError || 'tanpa keterangan'))).join(', ');
+    if (confirm(`${failed.length} perubahan ditolak server (${reasons}). Kirim ulang sekarang?`)) {
+      retryFailedMutations();
+    } else if (confirm('Buang perubahan yang ditolak? Data ini tidak akan pernah sampai ke server.')) {
+      discardFailedMutations();
+      handleRecordUpdate();
     }
   };
 
-  const handleLogin = (username: string, role: UserRole, studentData?: Student) => {
-    const authData = { username, role, studentData };
-    localStorage.setItem(STORAGE_KEYS.AUTH, JSON.stringify(authData));
+  // Fungsi sakti: Update state instan dari cache lokal
+  const handleRecordUpdate = async () => {
+    const [todayData, reportData] = await Promise.all([loadAttendanceRange(todayRange), loadAttendanceRange(reportRange)]);
+    setRecords(todayData);
+    setReportRecords(reportData);
+  };
+
+  const handleRangeChange = useCallback((range: DateRange) => {
+    setReportRange(prev => (prev.start === range.start && prev.end === range.end) ? prev : range);
+  }, []);
+
+  // Memilih semester berjalan menghapus pilihan supaya otomatis ikut pergantian semester
+  const handlePeriodChange = (semesterId: string) => {
+    const isCurrent = getPeriodForDate(academicYears)?.semester.id === semesterId;
+    setSelectedSemesterId(isCurrent ? null : semesterId);
+    setSelectedSemesterIdState(isCurrent ? null : semesterId);
+  };
+
+  const handleLogin = (username: string, role: UserRole, studentData?: Student, token?: string) => {
+    startAuthSession(username, role, studentData, token);
     setCurrentUser(username);
     setUserRole(role);
     setParentStudentData(studentData || null);
     setIsAuthenticated(true);
-    if (role === 'PARENT') setActiveTab('reports');
-    else setActiveTab('dashboard');
+    setActiveTab(getDefaultTab(role));
+    // Data server hanya terbuka untuk sesi yang login, jadi sinkron ulang dengan token baru
+    syncFullData();
   };
 
   const handleLogout = () => {
-    localStorage.removeItem(STORAGE_KEYS.AUTH);
+    clearAuthSession();
+    setLockMode(null);
+    setKioskActive(false);
     setIsAuthenticated(false);
     setCurrentUser('');
     setUserRole('TEACHER');
@@ -94,8 +233,29 @@ function App() {
     setActiveTab('dashboard');
   };
 
+  const lockSession = () => {
+    setSessionLocked(true);
+    setLockMode('locked');
+  };
+
+  const handleUnlock = (token?: string) => {
+    setSessionLocked(false, token);
+    setLockMode(null);
+  };
+
+  // Petugas piket berikutnya masuk tanpa logout: tab & state scanner tetap, operatorName ikut berganti
+  const handleSwitchOperator = (username: string, role: StaffRole, token?: string) => {
+    startAuthSession(username, role, undefined, token);
+    setCurrentUser(username);
+    setUserRole(role);
+    setLockMode(null);
+    if (!TAB_PERMISSIONS.some(([tab, permission]) => tab === activeTab && hasPermission(getPermissions(), role, permission))) {
+      setActiveTab(getDefaultTab(role));
+    }
+  };
+
   if (!isAuthenticated) {
-    return <Login onLogin={handleLogin} students={students} />;
+    return <Login onLogin={handleLogin} />;
   }
 
   return (
@@ -121,17 +281,68 @@ function App() {
               SMPN 3 PACET
             </h1>
             <div className="flex flex-wrap gap-2 mt-1">
+               <PeriodSelector years={academicYears} value={period.semester.id} onChange={handlePeriodChange} />
+               {period.readOnly && (
+                 <span
+                    title="Periode yang sudah lewat hanya bisa dilihat"
+                    className="flex items-center text-[10px] font-bold tracking-widest uppercase border border-slate-500/30 px-2 py-1 rounded bg-slate-950/30 text-slate-400"
+                 >
+                   ARSIP
+                 </span>
+               )}
                <button 
-                  onClick={syncFullData}
+                  onClick={() => syncFullData()}
                   disabled={isSyncing}
                   className="flex items-center gap-2 text-[10px] font-bold tracking-widest uppercase border border-cyan-500/30 px-2 py-1 rounded bg-cyan-950/30 text-cyan-400 hover:bg-cyan-500/20 transition-all"
                >
                  {isSyncing ? <RefreshCwIcon size={10} className="animate-spin" /> : <RefreshCwIcon size={10} />}
                  {isSyncing ? 'SYNCING...' : 'REFRESH DATABASE'}
                </button>
+               {can('MANAGE_SETTINGS') && (
+                 <button 
+                    onClick={() => { if (confirm('Unduh ulang seluruh data absensi dari server?')) syncFullData(true); }}
+                    disabled={isSyncing}
+                    title="Bangun ulang cache lokal dari server"
+                    className="flex items-center gap-2 text-[10px] font-bold tracking-widest uppercase border border-slate-500/30 px-2 py-1 rounded bg-slate-950/30 text-slate-400 hover:bg-slate-500/20 transition-all"
+                 >
+                   <DatabaseIcon size={10} /> FULL RESYNC
+                 </button>
+               )}
+               {pendingCount > 0 && (
+                 <span
+                    title="Data tersimpan di perangkat, menunggu terkirim ke server"
+                    className="flex items-center gap-1.5 text-[10px] font-bold tracking-widest uppercase border border-amber-500/30 px-2 py-1 rounded bg-amber-950/30 text-amber-400"
+                 >
+                   <CloudUploadIcon size={10} className="animate-pulse" />
+                   {pendingCount} PENDING
+                 </span>
+               )}
+               {failedCount > 0 && (
+                 <button
+                    onClick={handleFailedMutations}
+                    title="Ditolak server berulang kali dan tidak dikirim ulang otomatis"
+                    className="flex items-center gap-1.5 text-[10px] font-bold tracking-widest uppercase border border-red-500/30 px-2 py-1 rounded bg-red-950/30 text-red-400 hover:bg-red-500/20 transition-all"
+                 >
+                   <CloudOffIcon size={10} />
+                   {failedCount} GAGAL
+                 </button>
+               )}
             </div>
           </div>
 
+          {userRole !== 'PARENT' && (
+            <div className="flex flex-col md:flex-row gap-2">
+              <button onClick={() => setShowChangePassword(true)} title="Ganti Password / PIN" className="p-2 text-slate-400 bg-slate-800/60 rounded-lg border border-white/10 active:scale-90 transition-transform">
+                  <KeyRoundIcon size={20} />
+              </button>
+              <button onClick={() => setLockMode('switch')} title="Ganti Petugas" className="p-2 text-cyan-400 bg-slate-800/60 rounded-lg border border-white/10 active:scale-90 transition-transform">
+                  <UserCogIcon size={20} />
+              </button>
+              <button onClick={lockSession} title="Kunci Layar" className="p-2 text-amber-400 bg-slate-800/60 rounded-lg border border-white/10 active:scale-90 transition-transform">
+                  <LockIcon size={20} />
+              </button>
+            </div>
+          )}
           <button onClick={handleLogout} className="p-2 text-red-400 bg-red-900/20 rounded-lg border border-red-500/20 active:scale-90 transition-transform">
               <LogOutIcon size={20} />
           </button>
@@ -140,41 +351,69 @@ function App() {
 
       <main className="flex-1 max-w-5xl w-full mx-auto px-4 py-6 relative z-10">
         <div className="animate-fade-in">
-          {activeTab === 'dashboard' && userRole !== 'PARENT' && <Dashboard students={students} records={records} />}
-          {activeTab === 'scan' && userRole !== 'PARENT' && (
-            <ScannerTab students={students} records={records} onRecordUpdate={handleRecordUpdate} currentUser={currentUser} />
+          {activeTab === 'dashboard' && can('VIEW_DASHBOARD') && <Dashboard students={activeStudents} records={records} period={currentPeriod} defaultClass={homeroomClass} />}
+          {activeTab === 'scan' && can('RECORD_ATTENDANCE') && (
+            <ScannerTab students={activeStudents} records={records} onRecordUpdate={handleRecordUpdate} currentUser={currentUser} readOnly={period.readOnly} defaultClass={homeroomClass} paused={lockMode !== null} can={can} onKioskChange={setKioskActive} />
           )}
-          {activeTab === 'students' && userRole === 'ADMIN' && <StudentList students={students} setStudents={setStudents} />}
+          {activeTab === 'students' && can('MANAGE_STUDENTS') && <StudentList students={students} setStudents={setStudents} can={can} />}
+          {activeTab === 'settings' && can('MANAGE_SETTINGS') && <Settings students={activeStudents} currentUser={currentUser} onRecordUpdate={handleRecordUpdate} />}
           {/* Fix: Added missing onRecordUpdate prop to Reports component */}
-          {activeTab === 'reports' && <Reports records={records} students={students} onRecordUpdate={handleRecordUpdate} viewOnlyStudent={parentStudentData} />}
+          {activeTab === 'reports' && can('VIEW_REPORTS') && <Reports records={reportRecords} students={students} onRecordUpdate={handleRecordUpdate} onRangeChange={handleRangeChange} viewOnlyStudent={parentStudentData} academicPeriod={period} defaultClass={homeroomClass} currentUser={currentUser} can={can} />}
         </div>
       </main>
 
-      {userRole !== 'PARENT' && (
+      {lockMode && (
+        <LockScreen
+          key={lockMode}
+          currentUser={currentUser}
+          locked={lockMode === 'locked'}
+          onUnlock={handleUnlock}
+          onSwitch={handleSwitchOperator}
+          onCancel={() => setLockMode(null)}
+          onLogout={handleLogout}
+        />
+      )}
+
+      {showChangePassword && <ChangePasswordModal staffId={getStaffIdByName(staff, currentUser)} username={currentUser} onClose={() => setShowChangePassword(false)} />}
+
+      {TAB_PERMISSIONS.filter(([tab]) => canOpenTab(tab)).length > 1 && (
         <nav className="fixed bottom-0 left-0 right-0 z-40">
           <div className="max-w-xl mx-auto flex justify-center items-end pb-4 gap-4 md:gap-8">
-             <button onClick={() => setActiveTab('dashboard')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'dashboard' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
-                <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'dashboard' ? 'bg-slate-800 border-amber-400' : 'bg-slate-900 border-slate-700'}`}>
-                  <HomeIcon size={22} className={`transform -rotate-45 ${activeTab === 'dashboard' ? 'text-amber-400' : 'text-slate-400'}`} />
-                </div>
-             </button>
-             <button onClick={() => setActiveTab('scan')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'scan' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
-                <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'scan' ? 'bg-slate-800 border-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.4)]' : 'bg-slate-900 border-slate-700'}`}>
-                  <QrCodeIcon size={22} className={`transform -rotate-45 ${activeTab === 'scan' ? 'text-cyan-400' : 'text-slate-400'}`} />
-                </div>
-             </button>
-             {userRole === 'ADMIN' && (
+             {canOpenTab('dashboard') && (
+               <button onClick={() => setActiveTab('dashboard')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'dashboard' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
+                  <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'dashboard' ? 'bg-slate-800 border-amber-400' : 'bg-slate-900 border-slate-700'}`}>
+                    <HomeIcon size={22} className={`transform -rotate-45 ${activeTab === 'dashboard' ? 'text-amber-400' : 'text-slate-400'}`} />
+                  </div>
+               </button>
+             )}
+             {canOpenTab('scan') && (
+               <button onClick={() => setActiveTab('scan')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'scan' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
+                  <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'scan' ? 'bg-slate-800 border-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.4)]' : 'bg-slate-900 border-slate-700'}`}>
+                    <QrCodeIcon size={22} className={`transform -rotate-45 ${activeTab === 'scan' ? 'text-cyan-400' : 'text-slate-400'}`} />
+                  </div>
+               </button>
+             )}
+             {canOpenTab('students') && (
                <button onClick={() => setActiveTab('students')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'students' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
                   <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'students' ? 'bg-slate-800 border-amber-400' : 'bg-slate-900 border-slate-700'}`}>
                     <UsersIcon size={22} className={`transform -rotate-45 ${activeTab === 'students' ? 'text-amber-400' : 'text-slate-400'}`} />
                   </div>
                </button>
              )}
-             <button onClick={() => setActiveTab('reports')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'reports' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
-                <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'reports' ? 'bg-slate-800 border-amber-400' : 'bg-slate-900 border-slate-700'}`}>
-                  <TrophyIcon size={22} className={`transform -rotate-45 ${activeTab === 'reports' ? 'text-amber-400' : 'text-slate-400'}`} />
-                </div>
-             </button>
+             {canOpenTab('settings') && (
+               <button onClick={() => setActiveTab('settings')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'settings' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
+                  <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'settings' ? 'bg-slate-800 border-amber-400' : 'bg-slate-900 border-slate-700'}`}>
+                    <SettingsIcon size={22} className={`transform -rotate-45 ${activeTab === 'settings' ? 'text-amber-400' : 'text-slate-400'}`} />
+                  </div>
+               </button>
+             )}
+             {canOpenTab('reports') && (
+               <button onClick={() => setActiveTab('reports')} className={`group flex flex-col items-center transition-all w-16 ${activeTab === 'reports' ? '-translate-y-2 scale-110' : 'opacity-70'}`}>
+                  <div className={`w-12 h-12 flex items-center justify-center rounded-xl transform rotate-45 border-2 ${activeTab === 'reports' ? 'bg-slate-800 border-amber-400' : 'bg-slate-900 border-slate-700'}`}>
+                    <TrophyIcon size={22} className={`transform -rotate-45 ${activeTab === 'reports' ? 'text-amber-400' : 'text-slate-400'}`} />
+                  </div>
+               </button>
+             )}
           </div>
         </nav>
       )}
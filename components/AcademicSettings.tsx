@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, GraduationCap } from 'lucide-react';
+import { AcademicYear, Semester } from '../types';
+import { saveAcademicYears } from '../services/academicService';
+import { useSetting } from '../hooks/useSetting';
+import { DEFAULT_ACADEMIC_YEARS, SETTING_KEYS } from '../constants';
+
+// Tahun berikutnya dibuat dari tahun terakhir: Ganjil Juli-Desember, Genap Januari-Juni
+const createNextYear = (years: AcademicYear[]): AcademicYear => {
+  const lastStart = years.length > 0 ? Number(years[years.length - 1].id.slice(0, 4)) : new Date().getFullYear() - 1;
+  const first = lastStart + 1;
+  const id = `${first}/${first + 1}`;
+  return {
+    id,
+    name: id,
+    semesters: [
+      { id: `${id}-1`, name: 'Ganjil', start: `${first}-07-01`, end: `${first}-12-31` },
+      { id: `${id}-2`, name: 'Genap', start: `${first + 1}-01-01`, end: `${first + 1}-06-30` }
+    ]
+  };
+};
+
+const AcademicSettings: React.FC = () => {
+  const savedYears = useSetting(SETTING_KEYS.ACADEMIC_YEARS, DEFAULT_ACADEMIC_YEARS);
+  const [years, setYears] = useState<AcademicYear[]>(savedYears);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (!isDirty) setYears(savedYears);
+  }, [savedYears, isDirty]);
+
+  const updateSemester = (yearIndex: number, semesterIndex: number, changes: Partial<Semester>) => {
+    setYears(years.map((y, i) => i !== yearIndex ? y : {
+      ...y,
+      semesters: y.semesters.map((s, j) => j === semesterIndex ? { ...s, ...changes } : s)
+    }));
+    setIsDirty(true);
+  };
+
+  const handleAdd = () => {
+    setYears([...years, createNextYear(years)]);
+    setIsDirty(true);
+  };
+
+  const handleRemove = (index: number) => {
+    if (!confirm('Hapus tahun pelajaran ini? Data absensi tetap tersimpan, hanya tidak bisa dipilih di laporan.')) return;
+    setYears(years.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (years.length === 0) {
+      alert('Minimal harus ada satu tahun pelajaran.');
+      return;
+    }
+    const semesters = years.flatMap(y => y.semesters).sort((a, b) => a.start.localeCompare(b.start));
+    if (semesters.some(s => s.end < s.start)) {
+      alert('Tanggal selesai semester tidak boleh sebelum tanggal mulai.');
+      return;
+    }
+    if (semesters.some((s, i) => i > 0 && s.start <= semesters[i - 1].end)) {
+      alert('Rentang tanggal semester tidak boleh tumpang tindih.');
+      return;
+    }
+    saveAcademicYears([...years].sort((a, b) => a.id.localeCompare(b.id)));
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <GraduationCap className="text-cyan-400" /> TAHUN PELAJARAN
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={handleAdd} className="bg-slate-800 text-cyan-400 border border-cyan-500/30 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-cyan-900/30 transition-all">
+            <Plus size={14} /> Tambah
+          </button>
+          <button onClick={handleSave} disabled={!isDirty} className="bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+            <Save size={14} /> Simpan
+          </button>
+        </div>
+      </div>
+
+      {years.map((year, yearIndex) => (
+        <div key={year.id} className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="font-bold text-slate-200 font-mono">TP {year.name}</span>
+            <button onClick={() => handleRemove(yearIndex)} className="p-2 text-slate-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all" title="Hapus Tahun Pelajaran">
+              <Trash2 size={16} />
+            </button>
+          </div>
+          {year.semesters.map((semester, semesterIndex) => (
+            <div key={semester.id} className="grid grid-cols-1 md:grid-cols-[120px_auto_auto] gap-3 items-end">
+              <span className="text-xs font-bold text-cyan-400 uppercase pb-3">Semester {semester.name}</span>
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-cyan-400 uppercase">Mulai</label>
+                <input type="date" value={semester.start} onChange={e => updateSemester(yearIndex, semesterIndex, { start: e.target.value })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-cyan-400 uppercase">Selesai</label>
+                <input type="date" value={semester.end} min={semester.start} onChange={e => updateSemester(yearIndex, semesterIndex, { end: e.target.value })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AcademicSettings;
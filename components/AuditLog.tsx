@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History, RefreshCw, Loader2, RotateCcw, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { AttendanceRecord, AuditAction, AuditEntry } from '../types';
+import { getAuditEntries, syncAuditLog } from '../services/auditService';
+import { restoreAttendanceRecord, revertAttendanceEdit } from '../services/storageService';
+import { getRecordSessionId, getSessionName } from '../services/sessionService';
+import { getRecordStatus, getStatusInfo } from '../services/statusService';
+import { useSetting } from '../hooks/useSetting';
+import { DEFAULT_PRAYER_SESSIONS, SETTING_KEYS } from '../constants';
+
+interface AuditLogProps {
+  currentUser: string;
+  onRecordUpdate: () => void;
+}
+
+const ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+  CREATE: { label: 'Absen', className: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  UPDATE: { label: 'Ubah', className: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  DELETE: { label: 'Hapus', className: 'bg-red-500/10 text-red-400 border-red-500/30' },
+  RESTORE: { label: 'Pulihkan', className: 'bg-cyan-500/10 text-cyan-400 border-cyan-500/30' },
+  REVERT: { label: 'Kembalikan', className: 'bg-cyan-500/10 text-cyan-400 border-cyan-500/30' },
+};
+
+// Daftar dibatasi supaya render tetap ringan; persempit dengan filter
+const MAX_VISIBLE = 200;
+
+const describe = (record: AttendanceRecord | null) => {
+  if (!record) return '-';
+  if (record.deletedAt) return 'Dihapus';
+  const label = getStatusInfo(getRecordStatus(record)).label;
+  return record.note ? `${label} (${record.note})` : label;
+};
+
+const AuditLog: React.FC<AuditLogProps> = ({ currentUser, onRecordUpdate }) => {
+  const sessions = useSetting(SETTING_KEYS.PRAYER_SESSIONS, DEFAULT_PRAYER_SESSIONS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [studentQuery, setStudentQuery] = useState('');
+  const [actorFilter, setActorFilter] = useState('ALL');
+  const [dateFilter, setDateFilter] = useState('');
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      await syncAuditLog();
+    } catch (e) {
+      console.warn("Gagal sinkron jejak audit, menampilkan data lokal.");
+    }
+    setEntries(await getAuditEntries());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const actors = useMemo(() => Array.from(new Set(entries.map(e => e.actor))).sort(), [entries]);
+  // Entri yang sudah dibatalkan oleh RESTORE/REVERT tidak bisa dibatalkan dua kali
+  const undoneIds = useMemo(() => new Set(entries.map(e => e.sourceId).filter(Boolean)), [entries]);
+
+  const filtered = useMemo(() => {
+    const query = studentQuery.trim().toLowerCase();
+    return entries.filter(e =>
+      (!query || e.studentName.toLowerCase().includes(query) || e.studentId.includes(query)) &&
+      (actorFilter === 'ALL' || e.actor === actorFilter) &&
+      (!dateFilter || e.after.date === dateFilter)
+    );
+  }, [entries, studentQuery, actorFilter, dateFilter]);
+
+  const handleUndo = async (entry: AuditEntry) => {
+    const isRestore = entry.action === 'DELETE';
+    const question = isRestore
+      ? `Pulihkan absen ${entry.studentName} yang dihapus ${entry.actor}?`
+      : `Kembalikan status ${entry.studentName} menjadi ${describe(entry.before)}?`;
+    if (!confirm(question)) return;
+    const result = isRestore
+      ? await restoreAttendanceRecord(entry, currentUser)
+      : await revertAttendanceEdit(entry, currentUser);
+    alert(result.message);
+    if (!result.success) return;
+    setEntries(await getAuditEntries());
+    onRecordUpdate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <History className="text-cyan-400" /> RIWAYAT PERUBAHAN
+        </h3>
+        <button onClick={load} disabled={isLoading} className="bg-slate-800 text-cyan-400 border border-cyan-500/30 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-cyan-900/30 transition-all disabled:opacity-40">
+          {isLoading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} Muat Ulang
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-cyan-400 uppercase">Siswa</label>
+          <input type="text" placeholder="Nama / NIS" value={studentQuery} onChange={e => setStudentQuery(e.target.value)} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-cyan-400 uppercase">Petugas</label>
+          <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500">
+            <option value="ALL">Semua Petugas</option>
+            {actors.map(actor => <option key={actor} value={actor}>{actor}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-cyan-400 uppercase">Tanggal Absen</label>
+          <input type="date" value={dateFilter} onChange={e => setDateFilter(e.target.value)} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-700">
+        <table className="w-full text-left">
+          <thead className="bg-slate-950 text-slate-400 text-[10px] uppercase font-bold">
+            <tr>
+              <th className="p-3">Waktu</th>
+              <th className="p-3">Petugas</th>
+              <th className="p-3">Aksi</th>
+              <th className="p-3">Siswa</th>
+              <th className="p-3">Sebelum</th>
+              <th className="p-3">Sesudah</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody className="text-xs">
+            {filtered.slice(0, MAX_VISIBLE).map(entry => {
+              const action = ACTION_LABELS[entry.action];
+              const canUndo = (entry.action === 'DELETE' || entry.action === 'UPDATE') && !undoneIds.has(entry.id);
+              return (
+                <tr key={entry.id} className="border-b border-slate-800/50">
+                  <td className="p-3 text-slate-400 whitespace-nowrap">{format(entry.timestamp, 'dd/MM/yy HH:mm')}</td>
+                  <td className="p-3 text-slate-300">{entry.actor}</td>
+                  <td className="p-3">
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${action.className}`}>{action.label}</span>
+                  </td>
+                  <td className="p-3">
+                    <p className="font-bold text-slate-200">{entry.studentName}</p>
+                    <p className="text-[10px] text-slate-500">{entry.after.className} · {entry.after.date} · {getSessionName(sessions, getRecordSessionId(entry.after))}</p>
+                  </td>
+                  <td className="p-3 text-slate-400">{describe(entry.before)}</td>
+                  <td className="p-3 text-slate-200">{describe(entry.after)}</td>
+                  <td className="p-3 text-right">
+                    {canUndo && (
+                      <button onClick={() => handleUndo(entry)} className="px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase border bg-slate-900 text-cyan-400 border-cyan-500/30 hover:bg-cyan-900/30 transition-all inline-flex items-center gap-1.5 whitespace-nowrap">
+                        {entry.action === 'DELETE' ? <><RotateCcw size={12} /> Pulihkan</> : <><Undo2 size={12} /> Kembalikan</>}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {filtered.length === 0 && (
+              <tr><td colSpan={7} className="p-6 text-center text-slate-500">{isLoading ? 'Memuat...' : 'Belum ada riwayat perubahan.'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {filtered.length > MAX_VISIBLE && (
+        <p className="text-[10px] text-slate-500">Menampilkan {MAX_VISIBLE} dari {filtered.length} entri terbaru. Persempit dengan filter.</p>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
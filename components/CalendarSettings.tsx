@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Trash2, Save, CalendarDays, Upload } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { CalendarEntry, CalendarEntryKind, SchoolCalendar } from '../types';
+import { saveSchoolCalendar, parseHolidayRows } from '../services/calendarService';
+import { useSetting } from '../hooks/useSetting';
+import { CALENDAR_ENTRY_LABELS, DEFAULT_SCHOOL_CALENDAR, SETTING_KEYS } from '../constants';
+
+const DAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+const sortEntries = (entries: CalendarEntry[]) => [...entries].sort((a, b) => a.start.localeCompare(b.start));
+
+const CalendarSettings: React.FC = () => {
+  const savedCalendar = useSetting(SETTING_KEYS.SCHOOL_CALENDAR, DEFAULT_SCHOOL_CALENDAR);
+  const [calendar, setCalendar] = useState<SchoolCalendar>(savedCalendar);
+  const [isDirty, setIsDirty] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isDirty) setCalendar(savedCalendar);
+  }, [savedCalendar, isDirty]);
+
+  const update = (changes: Partial<SchoolCalendar>) => {
+    setCalendar({ ...calendar, ...changes });
+    setIsDirty(true);
+  };
+
+  const toggleSchoolDay = (day: number) => {
+    const days = calendar.schoolDays;
+    update({ schoolDays: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const updateEntry = (id: string, changes: Partial<CalendarEntry>) => {
+    update({ entries: calendar.entries.map(e => e.id === id ? { ...e, ...changes } : e) });
+  };
+
+  const handleAdd = () => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    update({ entries: [...calendar.entries, { id: crypto.randomUUID(), name: '', kind: 'HOLIDAY', start: today, end: today }] });
+  };
+
+  const handleRemove = (id: string) => {
+    update({ entries: calendar.entries.filter(e => e.id !== id) });
+  };
+
+  const handleSave = () => {
+    if (calendar.entries.some(e => e.end < e.start)) {
+      alert('Tanggal selesai tidak boleh sebelum tanggal mulai.');
+      return;
+    }
+    saveSchoolCalendar({ ...calendar, entries: sortEntries(calendar.entries.map(e => ({ ...e, name: e.name.trim() }))) });
+    setIsDirty(false);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const data = e.target?.result;
+      if (!data) return;
+
+      try {
+        const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        const imported = parseHolidayRows(XLSX.utils.sheet_to_json(worksheet));
+        if (imported.length === 0) {
+          alert('Tidak ada baris libur yang valid. Pastikan ada kolom Tanggal dan Keterangan.');
+          return;
+        }
+        // Rentang yang sudah ada dengan tanggal sama tidak digandakan
+        const existing = new Set(calendar.entries.map(e => `${e.start}|${e.end}`));
+        const fresh = imported.filter(e => !existing.has(`${e.start}|${e.end}`));
+        update({ entries: sortEntries([...calendar.entries, ...fresh]) });
+        alert(`${fresh.length} hari libur ditambahkan. Klik Simpan untuk menerapkan.`);
+      } catch (error) {
+        alert("Gagal membaca file libur.");
+      }
+    };
+    reader.readAsArrayBuffer(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <CalendarDays className="text-cyan-400" /> KALENDER SEKOLAH
+        </h3>
+        <div className="flex gap-2">
+          <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".xlsx, .xls, .csv" className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className="bg-slate-800 text-blue-400 border border-blue-500/30 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-blue-900/30 transition-all">
+            <Upload size={14} /> Import
+          </button>
+          <button onClick={handleAdd} className="bg-slate-800 text-cyan-400 border border-cyan-500/30 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-cyan-900/30 transition-all">
+            <Plus size={14} /> Tambah
+          </button>
+          <button onClick={handleSave} disabled={!isDirty} className="bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+            <Save size={14} /> Simpan
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 space-y-2">
+        <label className="text-[10px] font-bold text-cyan-400 uppercase">Hari Sekolah</label>
+        <div className="flex flex-wrap gap-1">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              onClick={() => toggleSchoolDay(day)}
+              className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase border transition-all ${calendar.schoolDays.includes(day) ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30' : 'bg-slate-900 text-slate-500 border-slate-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500">Import file Excel/CSV dengan kolom: Tanggal (atau Mulai), Selesai, Keterangan, Jenis.</p>
+      </div>
+
+      {calendar.entries.length === 0 && (
+        <div className="text-slate-500 text-sm italic text-center py-6">Belum ada hari libur.</div>
+      )}
+
+      {calendar.entries.map(entry => (
+        <div key={entry.id} className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto_auto] gap-3 items-end">
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-cyan-400 uppercase">Keterangan</label>
+            <input type="text" value={entry.name} onChange={e => updateEntry(entry.id, { name: e.target.value })} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-cyan-400 uppercase">Jenis</label>
+            <select value={entry.kind} onChange={e => updateEntry(entry.id, { kind: e.target.value as CalendarEntryKind })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500">
+              {(Object.keys(CALENDAR_ENTRY_LABELS) as CalendarEntryKind[]).map(kind => (
+                <option key={kind} value={kind}>{CALENDAR_ENTRY_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-cyan-400 uppercase">Mulai</label>
+            <input type="date" value={entry.start} onChange={e => updateEntry(entry.id, { start: e.target.value, end: entry.end < e.target.value ? e.target.value : entry.end })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-cyan-400 uppercase">Selesai</label>
+            <input type="date" value={entry.end} min={entry.start} onChange={e => updateEntry(entry.id, { end: e.target.value })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+          </div>
+          <button onClick={() => handleRemove(entry.id)} className="p-2.5 text-slate-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all" title="Hapus">
+            <Trash2 size={18} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CalendarSettings;
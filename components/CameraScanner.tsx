@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { Flashlight, FlashlightOff, Activity, SwitchCamera } from 'lucide-react';
+import { QrReader, OnResultFunction } from 'react-qr-reader';
+import { CameraPreference } from '../types';
+import { getCameraPreference, saveCameraPreference, listCameras, getCameraConstraints, getVideoTrack, isTorchSupported, setTorch } from '../services/cameraService';
+
+interface CameraScannerProps {
+  onDecode: (text: string) => void;
+  paused?: boolean;
+  children?: React.ReactNode; // Overlay di atas video (garis scan, indikator proses)
+}
+
+interface TrackInfo {
+  label: string;
+  width?: number;
+  height?: number;
+  torchSupported: boolean;
+}
+
+const VIDEO_ID = 'scanner-camera';
+const RATE_WINDOW_MS = 60000;
+
+// Frame tanpa QR dilaporkan zxing sebagai error; itu normal, bukan gangguan kamera
+const DECODE_MISS_ERRORS = ['NotFoundException', 'ChecksumException', 'FormatException'];
+
+type ZxingError = Error & { getKind(): string };
+
+const isZxingError = (error: Error): error is ZxingError => typeof (error as Partial<ZxingError>).getKind === 'function';
+
+// Nama kelas zxing teracak saat build (minify), jadi jenisnya dibaca dari kind bawaan zxing.
+// Error kamera dari browser (DOMException) tidak punya kind dan tetap memakai name.
+const errorKind = (error: Error): string => (isZxingError(error) && error.getKind()) || error.name;
+
+// Kamera scanner: pilih kamera, lampu kilat, dan panel diagnostik di sekitar QrReader
+const CameraScanner: React.FC<CameraScannerProps> = ({ onDecode, paused = false, children }) => {
+  const [preference, setPreference] = useState<CameraPreference>(getCameraPreference);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [trackInfo, setTrackInfo] = useState<TrackInfo | null>(null);
+  const [torchOn, setTorchOn] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [, setDiagnosticsTick] = useState(0);
+  // Naik setiap ganti kamera supaya QrReader dipasang ulang (constraints hanya dibaca sekali)
+  const [readerKey, setReaderKey] = useState(0);
+
+  const statsRef = useRef({ attempts: [] as number[], decodes: [] as number[], lastDecodeAt: 0, lastError: '', lastErrorAt: 0 });
+
+  const updatePreference = (changes: Partial<CameraPreference>) => {
+    const next = { ...preference, ...changes };
+    setPreference(next);
+    saveCameraPreference(next);
+  };
+
+  const remountReader = () => {
+    setTrackInfo(null);
+    setTorchOn(false);
+    setReaderKey(k => k + 1);
+  };
+
+  const recordAttempt = (decoded: boolean) => {
+    const stats = statsRef.current;
+    const now = Date.now();
+    stats.attempts = [...stats.attempts.filter(t => now - t < RATE_WINDOW_MS), now];
+    if (decoded) {
+      stats.decodes = [...stats.decodes.filter(t => now - t < RATE_WINDOW_MS), now];
+      stats.lastDecodeAt = now;
+    }
+  };
+
+  // QrReader hanya memakai onResult dari render pertama; lewat ref supaya props terbaru terbaca
+  const handleResult: OnResultFunction = (result, error) => {
+    if (result) {
+      recordAttempt(true);
+      const text = result.getText();
+      if (text) onDecode(text);
+      return;
+    }
+    if (!error) return;
+    const kind = errorKind(error);
+    if (DECODE_MISS_ERRORS.includes(kind)) {
+      recordAttempt(false);
+      return;
+    }
+    statsRef.current.lastError = `${kind}: ${error.message}`;
+    statsRef.current.lastErrorAt = Date.now();
+    // Kamera tersimpan sudah tidak ada (dicabut / HP lain): kembali ke kamera bawaan
+    if ((kind === 'OverconstrainedError' || kind === 'NotFoundError') && preference.deviceId) {
+      updatePreference({ deviceId: undefined });
+      remountReader();
+    }
+    setDiagnosticsTick(t => t + 1);
+  };
+  const resultRef = useRef(handleResult);
+  resultRef.current = handleResult;
+
+  // Tunggu video berjalan: baca info kamera, muat ulang daftar kamera (label baru ada setelah izin),
+  // lalu nyalakan lampu bila terakhir dipakai menyala
+  useEffect(() => {
+    if (paused) return;
+    const timer = setInterval(async () => {
+      const track = getVideoTrack(VIDEO_ID);
+      if (!track || track.readyState !== 'live') return;
+      clearInterval(timer);
+      const settings = track.getSettings();
+      const torchSupported = isTorchSupported(track);
+      setTrackInfo({ label: track.label, width: settings.width, height: settings.height, torchSupported });
+      setCameras(await listCameras());
+      if (torchSupported && preference.torch) {
+        setTorch(track, true).then(() => setTorchOn(true)).catch(() => {});
+      }
+    }, 500);
+    return () => clearInterval(timer);
+  }, [readerKey, paused]);
+
+  useEffect(() => {
+    if (!showDiagnostics) return;
+    const timer = setInterval(() => setDiagnosticsTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [showDiagnostics]);
+
+  const handleCameraChange = (deviceId: string) => {
+    updatePreference({ deviceId: deviceId || undefined });
+    remountReader();
+  };
+
+  const toggleTorch = async () => {
+    const track = getVideoTrack(VIDEO_ID);
+    if (!track) return;
+    try {
+      await setTorch(track, !torchOn);
+      setTorchOn(!torchOn);
+      updatePreference({ torch: !torchOn });
+    } catch (e) {
+      statsRef.current.lastError = 'Lampu kilat gagal diubah.';
+      statsRef.current.lastErrorAt = Date.now();
+      setDiagnosticsTick(t => t + 1);
+    }
+  };
+
+  const stats = statsRef.current;
+  const now = Date.now();
+  const attemptsPerMinute = stats.attempts.filter(t => now - t < RATE_WINDOW_MS).length;
+  const decodesPerMinute = stats.decodes.filter(t => now - t < RATE_WINDOW_MS).length;
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <SwitchCamera className="absolute left-2.5 top-2 text-slate-500" size={14} />
+          <select value={preference.deviceId || ''} onChange={e => handleCameraChange(e.target.value)} className="w-full pl-8 pr-2 py-1.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-300 text-xs outline-none">
+            <option value="">Kamera belakang (otomatis)</option>
+            {cameras.map((camera, i) => <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Kamera ${i + 1}`}</option>)}
+          </select>
+        </div>
+        <button onClick={toggleTorch} disabled={!trackInfo?.torchSupported} className={`px-2.5 rounded-lg border transition-all disabled:opacity-30 ${torchOn ? 'bg-amber-500/20 border-amber-500 text-amber-400' : 'bg-slate-900 border-slate-700 text-slate-500'}`} title={trackInfo?.torchSupported ? 'Lampu kilat' : 'Lampu kilat tidak didukung kamera ini'}>
+          {torchOn ? <Flashlight size={14} /> : <FlashlightOff size={14} />}
+        </button>
+        <button onClick={() => setShowDiagnostics(!showDiagnostics)} className={`px-2.5 rounded-lg border transition-all ${showDiagnostics ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400' : 'bg-slate-900 border-slate-700 text-slate-500'}`} title="Diagnostik">
+          <Activity size={14} />
+        </button>
+      </div>
+
+      <div className="w-full aspect-square bg-black rounded-lg overflow-hidden border-2 relative shadow-inner border-cyan-500/50">
+        {children}
+        {!paused && (
+          <QrReader
+            key={readerKey}
+            videoId={VIDEO_ID}
+            onResult={(result, error) => resultRef.current(result, error)}
+            constraints={getCameraConstraints(preference.deviceId)}
+            scanDelay={1000}
+            containerStyle={{ width: '100%', height: '100%' }}
+            videoStyle={{ objectFit: 'cover' }}
+          />
+        )}
+      </div>
+
+      {showDiagnostics && (
+        <div className="bg-slate-950 border border-slate-700 rounded-lg p-3 text-[10px] font-mono text-slate-400 space-y-1 text-left">
+          <p>Kamera: <span className="text-slate-200">{trackInfo ? `${trackInfo.label || '-'} (${trackInfo.width || '?'}x${trackInfo.height || '?'})` : 'belum berjalan'}</span></p>
+          <p>Lampu kilat: <span className="text-slate-200">{trackInfo?.torchSupported ? (torchOn ? 'menyala' : 'didukung') : 'tidak didukung'}</span></p>
+          <p>Percobaan baca: <span className="text-slate-200">{attemptsPerMinute}/menit</span> · Terbaca: <span className="text-emerald-400">{decodesPerMinute}/menit</span></p>
+          <p>Terakhir terbaca: <span className="text-slate-200">{stats.lastDecodeAt ? format(stats.lastDecodeAt, 'HH:mm:ss') : '-'}</span></p>
+          <p>Error terakhir: <span className={stats.lastError ? 'text-red-400' : 'text-slate-200'}>{stats.lastError ? `${format(stats.lastErrorAt, 'HH:mm:ss')} ${stats.lastError}` : '-'}</span></p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraScanner;
@@ -1,9 +1,11 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import QRCode from 'react-qr-code';
 import { Student } from '../types';
 import { X, Printer, Download, Loader2, Moon } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
+import { CardPrintJob, prepareCardPrint, recordCardPrints } from '../services/cardService';
+import StudentPhoto from './StudentPhoto';
 
 interface CardGeneratorProps {
   students: Student[];
@@ -13,8 +15,21 @@ interface CardGeneratorProps {
 const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const printRef = useRef<HTMLDivElement>(null);
+  // Token QR bertanda tangan per NIS; kartu baru baru tercatat di registry saat dicetak/diunduh
+  const [printJob, setPrintJob] = useState<CardPrintJob | null>(null);
+  const [tokenError, setTokenError] = useState('');
+  const tokens = printJob?.tokens;
+
+  useEffect(() => {
+    let cancelled = false;
+    prepareCardPrint(students)
+      .then(result => { if (!cancelled) setPrintJob(result); })
+      .catch(error => { if (!cancelled) setTokenError(error instanceof Error ? error.message : String(error)); });
+    return () => { cancelled = true; };
+  }, [students]);
 
   const handlePrint = () => {
+    recordCardPrints(students.map(s => s.id), printJob?.pending);
     window.print();
   };
 
@@ -66,6 +81,7 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
       }
       
       pdf.save('kartu-hero-smpn3pacet.pdf');
+      recordCardPrints(students.map(s => s.id), printJob?.pending);
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Gagal membuat PDF. Silakan coba lagi atau gunakan tombol Print.');
@@ -92,7 +108,7 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
         <div className="flex gap-3">
           <button 
             onClick={handleDownloadPDF}
-            disabled={isGenerating}
+            disabled={isGenerating || !tokens}
             className={`bg-cyan-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-cyan-500 transition-colors shadow-lg border border-cyan-400/50 ${isGenerating ? 'opacity-75 cursor-wait' : ''}`}
           >
             {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
@@ -100,6 +116,7 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
           </button>
           <button 
             onClick={handlePrint}
+            disabled={!tokens}
             className="bg-amber-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-amber-500 transition-colors shadow-lg border border-amber-400/50"
           >
             <Printer size={18} />
@@ -117,6 +134,11 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
 
       {/* Printable Area Wrapper */}
       <div className="flex-1 overflow-auto p-8 w-full flex justify-center bg-slate-900">
+        {!tokens ? (
+          <div className="flex flex-col items-center gap-3 mt-20 text-slate-400 text-sm">
+            {tokenError ? <p className="text-red-300">{tokenError}</p> : <><Loader2 size={32} className="animate-spin text-cyan-400" /> Menyiapkan kode kartu...</>}
+          </div>
+        ) : (
         <div ref={printRef} id="printable-area">
             {pages.map((pageStudents, pageIndex) => (
                 <div 
@@ -177,7 +199,7 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
                                     <div className="shrink-0 flex flex-col items-center justify-center pl-1">
                                         <div className="bg-white p-2 rounded-xl border-4 border-amber-500/50 shadow-[0_0_15px_rgba(0,0,0,0.5)] relative" style={{ width: '135px', height: '135px' }}>
                                             <QRCode
-                                                value={student.id}
+                                                value={tokens[student.id]}
                                                 style={{ height: "100%", width: "100%" }}
                                                 viewBox={`0 0 256 256`}
                                             />
@@ -203,7 +225,8 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
                                         </div>
 
                                         {/* Name - OPTIMIZED FOR PDF GENERATION */}
-                                        <div className="flex-grow flex items-center">
+                                        <div className="flex-grow flex items-center gap-2">
+                                            <StudentPhoto studentId={student.id} className="w-11 h-14 rounded border border-amber-500/50 shrink-0" />
                                             <h2 
                                                 className={`${fontSizeClass} font-gaming font-bold leading-tight uppercase`} 
                                                 style={{ 
@@ -236,6 +259,7 @@ const CardGenerator: React.FC<CardGeneratorProps> = ({ students, onClose }) => {
                 </div>
             ))}
         </div>
+        )}
       </div>
     </div>
   );
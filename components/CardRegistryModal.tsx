@@ -0,0 +1,76 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { X, CreditCard, AlertTriangle, Ban, Printer } from 'lucide-react';
+import { CardRegistry, Student } from '../types';
+import { deactivateCard } from '../services/cardService';
+import { useSetting } from '../hooks/useSetting';
+import { CARD_STATUS_LABELS, SETTING_KEYS } from '../constants';
+
+interface CardRegistryModalProps {
+  student: Student;
+  onReplace: (student: Student) => void;
+  onClose: () => void;
+}
+
+const CardRegistryModal: React.FC<CardRegistryModalProps> = ({ student, onReplace, onClose }) => {
+  const registry = useSetting<CardRegistry>(SETTING_KEYS.CARDS, {});
+  // Terbaru di atas
+  const cards = [...(registry[student.id] || [])].sort((a, b) => b.serial - a.serial);
+  const activeCard = cards.find(c => c.status === 'ACTIVE');
+
+  const handleDeactivate = (status: 'LOST' | 'REVOKED') => {
+    const action = status === 'LOST' ? 'Laporkan kartu hilang' : 'Cabut kartu';
+    if (!confirm(`${action} ${student.name}? Kartu ini langsung ditolak scanner.`)) return;
+    deactivateCard(student.id, status);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/95 z-[60] backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-slate-800 border border-white/10 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2"><CreditCard size={20} /> KARTU SISWA</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+        <div>
+          <p className="font-bold text-slate-200">{student.name}</p>
+          <p className="text-[10px] text-slate-500 uppercase tracking-widest">Kelas {student.className} · NIS {student.id}</p>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {cards.map(card => (
+            <div key={card.serial} className="bg-slate-900/60 border border-slate-700 rounded-xl p-3 space-y-1">
+              <div className="flex justify-between items-center">
+                <span className="font-mono font-bold text-slate-200">#{card.serial}</span>
+                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${CARD_STATUS_LABELS[card.status].className}`}>{CARD_STATUS_LABELS[card.status].label}</span>
+              </div>
+              <p className="text-[10px] text-slate-500">
+                Dibuat {format(card.issuedAt, 'dd/MM/yyyy')}
+                {card.statusChangedAt && ` · ${CARD_STATUS_LABELS[card.status].label} ${format(card.statusChangedAt, 'dd/MM/yyyy')}`}
+              </p>
+              <p className="text-[10px] text-slate-500">
+                {card.printedAt?.length
+                  ? `Dicetak ${card.printedAt.length}x: ${card.printedAt.map(t => format(t, 'dd/MM/yy')).join(', ')}`
+                  : 'Belum tercatat dicetak'}
+              </p>
+            </div>
+          ))}
+          {cards.length === 0 && <p className="text-xs text-slate-400">Belum ada kartu bertanda tangan. Kartu dibuat saat dicetak dari menu Cards.</p>}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => handleDeactivate('LOST')} disabled={!activeCard} className="bg-slate-900 border border-slate-700 text-orange-400 py-2 rounded-lg text-[10px] font-bold uppercase flex flex-col items-center gap-1 hover:border-orange-500 disabled:opacity-40">
+            <AlertTriangle size={16} /> Hilang
+          </button>
+          <button onClick={() => handleDeactivate('REVOKED')} disabled={!activeCard} className="bg-slate-900 border border-slate-700 text-red-400 py-2 rounded-lg text-[10px] font-bold uppercase flex flex-col items-center gap-1 hover:border-red-500 disabled:opacity-40">
+            <Ban size={16} /> Cabut
+          </button>
+          <button onClick={() => onReplace(student)} className="bg-slate-900 border border-slate-700 text-cyan-400 py-2 rounded-lg text-[10px] font-bold uppercase flex flex-col items-center gap-1 hover:border-cyan-500">
+            <Printer size={16} /> Pengganti
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CardRegistryModal;
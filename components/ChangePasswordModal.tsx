@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { X, KeyRound, Loader2, Lock } from 'lucide-react';
+import { changePassword, setPin } from '../services/authService';
+
+interface ChangePasswordModalProps {
+  staffId: string;
+  username: string;
+  onClose: () => void;
+}
+
+const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ staffId, username, onClose }) => {
+  // 'pin' = atur PIN layar kunci, tetap dikonfirmasi dengan password
+  const [mode, setMode] = useState<'password' | 'pin'>('password');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const isPin = mode === 'pin';
+
+  const changeMode = (next: 'password' | 'pin') => {
+    setMode(next);
+    setNewPassword('');
+    setConfirmPassword('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError(isPin ? 'Konfirmasi PIN tidak sama.' : 'Konfirmasi password tidak sama.');
+      return;
+    }
+    setLoading(true);
+    const result = isPin
+      ? await setPin(staffId, currentPassword, newPassword)
+      : await changePassword(staffId, currentPassword, newPassword);
+    setLoading(false);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    alert(result.message);
+    onClose();
+  };
+
+  const inputClass = "w-full p-3 bg-slate-950 border border-slate-700 rounded-xl text-slate-200 text-sm outline-none focus:border-amber-500";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/95 z-[60] backdrop-blur-sm flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-800 border border-white/10 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2"><KeyRound size={20} /> {isPin ? 'PIN KUNCI' : 'GANTI PASSWORD'}</h2>
+          <button type="button" onClick={onClose} className="p-2 text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+        <p className="text-[10px] text-slate-500 uppercase tracking-widest truncate">{username}</p>
+        <div className="flex gap-1 bg-slate-900/50 p-1 rounded-lg border border-slate-700">
+          <button type="button" onClick={() => changeMode('password')} className={`flex-1 py-1.5 rounded-md text-xs font-bold flex items-center justify-center gap-2 transition-all ${!isPin ? 'bg-amber-500/20 text-amber-400' : 'text-slate-500'}`}><KeyRound size={14} /> Password</button>
+          <button type="button" onClick={() => changeMode('pin')} className={`flex-1 py-1.5 rounded-md text-xs font-bold flex items-center justify-center gap-2 transition-all ${isPin ? 'bg-amber-500/20 text-amber-400' : 'text-slate-500'}`}><Lock size={14} /> PIN Kunci</button>
+        </div>
+        <input type="password" placeholder={isPin ? 'Password' : 'Password Lama'} value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className={inputClass} required />
+        <input type="password" inputMode={isPin ? 'numeric' : undefined} placeholder={isPin ? 'PIN Baru (4-6 angka)' : 'Password Baru'} value={newPassword} onChange={e => setNewPassword(e.target.value)} className={inputClass} required />
+        <input type="password" inputMode={isPin ? 'numeric' : undefined} placeholder={isPin ? 'Ulangi PIN Baru' : 'Ulangi Password Baru'} value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className={inputClass} required />
+        {isPin && <p className="text-[10px] text-slate-500">PIN dipakai untuk membuka layar kunci dan ganti petugas di perangkat scan. Tanpa PIN, layar kunci memakai password.</p>}
+        {error && <div className="bg-red-900/20 border border-red-500/50 text-red-200 text-xs p-3 rounded-lg text-center">{error}</div>}
+        <button type="submit" disabled={loading} className="w-full bg-amber-600 text-slate-900 py-3 rounded-xl text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <KeyRound size={14} />} {isPin ? 'Simpan PIN' : 'Simpan Password'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePasswordModal;
@@ -1,22 +1,36 @@
 import React, { useMemo, useState } from 'react';
-import { Student, AttendanceRecord } from '../types';
+import { Student, AttendanceRecord, AcademicPeriod } from '../types';
 import { format } from 'date-fns';
 import { id } from 'date-fns/locale';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
-import { Users, CheckCircle2, XCircle, Droplets, Filter, BookOpen } from 'lucide-react';
+import { Users, XCircle, Filter, BookOpen } from 'lucide-react';
+import { getActiveSession, getRecordSessionId } from '../services/sessionService';
+import { countByStatus } from '../services/statusService';
+import { getNonEffectiveReason } from '../services/calendarService';
+import { useSetting } from '../hooks/useSetting';
+import { ATTENDANCE_STATUSES, DEFAULT_PRAYER_SESSIONS, DEFAULT_SCHOOL_CALENDAR, DEFAULT_SESSION_ID, SETTING_KEYS } from '../constants';
+import SessionSelector from './SessionSelector';
+import StatusIcon from './StatusIcon';
 
 interface DashboardProps {
   students: Student[];
   records: AttendanceRecord[];
+  period: AcademicPeriod; // Semester berjalan (statistik selalu hari ini)
+  defaultClass?: string; // Kelas wali kelas yang sedang login
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ students, records }) => {
-  const [selectedClass, setSelectedClass] = useState('ALL');
+const Dashboard: React.FC<DashboardProps> = ({ students, records, period, defaultClass }) => {
+  const [selectedClass, setSelectedClass] = useState(defaultClass || 'ALL');
+  const sessions = useSetting(SETTING_KEYS.PRAYER_SESSIONS, DEFAULT_PRAYER_SESSIONS);
+  const [selectedSessionId, setSelectedSessionId] = useState(() => getActiveSession(sessions)?.id || DEFAULT_SESSION_ID);
+  const calendar = useSetting(SETTING_KEYS.SCHOOL_CALENDAR, DEFAULT_SCHOOL_CALENDAR);
 
   // --- Date Info ---
   const todayDate = new Date();
   const dateStr = format(todayDate, 'yyyy-MM-dd');
   const displayDate = format(todayDate, 'EEEE, dd MMMM yyyy', { locale: id });
+  // Hari libur/tanpa sesi tidak dihitung: persentase kehadiran tidak ditampilkan
+  const offReason = getNonEffectiveReason(calendar, todayDate, sessions.find(s => s.id === selectedSessionId));
 
   // --- Data Processing ---
   const uniqueClasses = useMemo(() => {
@@ -31,44 +45,33 @@ const Dashboard: React.FC<DashboardProps> = ({ students, records }) => {
       targetStudents = students.filter(s => s.className === selectedClass);
     }
 
-    // 2. Get Today's Records
-    const todayRecords = records.filter(r => r.date === dateStr);
+    // 2. Get Today's Records (sesi terpilih saja)
+    const todayRecords = records.filter(r => r.date === dateStr && getRecordSessionId(r) === selectedSessionId);
 
-    // 3. Calculate Stats
-    let presentCount = 0;
-    let haidCount = 0;
-
-    targetStudents.forEach(student => {
-      const record = todayRecords.find(r => r.studentId === student.id);
-      if (record) {
-        if (record.status === 'HAID') {
-          haidCount++;
-        } else {
-          presentCount++; // Default PRESENT
-        }
-      }
-    });
+    // 3. Calculate Stats (satu record per siswa per sesi)
+    const targetIds = new Set(targetStudents.map(s => s.id));
+    const classRecords = todayRecords.filter(r => targetIds.has(r.studentId));
+    const byStatus = countByStatus(classRecords);
+    const attendedCount = ATTENDANCE_STATUSES.filter(s => s.attended).reduce((sum, s) => sum + byStatus[s.id], 0);
 
     const totalStudents = targetStudents.length;
-    const absentCount = totalStudents - (presentCount + haidCount);
+    const absentCount = totalStudents - classRecords.length;
     
     // Percentage
-    const percentage = totalStudents > 0 ? Math.round(((presentCount + haidCount) / totalStudents) * 100) : 0;
+    const percentage = totalStudents > 0 ? Math.round((attendedCount / totalStudents) * 100) : 0;
 
     return {
       total: totalStudents,
-      present: presentCount,
-      haid: haidCount,
+      byStatus,
       absent: absentCount,
       percentage
     };
-  }, [students, records, selectedClass, dateStr]);
+  }, [students, records, selectedClass, selectedSessionId, dateStr]);
 
   // --- Chart Data ---
   const chartData = [
-    { name: 'Sudah Sholat', value: stats.present, color: '#4ade80' }, // Green-400
-    { name: 'Sedang Haid', value: stats.haid, color: '#ec4899' }, // Pink-500
-    { name: 'Belum Sholat', value: stats.absent, color: '#f87171' }, // Red-400
+    ...ATTENDANCE_STATUSES.map(info => ({ name: info.label, value: stats.byStatus[info.id], color: info.hex })),
+    { name: 'Belum Absen', value: stats.absent, color: '#475569' }, // Slate-600
   ];
 
   const renderCustomizedLabel = ({ cx, cy, midAngle, innerRadius, outerRadius, percent }: any) => {
@@ -101,7 +104,7 @@ const Dashboard: React.FC<DashboardProps> = ({ students, records }) => {
         
         <div className="flex flex-col md:flex-row md:items-center gap-4 border-t border-white/5 pt-4">
            <div className="bg-slate-950/50 px-3 py-1.5 rounded-lg border border-cyan-500/20 text-cyan-400 text-xs font-bold uppercase tracking-wider">
-              Tahun Pelajaran 2025/2026
+              Tahun Pelajaran {period.year.name} · Semester {period.semester.name}
            </div>
            <div className="bg-slate-950/50 px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 text-xs font-mono flex items-center gap-2">
               <CalendarIcon />
@@ -130,27 +133,36 @@ const Dashboard: React.FC<DashboardProps> = ({ students, records }) => {
       <div className="bg-slate-900/80 backdrop-blur-md border border-white/5 rounded-2xl p-6 shadow-2xl">
         
         {/* Filter */}
-        <div className="flex justify-between items-center mb-6">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6">
            <h3 className="text-lg font-bold text-slate-200 flex items-center gap-2">
               <div className="w-1 h-6 bg-amber-500 rounded-full"></div>
               Statistik Kehadiran
            </h3>
            
-           <div className="relative">
-              <select
-                value={selectedClass}
-                onChange={(e) => setSelectedClass(e.target.value)}
-                className="appearance-none bg-slate-950 border border-slate-700 text-slate-200 pl-4 pr-10 py-2 rounded-lg text-xs font-bold focus:border-amber-500 outline-none cursor-pointer hover:bg-slate-900 transition-colors"
-              >
-                <option value="ALL">SEMUA KELAS</option>
-                {uniqueClasses.map(cls => (
-                  <option key={cls} value={cls}>KELAS {cls}</option>
-                ))}
-              </select>
-              <Filter className="absolute right-3 top-2.5 text-slate-500 pointer-events-none" size={14} />
+           <div className="flex gap-2">
+             <SessionSelector sessions={sessions} value={selectedSessionId} onChange={setSelectedSessionId} />
+             <div className="relative">
+                <select
+                  value={selectedClass}
+                  onChange={(e) => setSelectedClass(e.target.value)}
+                  className="appearance-none bg-slate-950 border border-slate-700 text-slate-200 pl-4 pr-10 py-2 rounded-lg text-xs font-bold focus:border-amber-500 outline-none cursor-pointer hover:bg-slate-900 transition-colors"
+                >
+                  <option value="ALL">SEMUA KELAS</option>
+                  {uniqueClasses.map(cls => (
+                    <option key={cls} value={cls}>KELAS {cls}</option>
+                  ))}
+                </select>
+                <Filter className="absolute right-3 top-2.5 text-slate-500 pointer-events-none" size={14} />
+             </div>
            </div>
         </div>
 
+        {offReason && (
+          <div className="mb-6 text-center text-xs font-bold uppercase tracking-wider text-slate-400 bg-slate-800/60 border border-slate-700 rounded-lg px-3 py-2">
+            Hari ini bukan hari efektif: {offReason}
+          </div>
+        )}
+
         {/* Summary Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
             <StatCard 
@@ -159,23 +171,20 @@ const Dashboard: React.FC<DashboardProps> = ({ students, records }) => {
               icon={<Users size={18} />} 
               color="bg-slate-800 text-slate-200 border-slate-600" 
             />
-            <StatCard 
-              label="Sudah Sholat" 
-              value={stats.present} 
-              icon={<CheckCircle2 size={18} />} 
-              color="bg-green-900/20 text-green-400 border-green-500/30" 
-            />
-            <StatCard 
-              label="Sedang Haid" 
-              value={stats.haid} 
-              icon={<Droplets size={18} />} 
-              color="bg-pink-900/20 text-pink-400 border-pink-500/30" 
-            />
+            {ATTENDANCE_STATUSES.map(info => (
+              <StatCard 
+                key={info.id}
+                label={info.label} 
+                value={stats.byStatus[info.id]} 
+                icon={<StatusIcon status={info.id} size={18} className="" />} 
+                color={info.badgeClass} 
+              />
+            ))}
             <StatCard 
               label="Belum Absen" 
               value={stats.absent} 
               icon={<XCircle size={18} />} 
-              color="bg-red-900/20 text-red-400 border-red-500/30" 
+              color="bg-slate-800/60 text-slate-400 border-slate-600" 
             />
         </div>
 
@@ -215,8 +224,8 @@ const Dashboard: React.FC<DashboardProps> = ({ students, records }) => {
                   
                   {/* Center Text */}
                   <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none pb-8">
-                      <span className="text-3xl font-bold text-slate-200">{stats.percentage}%</span>
-                      <span className="text-[10px] uppercase text-slate-500 tracking-widest font-bold">Kehadiran</span>
+                      <span className="text-3xl font-bold text-slate-200">{offReason ? 'LIBUR' : `${stats.percentage}%`}</span>
+                      <span className="text-[10px] uppercase text-slate-500 tracking-widest font-bold">{offReason ? 'Hari Tidak Efektif' : 'Kehadiran'}</span>
                   </div>
                </>
             )}
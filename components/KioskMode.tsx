@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Lock, Loader2, KeyRound, X, CheckCircle2, AlertTriangle, XCircle, QrCode, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { Student } from '../types';
+import { addAttendanceRecordToSheet } from '../services/storageService';
+import { verifyCardScan } from '../services/cardService';
+import { verifyKioskExit } from '../services/authService';
+import { getStaffIdByName } from '../services/staffService';
+import { touchAuthSession } from '../services/authSessionService';
+import { playCue, SoundCue } from '../services/soundService';
+import { useSetting } from '../hooks/useSetting';
+import { useScanQueue, ScanOutcome } from '../hooks/useScanQueue';
+import { DEFAULT_STAFF, SETTING_KEYS } from '../constants';
+import CameraScanner from './CameraScanner';
+import ScanQueueList from './ScanQueueList';
+import StudentPhoto from './StudentPhoto';
+
+interface KioskModeProps {
+  students: Student[];
+  currentUser: string;
+  sessionName: string;
+  sessionId: string;
+  scanMethod: 'camera' | 'usb';
+  attendedCount: number; // Siswa yang sudah absen di sesi ini (dari records)
+  paused: boolean;
+  onRecordUpdate: () => void;
+  onExit: () => void;
+}
+
+interface Confirmation {
+  cue: SoundCue;
+  title: string;
+  detail: string;
+  studentId?: string; // Scan berhasil: foto siswa ditampilkan
+}
+
+const CONFIRMATION_MS = 3000;
+
+const CONFIRMATION_STYLE: Record<SoundCue, { className: string; icon: React.ReactNode }> = {
+  success: { className: 'bg-emerald-900/95 border-emerald-400 text-emerald-100', icon: <CheckCircle2 size={96} className="text-emerald-300" /> },
+  duplicate: { className: 'bg-amber-900/95 border-amber-400 text-amber-100', icon: <AlertTriangle size={96} className="text-amber-300" /> },
+  error: { className: 'bg-red-900/95 border-red-400 text-red-100', icon: <XCircle size={96} className="text-red-300" /> }
+};
+
+// Mode kiosk: tablet ditinggal di pintu masjid, siswa scan sendiri. Layar penuh tanpa navigasi,
+// keluar hanya dengan PIN/password petugas yang membuka kiosk.
+const KioskMode: React.FC<KioskModeProps> = ({ students, currentUser, sessionName, sessionId, scanMethod, attendedCount, paused, onRecordUpdate, onExit }) => {
+  const staff = useSetting(SETTING_KEYS.STAFF, DEFAULT_STAFF);
+  const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+  const scanQueue = useScanQueue();
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [now, setNow] = useState(new Date());
+  const [showExit, setShowExit] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [exitError, setExitError] = useState('');
+  const [exitLoading, setExitLoading] = useState(false);
+
+  const confirmationTimerRef = useRef<number>();
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  // Layar penuh browser bila diizinkan; navigasi aplikasi sudah tertutup overlay
+  useEffect(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    const clock = setInterval(() => setNow(new Date()), 1000);
+    return () => {
+      clearInterval(clock);
+      clearTimeout(confirmationTimerRef.current);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    if (scanMethod === 'usb' && !showExit && !paused) scanInputRef.current?.focus();
+  }, [scanMethod, showExit, paused, confirmation]);
+
+  const showConfirmation = (next: Confirmation) => {
+    playCue(next.cue);
+    setConfirmation(next);
+    clearTimeout(confirmationTimerRef.current);
+    confirmationTimerRef.current = window.setTimeout(() => setConfirmation(null), CONFIRMATION_MS);
+  };
+
+  const processScan = async (code: string): Promise<ScanOutcome> => {
+    const scan = await verifyCardScan(code, students);
+    if ('reason' in scan) {
+      showConfirmation({ cue: 'error', title: 'KARTU TIDAK DIKENAL', detail: scan.reason });
+      return { status: 'failed', message: scan.reason };
+    }
+    const result = await addAttendanceRecordToSheet(scan.student, currentUser, 'PRESENT', sessionId);
+    if (result.success) {
+      touchAuthSession();
+      onRecordUpdate();
+      showConfirmation({
+        cue: 'success',
+        studentId: scan.student.id,
+        title: scan.student.name,
+        detail: `Kelas ${scan.student.className}${result.record?.status === 'LATE' ? ' · TERLAMBAT' : ''}`
+      });
+    } else {
+      showConfirmation({
+        cue: result.duplicate ? 'duplicate' : 'error',
+        title: result.duplicate ? 'SUDAH ABSEN' : 'GAGAL',
+        detail: result.message
+      });
+    }
+    return { status: result.success ? 'done' : result.duplicate ? 'duplicate' : 'failed', message: result.message, label: scan.student.name };
+  };
+
+  const enqueueScan = (inputCode: string) => {
+    const code = inputCode.trim();
+    if (code) scanQueue.enqueue({ key: code, label: code, run: () => processScan(code) });
+  };
+
+  const handleCameraScan = (text: string) => {
+    if (!paused) enqueueScan(text);
+  };
+
+  const handleBarcodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!barcodeInput || paused) return;
+    enqueueScan(barcodeInput);
+    setBarcodeInput('');
+  };
+
+  const closeExit = () => {
+    setShowExit(false);
+    setSecret('');
+    setExitError('');
+  };
+
+  const handleExit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setExitLoading(true);
+    const result = await verifyKioskExit(getStaffIdByName(staff, currentUser), secret);
+    setExitLoading(false);
+    setSecret('');
+    if (!result.success) {
+      setExitError(result.message);
+      return;
+    }
+    onExit();
+  };
+
+  const style = confirmation ? CONFIRMATION_STYLE[confirmation.cue] : null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-950 z-[65] flex flex-col select-none">
+      <div className="flex justify-between items-center px-6 py-4 border-b border-white/10">
+        <div>
+          <p className="text-[10px] text-slate-500 uppercase tracking-widest">Absensi Mandiri</p>
+          <p className="text-xl font-bold text-amber-400 font-gaming uppercase">Sholat {sessionName}</p>
+        </div>
+        <div className="flex items-center gap-6">
+          <div className="text-right">
+            <p className="text-[10px] text-slate-500 uppercase tracking-widest flex items-center gap-1 justify-end"><Users size={12} /> Sudah Absen</p>
+            <p className="text-3xl font-bold text-cyan-400 font-mono">{attendedCount}<span className="text-base text-slate-500"> / {students.length}</span></p>
+          </div>
+          <p className="text-3xl font-mono text-slate-300">{format(now, 'HH:mm')}</p>
+          <button onClick={() => setShowExit(true)} className="p-3 rounded-full bg-slate-900 border border-slate-700 text-slate-500 hover:text-white" title="Keluar mode kiosk">
+            <Lock size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center p-6 gap-6">
+        <p className="text-2xl font-bold text-slate-200 font-gaming tracking-widest uppercase flex items-center gap-3">
+          <QrCode className="text-cyan-400" /> Tempelkan Kartu Siswa
+        </p>
+        {scanMethod === 'camera' ? (
+          <div className="w-full max-w-lg">
+            {/* Pilihan kamera tersimpan per perangkat: pilih kamera depan supaya siswa melihat kartunya */}
+            <CameraScanner onDecode={handleCameraScan} paused={paused}>
+              {scanQueue.pendingCount > 0 && <div className="absolute top-3 right-3 z-30 bg-slate-900/80 rounded-full p-2"><Loader2 className="animate-spin text-cyan-400" size={28} /></div>}
+            </CameraScanner>
+          </div>
+        ) : (
+          <form onSubmit={handleBarcodeSubmit} className="w-full max-w-lg">
+            <input
+              ref={scanInputRef}
+              type="text"
+              value={barcodeInput}
+              onChange={e => setBarcodeInput(e.target.value)}
+              onBlur={() => { if (!showExit) setTimeout(() => scanInputRef.current?.focus(), 100); }}
+              placeholder="Scan kartu di alat scanner..."
+              className="w-full px-4 py-6 bg-slate-900 border-2 border-cyan-800 rounded-2xl text-center text-2xl font-mono text-cyan-300 placeholder-slate-700 outline-none focus:border-cyan-400"
+              autoFocus
+            />
+          </form>
+        )}
+        <ScanQueueList items={scanQueue.items.slice(0, 5)} className="w-full max-w-lg" />
+      </div>
+
+      {confirmation && style && (
+        <div className={`absolute inset-x-6 top-1/2 -translate-y-1/2 mx-auto max-w-2xl border-4 rounded-3xl p-10 text-center shadow-2xl flex flex-col items-center gap-4 ${style.className}`}>
+          {confirmation.studentId
+            ? <StudentPhoto studentId={confirmation.studentId} className="w-48 h-60 rounded-2xl border-4 border-emerald-300" fallback={style.icon} />
+            : style.icon}
+          <p className="text-4xl md:text-5xl font-bold font-gaming uppercase break-words">{confirmation.title}</p>
+          <p className="text-xl md:text-2xl">{confirmation.detail}</p>
+        </div>
+      )}
+
+      {showExit && (
+        <div className="absolute inset-0 bg-slate-950/95 flex items-center justify-center p-4">
+          <form onSubmit={handleExit} className="w-full max-w-sm bg-slate-800 border border-white/10 rounded-2xl shadow-2xl p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2"><Lock size={20} /> KELUAR KIOSK</h2>
+              <button type="button" onClick={closeExit} className="p-2 text-slate-400 hover:text-white"><X size={20} /></button>
+            </div>
+            <p className="text-[10px] text-slate-500 uppercase tracking-widest truncate">PIN / password {currentUser}</p>
+            <input
+              type="password"
+              value={secret}
+              onChange={e => setSecret(e.target.value)}
+              className="w-full p-3 bg-slate-950 border border-slate-700 rounded-xl text-slate-200 text-center text-2xl tracking-[0.5em] font-mono outline-none focus:border-amber-500"
+              autoFocus
+              required
+            />
+            {exitError && <div className="bg-red-900/20 border border-red-500/50 text-red-200 text-xs p-3 rounded-lg text-center">{exitError}</div>}
+            <button type="submit" disabled={exitLoading} className="w-full bg-amber-600 text-slate-900 py-3 rounded-xl text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+              {exitLoading ? <Loader2 size={14} className="animate-spin" /> : <KeyRound size={14} />} Keluar
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KioskMode;
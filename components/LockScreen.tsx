@@ -0,0 +1,122 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Lock, KeyRound, Loader2, LogOut, UserCog, ArrowLeft } from 'lucide-react';
+import { StaffRole } from '../types';
+import { getUnlockMethod, verifyUnlock } from '../services/authService';
+import { getStaffIdByName } from '../services/staffService';
+import { useSetting } from '../hooks/useSetting';
+import { ADMIN_USERNAME, DEFAULT_STAFF, SETTING_KEYS } from '../constants';
+
+interface LockScreenProps {
+  currentUser: string;
+  locked: boolean; // false = dibuka dari tombol Ganti Petugas, boleh dibatalkan
+  onUnlock: (token?: string) => void;
+  onSwitch: (username: string, role: StaffRole, token?: string) => void;
+  onCancel: () => void;
+  onLogout: () => void;
+}
+
+// Layar kunci menutupi aplikasi tanpa melepas state di belakangnya (sesi, kelas, mode scanner)
+const LockScreen: React.FC<LockScreenProps> = ({ currentUser, locked, onUnlock, onSwitch, onCancel, onLogout }) => {
+  const staff = useSetting(SETTING_KEYS.STAFF, DEFAULT_STAFF);
+  const activeStaff = useMemo(() => staff.filter(s => s.active).sort((a, b) => a.name.localeCompare(b.name)), [staff]);
+  const [mode, setMode] = useState<'unlock' | 'switch'>(locked ? 'unlock' : 'switch');
+  const [selectedStaff, setSelectedStaff] = useState('');
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const staffId = mode === 'unlock' ? getStaffIdByName(staff, currentUser) : selectedStaff;
+  // PIN atau password ditanyakan ke server; selama belum ada jawaban tampil sebagai password
+  const [usesPin, setUsesPin] = useState(false);
+
+  useEffect(() => {
+    setUsesPin(false);
+    if (!staffId) return;
+    let cancelled = false;
+    getUnlockMethod(staffId).then(method => { if (!cancelled) setUsesPin(method === 'pin'); });
+    return () => { cancelled = true; };
+  }, [staffId]);
+
+  const changeMode = (next: 'unlock' | 'switch') => {
+    setMode(next);
+    setSecret('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!staffId) {
+      setError('Silakan pilih petugas.');
+      return;
+    }
+    setLoading(true);
+    const result = await verifyUnlock(staffId, secret);
+    setLoading(false);
+    setSecret('');
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    if (result.mustChangePassword) {
+      setError('Password sementara harus diganti. Keluar lalu login dari halaman utama.');
+      return;
+    }
+    if (mode === 'unlock') {
+      onUnlock(result.token);
+      return;
+    }
+    const member = staff.find(s => s.id === staffId);
+    onSwitch(member ? member.name : ADMIN_USERNAME, result.role!, result.token);
+  };
+
+  const inputClass = "w-full p-3 bg-slate-950 border border-slate-700 rounded-xl text-slate-200 text-sm outline-none focus:border-amber-500";
+
+  return (
+    <div className="fixed inset-0 bg-slate-950 z-[70] flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-800 border border-white/10 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="text-center space-y-2">
+          <div className="mx-auto w-14 h-14 rounded-full bg-slate-900 border border-amber-500/40 flex items-center justify-center">
+            {mode === 'unlock' ? <Lock className="text-amber-400" size={24} /> : <UserCog className="text-cyan-400" size={24} />}
+          </div>
+          <h2 className="text-lg font-bold text-amber-400 font-gaming">{mode === 'unlock' ? 'LAYAR TERKUNCI' : 'GANTI PETUGAS'}</h2>
+          {mode === 'unlock' && <p className="text-[10px] text-slate-500 uppercase tracking-widest truncate">{currentUser}</p>}
+        </div>
+
+        {mode === 'switch' && (
+          <select value={selectedStaff} onChange={e => { setSelectedStaff(e.target.value); setError(''); }} className={inputClass} required>
+            <option value="">Pilih Petugas...</option>
+            <option value={ADMIN_USERNAME}>★ ADMINISTRATOR</option>
+            {activeStaff.filter(s => s.name !== currentUser).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        )}
+
+        <input
+          type="password"
+          inputMode={usesPin ? 'numeric' : undefined}
+          placeholder={usesPin ? 'PIN' : 'Password'}
+          value={secret}
+          onChange={e => setSecret(e.target.value)}
+          className={`${inputClass} ${usesPin ? 'text-center text-2xl tracking-[0.5em] font-mono' : ''}`}
+          autoFocus
+          required
+        />
+        {error && <div className="bg-red-900/20 border border-red-500/50 text-red-200 text-xs p-3 rounded-lg text-center">{error}</div>}
+
+        <button type="submit" disabled={loading} className="w-full bg-amber-600 text-slate-900 py-3 rounded-xl text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <KeyRound size={14} />} {mode === 'unlock' ? 'Buka' : 'Masuk'}
+        </button>
+
+        <div className="flex justify-between text-[10px] font-bold uppercase">
+          {mode === 'unlock' ? (
+            <button type="button" onClick={() => changeMode('switch')} className="text-cyan-400 flex items-center gap-1.5 hover:text-cyan-300"><UserCog size={12} /> Ganti Petugas</button>
+          ) : (
+            <button type="button" onClick={() => locked ? changeMode('unlock') : onCancel()} className="text-slate-400 flex items-center gap-1.5 hover:text-white"><ArrowLeft size={12} /> {locked ? 'Kembali' : 'Batal'}</button>
+          )}
+          <button type="button" onClick={onLogout} className="text-red-400 flex items-center gap-1.5 hover:text-red-300"><LogOut size={12} /> Keluar</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
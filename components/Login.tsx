@@ -1,89 +1,126 @@
-import React, { useState, useMemo } from 'react';
-import { TEACHERS } from '../constants';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ADMIN_USERNAME, DEFAULT_STAFF, SETTING_KEYS, STAFF_ROLE_LABELS } from '../constants';
 import { Lock, User, KeyRound, ShieldCheck, ChevronRight, Briefcase, GraduationCap } from 'lucide-react';
 import { Student, UserRole } from '../types';
+import { verifyLogin, setupAdminPassword, changePassword } from '../services/authService';
+import { verifyParentCode, redeemParentLink, readParentLink, clearParentLink, ParentLoginResult } from '../services/parentAccessService';
+import { useSetting } from '../hooks/useSetting';
 
 interface LoginProps {
-  onLogin: (username: string, role: UserRole, studentData?: Student) => void;
-  students: Student[];
+  onLogin: (username: string, role: UserRole, studentData?: Student, token?: string) => void;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin, students }) => {
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [loginMode, setLoginMode] = useState<'STAFF' | 'PARENT'>('STAFF');
   
-  // STAFF STATE
+  // STAFF STATE (selectedStaff = StaffMember.id)
   const [selectedStaff, setSelectedStaff] = useState('');
+  const staff = useSetting(SETTING_KEYS.STAFF, DEFAULT_STAFF);
+  const activeStaff = useMemo(() => staff.filter(s => s.active).sort((a, b) => a.name.localeCompare(b.name)), [staff]);
   const [password, setPassword] = useState('');
+  // Dipakai saat pengaturan awal admin dan saat password sementara harus diganti
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mustChangePassword, setMustChangePassword] = useState(false);
+  // Server belum punya password Administrator: perlu kode setup dari pengelola server
+  const [isAdminSetup, setIsAdminSetup] = useState(false);
+  const [setupCode, setSetupCode] = useState('');
   
-  // PARENT STATE
-  const [selectedClass, setSelectedClass] = useState('');
-  const [selectedStudentId, setSelectedStudentId] = useState('');
+  // PARENT STATE (daftar siswa tidak dibuka sebelum login, jadi wali mengetik NIS)
+  const [studentId, setStudentId] = useState('');
+  const [accessCode, setAccessCode] = useState('');
+  // Link/QR sekali pakai dari admin (?wali=NIS&token=...)
+  const pendingLink = useRef(readParentLink());
 
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
-  // Derived data for Parent Login
-  const uniqueClasses = useMemo(() => {
-    const classes = new Set(students.map(s => s.className));
-    return Array.from(classes).sort();
-  }, [students]);
+  const selectStaff = (staffId: string) => {
+    setSelectedStaff(staffId);
+    setPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setMustChangePassword(false);
+    setIsAdminSetup(false);
+    setSetupCode('');
+    setError('');
+  };
+
+  // Server mengirim data siswa beserta token sesi wali
+  const loginAsParent = (result: ParentLoginResult) => {
+    if (!result.success || !result.student) {
+      setError(result.message);
+      setLoading(false);
+      return;
+    }
+    onLogin(`Wali ${result.student.name.split(' ')[0]}`, 'PARENT', result.student, result.token);
+  };
+
+  // Masuk otomatis lewat link (perangkat wali biasanya belum punya data apa pun)
+  useEffect(() => {
+    const link = pendingLink.current;
+    if (!link) return;
+    pendingLink.current = null;
+    clearParentLink();
+    setLoginMode('PARENT');
+    setStudentId(link.studentId);
+    setLoading(true);
+    redeemParentLink(link.studentId, link.token).then(loginAsParent);
+  }, []);
+
+  const handleStaffSubmit = async () => {
+    if (!selectedStaff) {
+      setError('Silakan pilih identitas anda.');
+      return;
+    }
+
+    if (isAdminSetup || mustChangePassword) {
+      const typed = isAdminSetup ? password : newPassword;
+      if (typed !== confirmPassword) {
+        setError('Konfirmasi password tidak sama.');
+        return;
+      }
+    }
 
-  const studentsInClass = useMemo(() => {
-    if (!selectedClass) return [];
-    return students.filter(s => s.className === selectedClass).sort((a,b) => a.name.localeCompare(b.name));
-  }, [students, selectedClass]);
+    const result = isAdminSetup
+      ? await setupAdminPassword(setupCode, password)
+      : mustChangePassword
+        ? await changePassword(selectedStaff, password, newPassword)
+        : await verifyLogin(selectedStaff, password);
 
-  const handleSubmit = (e: React.FormEvent) => {
+    if (!result.success) {
+      if (result.setupRequired) setIsAdminSetup(true);
+      setError(result.message);
+      return;
+    }
+    if (result.mustChangePassword) {
+      setMustChangePassword(true);
+      setError('Password sementara. Silakan buat password baru.');
+      return;
+    }
+    const member = staff.find(s => s.id === selectedStaff);
+    onLogin(member ? member.name : ADMIN_USERNAME, result.role!, undefined, result.token);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
-    // Simulate network delay
-    setTimeout(() => {
-      
-      if (loginMode === 'STAFF') {
-          if (!selectedStaff) {
-            setError('Silakan pilih identitas anda.');
-            setLoading(false);
-            return;
-          }
+    if (loginMode === 'STAFF') {
+      await handleStaffSubmit();
+      setLoading(false);
+      return;
+    }
 
-          // ADMIN CHECK - User "Administrator" with password "007007Rh"
-          if (selectedStaff === 'ADMINISTRATOR') {
-              if (password === '007007Rh') {
-                  onLogin('ADMINISTRATOR', 'ADMIN');
-              } else {
-                  setError('Password Admin salah!');
-                  setLoading(false);
-              }
-          } 
-          // TEACHER CHECK - Default password for teachers (simplified)
-          else {
-              if (password === 'guru123') {
-                 onLogin(selectedStaff, 'TEACHER');
-              } else {
-                 setError('Password salah! (Default: guru123)');
-                 setLoading(false);
-              }
-          }
+    // PARENT MODE
+    if (!studentId.trim()) {
+      setError('Silakan isi NIS siswa.');
+      setLoading(false);
+      return;
+    }
 
-      } else {
-          // PARENT MODE
-          if (!selectedClass || !selectedStudentId) {
-             setError('Silakan pilih kelas dan nama siswa.');
-             setLoading(false);
-             return;
-          }
-
-          const student = students.find(s => s.id === selectedStudentId);
-          if (student) {
-             onLogin(`Wali ${student.name.split(' ')[0]}`, 'PARENT', student);
-          } else {
-             setError('Data siswa tidak valid.');
-             setLoading(false);
-          }
-      }
-    }, 800);
+    loginAsParent(await verifyParentCode(studentId.trim(), accessCode));
   };
 
   return (
@@ -156,14 +193,16 @@ const Login: React.FC<LoginProps> = ({ onLogin, students }) => {
                                 <select 
                                     className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none appearance-none transition-all"
                                     value={selectedStaff}
-                                    onChange={(e) => setSelectedStaff(e.target.value)}
+                                    onChange={(e) => selectStaff(e.target.value)}
                                     required
                                 >
                                     <option value="">Pilih Nama...</option>
-                                    <option value="ADMINISTRATOR" className="font-bold text-amber-400">★ ADMINISTRATOR</option>
+                                    <option value={ADMIN_USERNAME} className="font-bold text-amber-400">★ ADMINISTRATOR</option>
                                     <optgroup label="Dewan Guru">
-                                        {TEACHERS.map((t, i) => (
-                                            <option key={i} value={t}>{t}</option>
+                                        {activeStaff.map(s => (
+                                            <option key={s.id} value={s.id}>
+                                                {s.name}{s.role !== 'TEACHER' ? ` (${STAFF_ROLE_LABELS[s.role]}${s.role === 'HOMEROOM' && s.classes[0] ? ` ${s.classes[0]}` : ''})` : ''}
+                                            </option>
                                         ))}
                                     </optgroup>
                                 </select>
@@ -172,7 +211,9 @@ const Login: React.FC<LoginProps> = ({ onLogin, students }) => {
                         </div>
 
                         <div className="space-y-2">
-                            <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Password</label>
+                            <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">
+                                {isAdminSetup ? 'Buat Password Admin' : mustChangePassword ? 'Password Sementara' : 'Password'}
+                            </label>
                             <div className="relative group">
                                 <KeyRound className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-amber-500 transition-colors" size={18} />
                                 <input 
@@ -181,10 +222,66 @@ const Login: React.FC<LoginProps> = ({ onLogin, students }) => {
                                     placeholder="Masukkan Password"
                                     value={password}
                                     onChange={(e) => setPassword(e.target.value)}
+                                    disabled={mustChangePassword}
                                     required
                                 />
                             </div>
+                            {isAdminSetup && (
+                                <p className="text-[10px] text-slate-500 ml-1">Belum ada password Administrator. Password yang dibuat di sini berlaku untuk semua perangkat.</p>
+                            )}
                         </div>
+
+                        {isAdminSetup && (
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Kode Setup</label>
+                                <div className="relative group">
+                                    <ShieldCheck className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-amber-500 transition-colors" size={18} />
+                                    <input 
+                                        type="password" 
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none transition-all placeholder-slate-700"
+                                        placeholder="Dari pengelola server"
+                                        value={setupCode}
+                                        onChange={(e) => setSetupCode(e.target.value)}
+                                        autoComplete="off"
+                                        required
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {mustChangePassword && (
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Password Baru</label>
+                                <div className="relative group">
+                                    <KeyRound className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-amber-500 transition-colors" size={18} />
+                                    <input 
+                                        type="password" 
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none transition-all placeholder-slate-700"
+                                        placeholder="Password Baru"
+                                        value={newPassword}
+                                        onChange={(e) => setNewPassword(e.target.value)}
+                                        required
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {(isAdminSetup || mustChangePassword) && (
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Ulangi Password</label>
+                                <div className="relative group">
+                                    <KeyRound className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-amber-500 transition-colors" size={18} />
+                                    <input 
+                                        type="password" 
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none transition-all placeholder-slate-700"
+                                        placeholder="Ketik Ulang Password"
+                                        value={confirmPassword}
+                                        onChange={(e) => setConfirmPassword(e.target.value)}
+                                        required
+                                    />
+                                </div>
+                            </div>
+                        )}
                      </div>
                  )}
 
@@ -192,44 +289,35 @@ const Login: React.FC<LoginProps> = ({ onLogin, students }) => {
                  {loginMode === 'PARENT' && (
                      <div className="space-y-4 animate-fade-in">
                         <div className="space-y-2">
-                            <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Pilih Kelas</label>
+                            <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">NIS Siswa</label>
                             <div className="relative group">
-                                <ShieldCheck className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-cyan-500 transition-colors" size={18} />
-                                <select 
-                                    className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none appearance-none transition-all"
-                                    value={selectedClass}
-                                    onChange={(e) => {
-                                        setSelectedClass(e.target.value);
-                                        setSelectedStudentId('');
-                                    }}
+                                <User className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-cyan-500 transition-colors" size={18} />
+                                <input 
+                                    type="text" 
+                                    inputMode="numeric"
+                                    className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none transition-all placeholder-slate-700 font-mono tracking-widest"
+                                    placeholder="NIS di kartu siswa"
+                                    value={studentId}
+                                    onChange={(e) => setStudentId(e.target.value)}
+                                    autoComplete="off"
                                     required
-                                >
-                                    <option value="">Pilih Kelas...</option>
-                                    {uniqueClasses.map(cls => (
-                                        <option key={cls} value={cls}>{cls}</option>
-                                    ))}
-                                </select>
-                                <ChevronRight className="absolute right-4 top-3.5 text-slate-600 pointer-events-none" size={16} />
+                                />
                             </div>
                         </div>
 
                         <div className="space-y-2">
-                            <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Nama Siswa</label>
+                            <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Kode Akses Wali</label>
                             <div className="relative group">
-                                <User className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-cyan-500 transition-colors" size={18} />
-                                <select 
-                                    className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none appearance-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                                    value={selectedStudentId}
-                                    onChange={(e) => setSelectedStudentId(e.target.value)}
-                                    disabled={!selectedClass}
+                                <KeyRound className="absolute left-4 top-3.5 text-slate-500 group-focus-within:text-cyan-500 transition-colors" size={18} />
+                                <input 
+                                    type="text" 
+                                    className="w-full bg-slate-950 border border-slate-700 text-slate-200 pl-12 pr-4 py-3 rounded-xl focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none transition-all placeholder-slate-700 font-mono uppercase tracking-widest"
+                                    placeholder="Kode dari sekolah"
+                                    value={accessCode}
+                                    onChange={(e) => setAccessCode(e.target.value)}
+                                    autoComplete="off"
                                     required
-                                >
-                                    <option value="">{selectedClass ? 'Pilih Nama Siswa...' : 'Pilih Kelas Terlebih Dahulu'}</option>
-                                    {studentsInClass.map(s => (
-                                        <option key={s.id} value={s.id}>{s.name}</option>
-                                    ))}
-                                </select>
-                                <ChevronRight className="absolute right-4 top-3.5 text-slate-600 pointer-events-none" size={16} />
+                                />
                             </div>
                         </div>
                      </div>
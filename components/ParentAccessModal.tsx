@@ -0,0 +1,135 @@
+import React, { useState, useRef, useEffect } from 'react';
+import QRCode from 'react-qr-code';
+import { X, KeyRound, Loader2, Printer, Copy, Send } from 'lucide-react';
+import { Student } from '../types';
+import { generateParentAccess, getParentAccessStatus } from '../services/parentAccessService';
+
+interface ParentAccessModalProps {
+  student: Student;
+  canBroadcast: boolean;
+  onClose: () => void;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const ParentAccessModal: React.FC<ParentAccessModalProps> = ({ student, canBroadcast, onClose }) => {
+  // Status dari server; undefined = belum dimuat / server tidak bisa dihubungi
+  const [existing, setExisting] = useState<boolean | undefined>();
+  const [statusError, setStatusError] = useState('');
+  // Kode dan link hanya ada di memori selama modal terbuka; yang tersimpan hanya hash-nya
+  const [issued, setIssued] = useState<{ code: string; link: string } | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const qrRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    getParentAccessStatus(student.id).then(result => {
+      if (result.success) setExisting(result.exists);
+      else setStatusError(result.message);
+    });
+  }, [student.id]);
+
+  const handleGenerate = async () => {
+    if (existing !== false && !confirm('Buat kode baru? Kode dan link lama untuk siswa ini tidak bisa dipakai lagi.')) return;
+    setIsGenerating(true);
+    const result = await generateParentAccess(student.id);
+    setIsGenerating(false);
+    if (!result.code || !result.link) {
+      alert(result.message);
+      return;
+    }
+    setIssued({ code: result.code, link: result.link });
+    setExisting(true);
+  };
+
+  const handleCopy = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.link);
+      alert('Link disalin.');
+    } catch (e) {
+      prompt('Salin link berikut:', issued.link);
+    }
+  };
+
+  const handleSendWhatsapp = () => {
+    if (!issued || !student.parentPhone) return;
+    let phone = student.parentPhone.replace(/\D/g, '');
+    if (phone.startsWith('08')) phone = '62' + phone.substring(1);
+    const text = `Assalamualaikum. Berikut akses laporan sholat ananda *${student.name}* (Kelas ${student.className}). Kode akses: *${issued.code}*. Atau buka link berikut (hanya bisa dipakai sekali): ${issued.link}`;
+    window.open(`https://wa.me/${phone}?text=${encodeURIComponent(text)}`, '_blank');
+  };
+
+  // Slip dicetak di jendela terpisah supaya halaman aplikasi di belakang modal tidak ikut tercetak
+  const handlePrint = () => {
+    if (!issued) return;
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(`<html><head><title>Kode Akses Wali ${escapeHtml(student.name)}</title></head>
+      <body style="font-family:sans-serif;text-align:center;padding:24px">
+        <h3>AKSES WALI MURID - SMPN 3 PACET</h3>
+        <p><b>${escapeHtml(student.name)}</b><br/>Kelas ${escapeHtml(student.className)} &middot; NIS ${escapeHtml(student.id)}</p>
+        <div>${qrRef.current?.innerHTML || ''}</div>
+        <p>Kode akses: <b style="font-size:24px;letter-spacing:4px">${issued.code}</b></p>
+        <p style="font-size:11px">Pindai QR untuk masuk sekali tanpa kode. Selanjutnya pilih menu Wali Murid lalu masukkan kode akses.</p>
+      </body></html>`);
+    win.document.close();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/95 z-[60] backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-slate-800 border border-white/10 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2"><KeyRound size={20} /> AKSES WALI</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+        <div>
+          <p className="font-bold text-slate-200">{student.name}</p>
+          <p className="text-[10px] text-slate-500 uppercase tracking-widest">Kelas {student.className} · NIS {student.id}</p>
+        </div>
+
+        {issued ? (
+          <div className="space-y-4 text-center">
+            <div ref={qrRef} className="bg-white p-3 rounded-xl inline-block">
+              <QRCode value={issued.link} size={160} />
+            </div>
+            <div>
+              <p className="text-[10px] text-slate-500 uppercase">Kode Akses</p>
+              <p className="text-3xl font-mono font-bold text-amber-400 tracking-[0.3em] select-all">{issued.code}</p>
+            </div>
+            <p className="text-[10px] text-slate-500">Kode hanya ditampilkan sekali. QR/link hanya bisa dipakai satu kali.</p>
+            <div className={`grid gap-2 ${canBroadcast ? 'grid-cols-3' : 'grid-cols-2'}`}>
+              <button onClick={handlePrint} className="bg-slate-900 border border-slate-700 text-slate-300 py-2 rounded-lg text-[10px] font-bold uppercase flex flex-col items-center gap-1 hover:border-amber-500">
+                <Printer size={16} /> Cetak
+              </button>
+              <button onClick={handleCopy} className="bg-slate-900 border border-slate-700 text-slate-300 py-2 rounded-lg text-[10px] font-bold uppercase flex flex-col items-center gap-1 hover:border-cyan-500">
+                <Copy size={16} /> Salin Link
+              </button>
+              {canBroadcast && (
+                <button onClick={handleSendWhatsapp} disabled={!student.parentPhone} title={student.parentPhone ? '' : 'Nomor WA wali belum diisi'} className="bg-slate-900 border border-slate-700 text-green-400 py-2 rounded-lg text-[10px] font-bold uppercase flex flex-col items-center gap-1 hover:border-green-500 disabled:opacity-40">
+                  <Send size={16} /> Kirim WA
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400">
+            {existing === undefined
+              ? statusError || 'Memeriksa kode akses di server...'
+              : existing
+                ? 'Kode akses sudah dibuat. Kode tidak bisa ditampilkan lagi; buat ulang bila wali lupa atau kode bocor.'
+                : 'Belum ada kode akses. Wali murid tidak bisa melihat laporan sebelum kode dibuat.'}
+          </p>
+        )}
+
+        <button onClick={handleGenerate} disabled={isGenerating} className="w-full bg-amber-600 text-slate-900 py-3 rounded-xl text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+          {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <KeyRound size={14} />}
+          {existing || issued ? 'Buat Ulang Kode' : 'Buat Kode Akses'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ParentAccessModal;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { GraduationCap } from 'lucide-react';
+import { AcademicYear } from '../types';
+
+interface PeriodSelectorProps {
+  years: AcademicYear[];
+  value: string;
+  onChange: (semesterId: string) => void;
+  className?: string;
+}
+
+const PeriodSelector: React.FC<PeriodSelectorProps> = ({ years, value, onChange, className = '' }) => (
+  <div className={`relative ${className}`}>
+    <GraduationCap className="absolute left-2 top-1.5 text-amber-400 pointer-events-none" size={12} />
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      title="Periode laporan"
+      className="appearance-none bg-amber-950/30 border border-amber-500/30 text-amber-400 pl-6 pr-2 py-1 rounded text-[10px] font-bold tracking-widest uppercase outline-none cursor-pointer hover:bg-amber-500/20 transition-all"
+    >
+      {years.map(year => (
+        <optgroup key={year.id} label={`TP ${year.name}`}>
+          {year.semesters.map(semester => (
+            <option key={semester.id} value={semester.id}>
+              {year.name} {semester.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  </div>
+);
+
+export default PeriodSelector;
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Save, ShieldCheck, Lock } from 'lucide-react';
+import { Permission, PermissionMatrix, UserRole } from '../types';
+import { hasPermission, isPermissionLocked, savePermissions } from '../services/permissionService';
+import { useSetting } from '../hooks/useSetting';
+import { DEFAULT_PERMISSIONS, PERMISSIONS, SETTING_KEYS, USER_ROLE_LABELS } from '../constants';
+
+const ROLES = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+const PermissionSettings: React.FC = () => {
+  const savedMatrix = useSetting(SETTING_KEYS.PERMISSIONS, DEFAULT_PERMISSIONS);
+  const [matrix, setMatrix] = useState<PermissionMatrix>(savedMatrix);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (!isDirty) setMatrix(savedMatrix);
+  }, [savedMatrix, isDirty]);
+
+  const toggle = (role: UserRole, permission: Permission) => {
+    const current = matrix[role] || [];
+    setMatrix({
+      ...matrix,
+      [role]: current.includes(permission) ? current.filter(p => p !== permission) : [...current, permission]
+    });
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    savePermissions(matrix);
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <ShieldCheck className="text-cyan-400" /> HAK AKSES
+        </h3>
+        <button onClick={handleSave} disabled={!isDirty} className="bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+          <Save size={14} /> Simpan
+        </button>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-700">
+        <table className="w-full text-left">
+          <thead className="bg-slate-950 text-slate-400 text-[10px] uppercase font-bold">
+            <tr>
+              <th className="p-3">Izin</th>
+              {ROLES.map(role => <th key={role} className="p-3 text-center">{USER_ROLE_LABELS[role]}</th>)}
+            </tr>
+          </thead>
+          <tbody className="text-xs">
+            {PERMISSIONS.map(info => (
+              <tr key={info.id} className="border-b border-slate-800/50">
+                <td className="p-3 text-slate-300">{info.label}</td>
+                {ROLES.map(role => (
+                  <td key={role} className="p-3 text-center">
+                    {isPermissionLocked(role, info.id) ? (
+                      <span title="Tidak bisa diubah" className="inline-flex items-center gap-1 text-slate-600">
+                        <Lock size={12} /> {hasPermission(matrix, role, info.id) ? 'Ya' : '-'}
+                      </span>
+                    ) : (
+                      <input type="checkbox" checked={(matrix[role] || []).includes(info.id)} onChange={() => toggle(role, info.id)} />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-slate-500">Wali murid hanya bisa melihat data anaknya sendiri. Arsip semester lama tetap tidak bisa diubah oleh siapa pun.</p>
+    </div>
+  );
+};
+
+export default PermissionSettings;
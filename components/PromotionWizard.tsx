@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { X, ArrowRight, GraduationCap, Loader2, CheckCircle2, ChevronLeft } from 'lucide-react';
+import { format } from 'date-fns';
+import { Student, ClassMapping } from '../types';
+import { isActiveStudent, suggestClassMapping, buildPromotionPlan, applyPromotionPlan } from '../services/promotionService';
+
+interface PromotionWizardProps {
+  students: Student[];
+  onApply: (updatedStudents: Student[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const PromotionWizard: React.FC<PromotionWizardProps> = ({ students, onApply, onClose }) => {
+  const [step, setStep] = useState<'mapping' | 'preview' | 'done'>('mapping');
+  const [isApplying, setIsApplying] = useState(false);
+  // Ringkasan disimpan saat diterapkan; setelah itu daftar siswa sudah berubah
+  const [summary, setSummary] = useState({ promoted: 0, graduated: 0 });
+
+  const classCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    students.filter(isActiveStudent).forEach(s => { counts[s.className] = (counts[s.className] || 0) + 1; });
+    return counts;
+  }, [students]);
+  const classNames = useMemo(() => Object.keys(classCounts).sort(), [classCounts]);
+
+  const [mapping, setMapping] = useState<ClassMapping>(() => suggestClassMapping(classNames));
+  const [heldBackIds, setHeldBackIds] = useState<Set<string>>(new Set());
+  const [graduationDate, setGraduationDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const plan = useMemo(() => buildPromotionPlan(students, mapping, heldBackIds), [students, mapping, heldBackIds]);
+  const promotedCount = plan.filter(c => c.to !== null).length;
+  const graduatedCount = plan.length - promotedCount;
+
+  // Siswa yang akan berubah + yang ditahan, supaya centang tinggal kelas bisa dibatalkan
+  const previewStudents = useMemo(
+    () => students.filter(s => isActiveStudent(s) && mapping[s.className] !== s.className),
+    [students, mapping]
+  );
+
+  const setTarget = (className: string, target: string | null) => {
+    setMapping({ ...mapping, [className]: target });
+  };
+
+  const toggleHeldBack = (id: string) => {
+    const next = new Set(heldBackIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setHeldBackIds(next);
+  };
+
+  const handleApply = async () => {
+    if (!confirm(`Terapkan kenaikan kelas untuk ${promotedCount} siswa dan kelulusan ${graduatedCount} siswa?`)) return;
+    setIsApplying(true);
+    setSummary({ promoted: promotedCount, graduated: graduatedCount });
+    await onApply(applyPromotionPlan(students, plan, graduationDate));
+    setIsApplying(false);
+    setStep('done');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/95 z-[60] overflow-y-auto backdrop-blur-sm flex flex-col items-center">
+      <div className="sticky top-0 w-full bg-slate-800 shadow-xl border-b border-white/10 p-4 flex justify-between items-center z-50">
+        <div>
+          <h2 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2"><GraduationCap size={20} /> KENAIKAN KELAS & KELULUSAN</h2>
+          <p className="text-[10px] text-slate-500 uppercase tracking-widest">
+            {step === 'mapping' ? 'Langkah 1: Pemetaan Kelas' : step === 'preview' ? 'Langkah 2: Pratinjau' : 'Selesai'}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-white"><X size={22} /></button>
+      </div>
+
+      <div className="w-full max-w-3xl p-4 space-y-4">
+        {step === 'mapping' && (
+          <>
+            <div className="bg-slate-800/40 border border-slate-700 rounded-xl divide-y divide-slate-800">
+              {classNames.map(className => (
+                <div key={className} className="flex items-center gap-3 p-3">
+                  <span className="w-24 font-bold text-cyan-400 font-mono">{className}</span>
+                  <span className="w-16 text-[10px] text-slate-500">{classCounts[className]} siswa</span>
+                  <ArrowRight size={14} className="text-slate-600" />
+                  {mapping[className] === null ? (
+                    <span className="flex-1 text-xs font-bold text-amber-400 uppercase">Lulus</span>
+                  ) : (
+                    <input
+                      type="text"
+                      value={mapping[className] ?? ''}
+                      onChange={e => setTarget(className, e.target.value.toUpperCase())}
+                      className="flex-1 p-2 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm font-mono outline-none focus:border-amber-500"
+                    />
+                  )}
+                  <button
+                    onClick={() => setTarget(className, mapping[className] === null ? className : null)}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase border transition-all ${mapping[className] === null ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-slate-900 text-slate-500 border-slate-700'}`}
+                  >
+                    Lulus
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-end gap-3">
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-cyan-400 uppercase">Tanggal Kelulusan</label>
+                <input type="date" value={graduationDate} onChange={e => setGraduationDate(e.target.value)} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+              </div>
+              <button
+                onClick={() => setStep('preview')}
+                disabled={classNames.some(c => mapping[c] !== null && !mapping[c]?.trim())}
+                className="ml-auto bg-amber-600 text-slate-900 px-5 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40"
+              >
+                Pratinjau <ArrowRight size={14} />
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex gap-3 text-xs text-slate-400">
+              <span>Naik kelas: <b className="text-cyan-400">{promotedCount}</b></span>
+              <span>Lulus: <b className="text-amber-400">{graduatedCount}</b></span>
+              <span>Tinggal kelas: <b className="text-red-400">{heldBackIds.size}</b></span>
+            </div>
+            <p className="text-[10px] text-slate-500">Centang siswa yang tinggal kelas. Riwayat absensi tetap memakai kelas lama.</p>
+            <div className="overflow-x-auto rounded-xl border border-slate-700 max-h-[60vh]">
+              <table className="w-full text-left">
+                <thead className="bg-slate-950 text-slate-400 text-[10px] uppercase font-bold sticky top-0">
+                  <tr>
+                    <th className="p-3 text-center">Tinggal</th>
+                    <th className="p-3">Nama</th>
+                    <th className="p-3 text-center">Kelas Lama</th>
+                    <th className="p-3 text-center">Kelas Baru</th>
+                  </tr>
+                </thead>
+                <tbody className="text-xs font-mono">
+                  {previewStudents.map(s => {
+                    const heldBack = heldBackIds.has(s.id);
+                    const target = mapping[s.className];
+                    return (
+                      <tr key={s.id} className={`border-b border-slate-800/50 ${heldBack ? 'bg-red-900/10' : ''}`}>
+                        <td className="p-3 text-center"><input type="checkbox" checked={heldBack} onChange={() => toggleHeldBack(s.id)} /></td>
+                        <td className="p-3">{s.name}</td>
+                        <td className="p-3 text-center text-slate-500">{s.className}</td>
+                        <td className={`p-3 text-center font-bold ${heldBack ? 'text-slate-500' : target === null ? 'text-amber-400' : 'text-cyan-400'}`}>
+                          {heldBack ? s.className : target === null ? 'LULUS' : target}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => setStep('mapping')} className="bg-slate-800 text-slate-300 px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2">
+                <ChevronLeft size={14} /> Kembali
+              </button>
+              <button onClick={handleApply} disabled={isApplying || plan.length === 0} className="ml-auto bg-amber-600 text-slate-900 px-5 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+                {isApplying ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />} Terapkan ({plan.length})
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'done' && (
+          <div className="text-center py-12 space-y-3">
+            <CheckCircle2 size={48} className="mx-auto text-green-400" />
+            <p className="font-bold text-slate-200">{summary.promoted} siswa naik kelas, {summary.graduated} siswa lulus.</p>
+            <button onClick={onClose} className="bg-slate-800 text-slate-300 px-5 py-2.5 rounded-lg text-xs font-bold">Tutup</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromotionWizard;
@@ -1,54 +1,118 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { AttendanceRecord, ReportPeriod, Student } from '../types';
+import { AttendanceRecord, AttendanceStatus, ReportPeriod, Student, DateRange, AcademicPeriod } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend } from 'recharts';
-import { Calendar, Crown, Medal, TrendingUp, CheckCircle2, List, FileText, FileSpreadsheet, Loader2, UserCircle, XCircle, Filter, Check, X, PieChart as PieIcon, Eye, ChevronRight, Download, ArrowLeft, Droplets, Phone, Send, AlertCircle, Trash2, Edit } from 'lucide-react';
+import { Calendar, Crown, Medal, TrendingUp, CheckCircle2, List, FileText, FileSpreadsheet, Loader2, UserCircle, XCircle, Filter, Check, X, PieChart as PieIcon, Eye, ChevronRight, Download, ArrowLeft, Phone, Send, AlertCircle, Trash2 } from 'lucide-react';
 import { format, subDays, startOfMonth, eachDayOfInterval, endOfMonth, parseISO, isSameDay, isAfter, getDay } from 'date-fns';
 import { id } from 'date-fns/locale';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import * as XLSX from 'xlsx';
 import { deleteAttendanceRecord, updateAttendanceStatus } from '../services/storageService';
+import { getActiveSession, getRecordSessionId } from '../services/sessionService';
+import { countByStatus, getAttendancePercentage, getRecordScore, getRecordStatus, getStatusInfo } from '../services/statusService';
+import { getEffectiveDates, getNonEffectiveReason } from '../services/calendarService';
+import { clampDateToPeriod, getPeriodRange, isDateInPeriod } from '../services/academicService';
+import { wasEnrolledOn } from '../services/promotionService';
+import { useSetting } from '../hooks/useSetting';
+import { PermissionCheck } from '../hooks/usePermission';
+import { ATTENDANCE_STATUSES, DEFAULT_PRAYER_SESSIONS, DEFAULT_SCHOOL_CALENDAR, DEFAULT_SESSION_ID, SETTING_KEYS } from '../constants';
+import SessionSelector from './SessionSelector';
+import StatusIcon from './StatusIcon';
 
 interface ReportsProps {
   records: AttendanceRecord[];
   students: Student[];
   onRecordUpdate: () => void;
+  onRangeChange: (range: DateRange) => void;
   viewOnlyStudent?: Student | null;
+  academicPeriod: AcademicPeriod;
+  defaultClass?: string; // Kelas wali kelas yang sedang login
+  currentUser: string; // Dicatat di jejak audit saat mengubah/menghapus record
+  can: PermissionCheck;
 }
 
-const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, viewOnlyStudent }) => {
+const Reports: React.FC<ReportsProps> = ({ records, students: allStudents, onRecordUpdate, onRangeChange, viewOnlyStudent, academicPeriod, defaultClass, currentUser, can }) => {
   const [period, setPeriod] = useState<ReportPeriod>(ReportPeriod.DAILY);
   const [isExporting, setIsExporting] = useState(false);
   const reportRef = useRef<HTMLDivElement>(null);
   const studentDetailRef = useRef<HTMLDivElement>(null);
 
-  const [dailyFilter, setDailyFilter] = useState<'ALL' | 'PRESENT' | 'ABSENT' | 'HAID'>('ALL');
-  const [dailyClassFilter, setDailyClassFilter] = useState('ALL');
+  const [dailyFilter, setDailyFilter] = useState<'ALL' | 'ABSENT' | AttendanceStatus>('ALL');
+  const [dailyClassFilter, setDailyClassFilter] = useState(defaultClass || 'ALL');
   const [broadcastProgress, setBroadcastProgress] = useState<{ current: number, total: number, status: string } | null>(null);
 
-  const [startDate, setStartDate] = useState(format(subDays(new Date(), 6), 'yyyy-MM-dd'));
-  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
-  const [selectedClass, setSelectedClass] = useState('ALL');
+  // Laporan harian periode arsip menampilkan hari terakhir semester
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const reportDate = clampDateToPeriod(academicPeriod, today);
+  const { start: periodStart, end: periodEnd } = getPeriodRange(academicPeriod);
+  // Arsip semester lama selalu hanya-baca; selebihnya mengikuti matriks izin peran
+  const isEditable = !viewOnlyStudent && !academicPeriod.readOnly;
+  const canEditStatus = isEditable && can('EDIT_STATUS');
+  const canDelete = isEditable && can('DELETE_RECORD');
+  const [startDate, setStartDate] = useState(() => clampDateToPeriod(academicPeriod, format(subDays(new Date(), 6), 'yyyy-MM-dd')));
+  const [endDate, setEndDate] = useState(reportDate);
+  const [selectedClass, setSelectedClass] = useState(defaultClass || 'ALL');
 
-  const [historyMonth, setHistoryMonth] = useState(format(new Date(), 'yyyy-MM'));
-  const [historyFilterClass, setHistoryFilterClass] = useState('ALL');
+  const [historyMonth, setHistoryMonth] = useState(reportDate.slice(0, 7));
+  const [historyFilterClass, setHistoryFilterClass] = useState(defaultClass || 'ALL');
   const [selectedStudentDetail, setSelectedStudentDetail] = useState<Student | null>(null);
 
+  const sessions = useSetting(SETTING_KEYS.PRAYER_SESSIONS, DEFAULT_PRAYER_SESSIONS);
+  const [selectedSessionId, setSelectedSessionId] = useState(() => getActiveSession(sessions)?.id || DEFAULT_SESSION_ID);
+  const selectedSession = sessions.find(s => s.id === selectedSessionId);
+  const calendar = useSetting(SETTING_KEYS.SCHOOL_CALENDAR, DEFAULT_SCHOOL_CALENDAR);
+  const todayOffReason = getNonEffectiveReason(calendar, reportDate, selectedSession);
+
+  // Semua tampilan laporan dihitung per sesi sholat dan dibatasi ke semester terpilih
+  const sessionRecords = useMemo(
+    () => records.filter(r => getRecordSessionId(r) === selectedSessionId && isDateInPeriod(academicPeriod, r.date)),
+    [records, selectedSessionId, academicPeriod]
+  );
+
+  // Alumni tetap muncul di laporan semester sebelum mereka lulus. Di semester arsip kelas
+  // diambil dari record absensi, bukan kelas siswa saat ini setelah kenaikan kelas.
+  const students = useMemo(() => {
+    const enrolled = allStudents.filter(s => wasEnrolledOn(s, periodStart));
+    if (!academicPeriod.readOnly) return enrolled;
+    const recordedClass = new Map(sessionRecords.map(r => [r.studentId, r.className]));
+    return enrolled.map(s => recordedClass.has(s.id) ? { ...s, className: recordedClass.get(s.id)! } : s);
+  }, [allStudents, periodStart, academicPeriod.readOnly, sessionRecords]);
+
+  // Ganti semester: filter tanggal kembali ke minggu/bulan terakhir di semester tersebut
+  useEffect(() => {
+    setStartDate(clampDateToPeriod(academicPeriod, format(subDays(parseISO(reportDate), 6), 'yyyy-MM-dd')));
+    setEndDate(reportDate);
+    setHistoryMonth(reportDate.slice(0, 7));
+  }, [academicPeriod.semester.id]);
+
   useEffect(() => {
     if (viewOnlyStudent) setSelectedStudentDetail(viewOnlyStudent);
   }, [viewOnlyStudent, period]);
 
+  // Minta App memuat hanya jendela tanggal yang dibutuhkan periode aktif
+  useEffect(() => {
+    if (period === ReportPeriod.DAILY) onRangeChange({ start: reportDate, end: reportDate });
+    else if (period === ReportPeriod.WEEKLY) onRangeChange({ start: startDate, end: endDate });
+    else if (period === ReportPeriod.MONTHLY) onRangeChange({ start: `${historyMonth}-01`, end: format(endOfMonth(parseISO(`${historyMonth}-01`)), 'yyyy-MM-dd') });
+    else onRangeChange({ start: periodStart, end: periodEnd });
+  }, [period, startDate, endDate, historyMonth, onRangeChange, reportDate, periodStart, periodEnd]);
+
   const handleDelete = async (recordId: string) => {
+    if (!canDelete) return;
     if (confirm('Hapus record ini selamanya?')) {
-      await deleteAttendanceRecord(recordId);
+      await deleteAttendanceRecord(recordId, currentUser);
       onRecordUpdate();
     }
   };
 
-  const handleToggleStatus = async (recordId: string, currentStatus: string) => {
-    const newStatus = currentStatus === 'PRESENT' ? 'HAID' : 'PRESENT';
-    await updateAttendanceStatus(recordId, newStatus);
+  const handleChangeStatus = async (recordId: string, newStatus: AttendanceStatus, currentNote?: string) => {
+    if (!canEditStatus) return;
+    // Keterangan hanya ditanyakan untuk status yang mendukungnya; Batal = keterangan lama tetap
+    const note = getStatusInfo(newStatus).allowsNote
+      ? prompt(`Keterangan ${getStatusInfo(newStatus).label} (opsional):`, currentNote || '') ?? undefined
+      : '';
+    await updateAttendanceStatus(recordId, newStatus, currentUser, note);
     onRecordUpdate();
   };
 
@@ -58,33 +122,30 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
   }, [students]);
 
   const dailyMasterList = useMemo(() => {
-    const today = format(new Date(), 'yyyy-MM-dd');
-    const todayRecords = records.filter(r => r.date === today);
+    const todayRecords = sessionRecords.filter(r => r.date === reportDate);
     const targetStudents = viewOnlyStudent ? [viewOnlyStudent] : students;
 
     return targetStudents.map(student => {
         const record = todayRecords.find(r => r.studentId === student.id);
-        const statusRaw = record?.status || 'ABSENT'; 
+        const statusRaw: AttendanceStatus | 'ABSENT' = record ? getRecordStatus(record) : 'ABSENT';
         return {
             ...student,
             recordId: record?.id,
             isPresent: !!record,
-            isHaid: statusRaw === 'HAID',
             statusRaw: statusRaw,
+            note: record?.note,
             time: record ? format(record.timestamp, 'HH:mm') : '-',
             operator: record?.operatorName || '-',
-            statusLabel: record ? (statusRaw === 'HAID' ? 'Sedang Haid' : 'Hadir') : 'Tidak Hadir'
+            statusLabel: record ? getStatusInfo(getRecordStatus(record)).label : 'Belum Absen'
         };
     }).sort((a, b) => a.className.localeCompare(b.className) || a.name.localeCompare(b.name));
-  }, [records, students, viewOnlyStudent]);
+  }, [sessionRecords, students, viewOnlyStudent, reportDate]);
 
   const filteredDailyList = useMemo(() => {
     let list = dailyMasterList;
     if (dailyClassFilter !== 'ALL' && !viewOnlyStudent) list = list.filter(s => s.className === dailyClassFilter);
     if (dailyFilter === 'ALL') return list;
-    if (dailyFilter === 'PRESENT') return list.filter(s => s.statusRaw === 'PRESENT');
-    if (dailyFilter === 'HAID') return list.filter(s => s.statusRaw === 'HAID');
-    return list.filter(s => s.statusRaw === 'ABSENT');
+    return list.filter(s => s.statusRaw === dailyFilter);
   }, [dailyMasterList, dailyFilter, dailyClassFilter, viewOnlyStudent]);
 
   const weeklyMatrixData = useMemo(() => {
@@ -93,51 +154,68 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
     let daysInRange = eachDayOfInterval({ start, end });
     let targetStudents = viewOnlyStudent ? [viewOnlyStudent] : students;
     if (!viewOnlyStudent && selectedClass !== 'ALL') targetStudents = targetStudents.filter(s => s.className === selectedClass);
+    // Libur, hari tanpa sesi dan hari non-sekolah tidak dihitung sebagai absen
+    const offReasons = daysInRange.map(day => getNonEffectiveReason(calendar, day, selectedSession));
+    const effectiveDays = offReasons.filter(reason => reason === null).length;
 
     return {
         daysInRange,
+        offReasons,
+        effectiveDays,
         matrix: targetStudents.map(student => {
-            let presentCount = 0;
-            let haidCount = 0;
-            const attendanceMap = daysInRange.map(day => {
+            const studentRecords: AttendanceRecord[] = [];
+            const effectiveRecords: AttendanceRecord[] = [];
+            const attendanceMap = daysInRange.map((day, i) => {
                 const dateStr = format(day, 'yyyy-MM-dd');
-                const record = records.find(r => r.studentId === student.id && r.date === dateStr);
-                if (record) {
-                    if (record.status === 'HAID') haidCount++;
-                    else presentCount++;
-                }
-                return { date: dateStr, isPresent: !!record, isHaid: record?.status === 'HAID', recordId: record?.id };
+                const record = sessionRecords.find(r => r.studentId === student.id && r.date === dateStr);
+                if (record) studentRecords.push(record);
+                if (record && offReasons[i] === null) effectiveRecords.push(record);
+                return { date: dateStr, status: record ? getRecordStatus(record) : null, recordId: record?.id, offReason: offReasons[i] };
             });
-            return { ...student, attendanceMap, presentCount, haidCount, absentCount: daysInRange.length - (presentCount + haidCount) };
+            return {
+                ...student,
+                attendanceMap,
+                counts: countByStatus(studentRecords),
+                absentCount: effectiveDays - effectiveRecords.length,
+                percentage: getAttendancePercentage(effectiveRecords, effectiveDays)
+            };
         }).sort((a, b) => a.className.localeCompare(b.className) || a.name.localeCompare(b.name))
     };
-  }, [records, students, startDate, endDate, selectedClass, viewOnlyStudent]);
+  }, [sessionRecords, students, startDate, endDate, selectedClass, viewOnlyStudent, calendar, selectedSession]);
 
   const monthlyStats = useMemo(() => {
     let targetStudents = viewOnlyStudent ? [viewOnlyStudent] : students;
     if (!viewOnlyStudent && historyFilterClass !== 'ALL') targetStudents = targetStudents.filter(s => s.className === historyFilterClass);
 
+    // Hari efektif bulan ini di dalam semester, hanya sampai hari ini (hari yang belum lewat belum bisa absen)
+    const monthStart = clampDateToPeriod(academicPeriod, `${historyMonth}-01`);
+    const monthEnd = clampDateToPeriod(academicPeriod, format(endOfMonth(parseISO(`${historyMonth}-01`)), 'yyyy-MM-dd'));
+    const effectiveDates = new Set(getEffectiveDates(calendar, monthStart, monthEnd < today ? monthEnd : today, selectedSession));
+
     return targetStudents.map(student => {
-        const monthRecords = records.filter(r => r.studentId === student.id && r.date.startsWith(historyMonth));
-        const presentCount = monthRecords.filter(r => r.status === 'PRESENT').length;
-        const haidCount = monthRecords.filter(r => r.status === 'HAID').length;
-        return { ...student, presentCount, haidCount, absentCount: 0 }; // Absent is relative
+        const monthRecords = sessionRecords.filter(r => r.studentId === student.id && r.date.startsWith(historyMonth));
+        const effectiveRecords = monthRecords.filter(r => effectiveDates.has(r.date));
+        return {
+            ...student,
+            counts: countByStatus(monthRecords),
+            effectiveDays: effectiveDates.size,
+            absentCount: effectiveDates.size - effectiveRecords.length,
+            percentage: getAttendancePercentage(effectiveRecords, effectiveDates.size)
+        };
     }).sort((a, b) => a.className.localeCompare(b.className) || a.name.localeCompare(b.name));
-  }, [records, students, historyMonth, historyFilterClass, viewOnlyStudent]);
+  }, [sessionRecords, students, historyMonth, historyFilterClass, viewOnlyStudent, calendar, selectedSession, academicPeriod, today]);
 
   const semesterData = useMemo(() => {
     const counts: Record<string, { name: string, count: number, className: string }> = {};
-    records.forEach(r => {
+    sessionRecords.forEach(r => {
       if (!counts[r.studentId]) {
         counts[r.studentId] = { name: r.studentName, count: 0, className: r.className };
       }
-      // Leaderboard hanya menghitung Sholat & Haid (bukan Alpha)
-      if (r.status === 'PRESENT' || r.status === 'HAID') {
-        counts[r.studentId].count++;
-      }
+      // Poin per status diatur di registry (izin, sakit, alpha = 0)
+      counts[r.studentId].count += getRecordScore(r);
     });
     return Object.values(counts).sort((a, b) => b.count - a.count);
-  }, [records]);
+  }, [sessionRecords]);
 
   const handleDownloadPDF = async () => {
     if (!reportRef.current) return;
@@ -154,7 +232,37 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
     }
   };
 
-  const handleDownloadCSV = () => { /* Logic implemented but skipped for brevity */ };
+  const handleDownloadExcel = () => {
+    let rows: Record<string, string | number>[] = [];
+    if (period === ReportPeriod.DAILY) {
+      rows = filteredDailyList.map((s, idx) => ({
+        No: idx + 1, NIS: s.id, Kelas: s.className, Nama: s.name,
+        Status: s.statusLabel, Waktu: s.time, Petugas: s.operator, Keterangan: s.note || ''
+      }));
+    } else if (period === ReportPeriod.WEEKLY) {
+      rows = weeklyMatrixData.matrix.map((s, idx) => ({
+        No: idx + 1, NIS: s.id, Kelas: s.className, Nama: s.name,
+        ...Object.fromEntries(s.attendanceMap.map(d => [d.date, d.status ? getStatusInfo(d.status).short : d.offReason ? 'L' : '-'])),
+        ...Object.fromEntries(ATTENDANCE_STATUSES.map(info => [info.label, s.counts[info.id]])),
+        'Tanpa Keterangan': s.absentCount,
+        'Kehadiran (%)': s.percentage
+      }));
+    } else if (period === ReportPeriod.MONTHLY) {
+      rows = monthlyStats.map((s, idx) => ({
+        No: idx + 1, NIS: s.id, Kelas: s.className, Nama: s.name,
+        ...Object.fromEntries(ATTENDANCE_STATUSES.map(info => [info.label, s.counts[info.id]])),
+        'Hari Efektif': s.effectiveDays,
+        'Tanpa Keterangan': s.absentCount,
+        'Kehadiran (%)': s.percentage
+      }));
+    } else {
+      rows = semesterData.map((s, idx) => ({ Rank: idx + 1, Nama: s.name, Kelas: s.className, Poin: s.count }));
+    }
+    const sheet = XLSX.utils.json_to_sheet(rows);
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, sheet, 'Laporan');
+    XLSX.writeFile(book, `Laporan_${period}.xlsx`);
+  };
 
   return (
     <div className="space-y-6 pb-20">
@@ -179,15 +287,23 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
         {!selectedStudentDetail && (
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
                 <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
-                    {period === ReportPeriod.DAILY && <><CheckCircle2 className="text-cyan-400" /> MISSION REPORT: TODAY</>}
+                    {period === ReportPeriod.DAILY && <><CheckCircle2 className="text-cyan-400" /> MISSION REPORT: {reportDate === today ? 'TODAY' : format(parseISO(reportDate), 'dd MMM yyyy', { locale: id })}</>}
                     {period === ReportPeriod.WEEKLY && <><TrendingUp className="text-amber-500" /> ATTENDANCE MATRIX</>}
                     {period === ReportPeriod.MONTHLY && <><Calendar className="text-cyan-400" /> MONTHLY HISTORY LOG</>}
                     {period === ReportPeriod.SEMESTER && <><Crown className="text-amber-500" /> MVP LEADERBOARD</>}
                 </h3>
                 <div className="flex gap-2 w-full md:w-auto no-print">
-                    <button onClick={handleDownloadPDF} disabled={isExporting} className="flex-1 md:flex-none bg-red-900/40 text-red-400 border border-red-500/30 hover:bg-red-900/60 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-2">
-                        {isExporting ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />} PDF
-                    </button>
+                    <SessionSelector sessions={sessions} value={selectedSessionId} onChange={setSelectedSessionId} className="flex-1 md:flex-none" />
+                    {can('EXPORT') && (
+                      <>
+                        <button onClick={handleDownloadPDF} disabled={isExporting} className="flex-1 md:flex-none bg-red-900/40 text-red-400 border border-red-500/30 hover:bg-red-900/60 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-2">
+                            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />} PDF
+                        </button>
+                        <button onClick={handleDownloadExcel} className="flex-1 md:flex-none bg-green-900/40 text-green-400 border border-green-500/30 hover:bg-green-900/60 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-2">
+                            <FileSpreadsheet size={16} /> EXCEL
+                        </button>
+                      </>
+                    )}
                 </div>
             </div>
         )}
@@ -195,11 +311,17 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
         <div ref={reportRef} className="p-2 -m-2 rounded-xl bg-slate-900/50">
             {period === ReportPeriod.DAILY && (
                 <div className="space-y-4">
+                    {todayOffReason && (
+                        <div className="text-center text-xs font-bold uppercase tracking-wider text-slate-400 bg-slate-800/60 border border-slate-700 rounded-lg px-3 py-2">
+                            Hari ini bukan hari efektif: {todayOffReason}
+                        </div>
+                    )}
                     <div className="flex flex-col md:flex-row justify-between items-center gap-4 px-2">
                         <div className="flex gap-3 text-[11px] md:text-xs text-slate-400">
                            <span>Total: <b className="text-white">{dailyMasterList.length}</b></span>
-                           <span>Hadir: <b className="text-green-400">{dailyMasterList.filter(s=>s.isPresent && !s.isHaid).length}</b></span>
-                           <span>Haid: <b className="text-pink-400">{dailyMasterList.filter(s=>s.isHaid).length}</b></span>
+                           {ATTENDANCE_STATUSES.map(info => (
+                               <span key={info.id}>{info.label}: <b className={info.textClass}>{dailyMasterList.filter(st => st.statusRaw === info.id).length}</b></span>
+                           ))}
                         </div>
                         <div className="flex flex-wrap gap-2 items-center justify-end w-full md:w-auto">
                             {!viewOnlyStudent && (
@@ -209,8 +331,8 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                 </select>
                             )}
                             <div className="flex bg-slate-950 p-1 rounded-lg border border-slate-800">
-                                {['ALL', 'PRESENT', 'HAID', 'ABSENT'].map(f => (
-                                    <button key={f} onClick={() => setDailyFilter(f as any)} className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${dailyFilter === f ? 'bg-slate-700 text-white' : 'text-slate-500'}`}>{f}</button>
+                                {[{ id: 'ALL', label: 'Semua' }, ...ATTENDANCE_STATUSES, { id: 'ABSENT', label: 'Belum' }].map(f => (
+                                    <button key={f.id} onClick={() => setDailyFilter(f.id as typeof dailyFilter)} className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${dailyFilter === f.id ? 'bg-slate-700 text-white' : 'text-slate-500'}`}>{f.label}</button>
                                 ))}
                             </div>
                         </div>
@@ -222,8 +344,9 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                     <th className="p-3 border-b border-slate-800 text-center">No</th>
                                     <th className="p-3 border-b border-slate-800">Kelas</th>
                                     <th className="p-3 border-b border-slate-800">Nama Siswa</th>
+                                    <th className="p-3 border-b border-slate-800 text-center">Status</th>
                                     <th className="p-3 border-b border-slate-800 text-center">Waktu</th>
-                                    {!viewOnlyStudent && <th className="p-3 border-b border-slate-800 text-center">Aksi</th>}
+                                    {(canEditStatus || canDelete) && <th className="p-3 border-b border-slate-800 text-center">Aksi</th>}
                                 </tr>
                             </thead>
                             <tbody className="text-xs font-mono">
@@ -233,23 +356,34 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                         <td className="p-3 font-bold text-cyan-500">{student.className}</td>
                                         <td className="p-3">
                                             <div className="flex items-center gap-2">
-                                                {student.statusRaw === 'PRESENT' && <CheckCircle2 size={12} className="text-green-500" />}
-                                                {student.statusRaw === 'HAID' && <Droplets size={12} className="text-pink-500" />}
-                                                {student.statusRaw === 'ABSENT' && <XCircle size={12} className="text-red-500" />}
-                                                {student.name}
+                                                {student.statusRaw === 'ABSENT' ? <XCircle size={12} className="text-slate-600" /> : <StatusIcon status={student.statusRaw} size={12} />}
+                                                <div>
+                                                    {student.name}
+                                                    {student.note && <div className="text-[10px] text-slate-500 italic">{student.note}</div>}
+                                                </div>
                                             </div>
                                         </td>
+                                        <td className={`p-3 text-center text-[10px] font-bold uppercase ${student.statusRaw === 'ABSENT' ? 'text-slate-600' : getStatusInfo(student.statusRaw).textClass}`}>{student.statusLabel}</td>
                                         <td className="p-3 text-center text-slate-400">{student.time}</td>
-                                        {!viewOnlyStudent && (
+                                        {(canEditStatus || canDelete) && (
                                             <td className="p-3 text-center">
                                                 {student.isPresent && (
                                                     <div className="flex justify-center gap-2">
-                                                        <button onClick={() => handleToggleStatus(student.recordId!, student.statusRaw)} className="p-1.5 text-amber-500 hover:bg-amber-500/10 rounded transition-all" title="Ubah Status (Hadir/Haid)">
-                                                            <Edit size={14} />
-                                                        </button>
-                                                        <button onClick={() => handleDelete(student.recordId!)} className="p-1.5 text-red-500 hover:bg-red-500/10 rounded transition-all" title="Hapus Absensi">
-                                                            <Trash2 size={14} />
-                                                        </button>
+                                                        {canEditStatus && (
+                                                          <select
+                                                            value={student.statusRaw}
+                                                            onChange={e => handleChangeStatus(student.recordId!, e.target.value as AttendanceStatus, student.note)}
+                                                            className="bg-slate-950 border border-slate-700 text-amber-500 rounded text-[10px] font-bold uppercase p-1 outline-none cursor-pointer"
+                                                            title="Ubah Status"
+                                                          >
+                                                            {ATTENDANCE_STATUSES.map(info => <option key={info.id} value={info.id}>{info.label}</option>)}
+                                                          </select>
+                                                        )}
+                                                        {canDelete && (
+                                                          <button onClick={() => handleDelete(student.recordId!)} className="p-1.5 text-red-500 hover:bg-red-500/10 rounded transition-all" title="Hapus Absensi">
+                                                              <Trash2 size={14} />
+                                                          </button>
+                                                        )}
                                                     </div>
                                                 )}
                                             </td>
@@ -267,11 +401,11 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                     <div className="flex flex-col md:flex-row gap-4 items-end no-print">
                         <div className="flex flex-col gap-1">
                             <label className="text-[10px] text-slate-500 uppercase font-bold">Dari</label>
-                            <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none" />
+                            <input type="date" value={startDate} min={periodStart} max={periodEnd} onChange={e => setStartDate(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none" />
                         </div>
                         <div className="flex flex-col gap-1">
                             <label className="text-[10px] text-slate-500 uppercase font-bold">Sampai</label>
-                            <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none" />
+                            <input type="date" value={endDate} min={periodStart} max={periodEnd} onChange={e => setEndDate(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none" />
                         </div>
                         <select value={selectedClass} onChange={e => setSelectedClass(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none">
                             <option value="ALL">SEMUA KELAS</option>
@@ -286,10 +420,13 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                     <th className="p-3">Kelas</th>
                                     <th className="p-3 min-w-[150px]">Nama</th>
                                     {weeklyMatrixData.daysInRange.map((d, i) => (
-                                        <th key={i} className="p-1 text-center min-w-[30px]">{format(d, 'dd')}</th>
+                                        <th key={i} className={`p-1 text-center min-w-[30px] ${weeklyMatrixData.offReasons[i] ? 'text-slate-700' : ''}`} title={weeklyMatrixData.offReasons[i] || undefined}>{format(d, 'dd')}</th>
+                                    ))}
+                                    {ATTENDANCE_STATUSES.map(info => (
+                                        <th key={info.id} className={`p-3 text-center ${info.textClass}`} title={info.label}>{info.short}</th>
                                     ))}
-                                    <th className="p-3 text-center text-green-400">V</th>
-                                    <th className="p-3 text-center text-pink-400">H</th>
+                                    <th className="p-3 text-center text-slate-300" title="Tanpa Keterangan (hari efektif tanpa record)">TK</th>
+                                    <th className="p-3 text-center text-cyan-400" title={`Dari ${weeklyMatrixData.effectiveDays} hari efektif`}>%</th>
                                 </tr>
                             </thead>
                             <tbody className="text-[10px] font-mono">
@@ -299,21 +436,24 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                         <td className="p-3 font-bold text-cyan-500">{s.className}</td>
                                         <td className="p-3">{s.name}</td>
                                         {s.attendanceMap.map((d, di) => (
-                                            <td key={di} className="p-1 text-center border-l border-slate-800/30">
+                                            <td key={di} className={`p-1 text-center border-l border-slate-800/30 ${d.offReason ? 'bg-slate-800/40' : ''}`} title={d.offReason || undefined}>
                                                 <div className="flex flex-col items-center">
-                                                    {d.isPresent ? (
+                                                    {d.status ? (
                                                         <div className="group relative flex flex-col items-center">
-                                                            <span className={d.isHaid ? 'text-pink-500' : 'text-green-500'}>{d.isHaid ? 'H' : 'V'}</span>
-                                                            {!viewOnlyStudent && (
+                                                            <span className={getStatusInfo(d.status).textClass} title={getStatusInfo(d.status).label}>{getStatusInfo(d.status).short}</span>
+                                                            {canDelete && (
                                                                 <button onClick={() => handleDelete(d.recordId!)} className="absolute -top-4 opacity-0 group-hover:opacity-100 bg-red-600 rounded p-1 text-[8px] z-50">DEL</button>
                                                             )}
                                                         </div>
-                                                    ) : '-'}
+                                                    ) : d.offReason ? <span className="text-slate-700">L</span> : '-'}
                                                 </div>
                                             </td>
                                         ))}
-                                        <td className="p-3 text-center text-green-400 font-bold">{s.presentCount}</td>
-                                        <td className="p-3 text-center text-pink-400 font-bold">{s.haidCount}</td>
+                                        {ATTENDANCE_STATUSES.map(info => (
+                                            <td key={info.id} className={`p-3 text-center font-bold ${info.textClass}`}>{s.counts[info.id]}</td>
+                                        ))}
+                                        <td className="p-3 text-center font-bold text-slate-300">{s.absentCount}</td>
+                                        <td className="p-3 text-center font-bold text-cyan-400">{s.percentage}%</td>
                                     </tr>
                                 ))}
                             </tbody>
@@ -326,7 +466,7 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                 <div className="space-y-4">
                     {!selectedStudentDetail && (
                         <div className="flex gap-4 items-end no-print">
-                            <input type="month" value={historyMonth} onChange={e => setHistoryMonth(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none" />
+                            <input type="month" value={historyMonth} min={periodStart.slice(0, 7)} max={periodEnd.slice(0, 7)} onChange={e => setHistoryMonth(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none" />
                             <select value={historyFilterClass} onChange={e => setHistoryFilterClass(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-200 rounded p-1.5 text-xs outline-none">
                                 <option value="ALL">SEMUA KELAS</option>
                                 {classList.map(cls => <option key={cls} value={cls}>{cls}</option>)}
@@ -340,8 +480,11 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                     <th className="p-3">No</th>
                                     <th className="p-3 text-center">NIS</th>
                                     <th className="p-3">Nama Siswa</th>
-                                    <th className="p-3 text-center">Sholat</th>
-                                    <th className="p-3 text-center">Haid</th>
+                                    {ATTENDANCE_STATUSES.map(info => (
+                                        <th key={info.id} className="p-3 text-center">{info.label}</th>
+                                    ))}
+                                    <th className="p-3 text-center" title="Hari efektif tanpa record">Tanpa Ket.</th>
+                                    <th className="p-3 text-center" title={`Dari ${monthlyStats[0]?.effectiveDays ?? 0} hari efektif`}>Kehadiran</th>
                                 </tr>
                             </thead>
                             <tbody className="text-xs font-mono">
@@ -352,8 +495,11 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                                         <td className="p-3">
                                             <button onClick={() => setSelectedStudentDetail(s as Student)} className="text-left hover:text-amber-400 transition-all">{s.name}</button>
                                         </td>
-                                        <td className="p-3 text-center font-bold text-green-400">{s.presentCount}</td>
-                                        <td className="p-3 text-center font-bold text-pink-400">{s.haidCount}</td>
+                                        {ATTENDANCE_STATUSES.map(info => (
+                                            <td key={info.id} className={`p-3 text-center font-bold ${info.textClass}`}>{s.counts[info.id]}</td>
+                                        ))}
+                                        <td className="p-3 text-center font-bold text-slate-300">{s.absentCount}</td>
+                                        <td className="p-3 text-center font-bold text-cyan-400">{s.percentage}%</td>
                                     </tr>
                                 ))}
                             </tbody>
@@ -369,7 +515,7 @@ const Reports: React.FC<ReportsProps> = ({ records, students, onRecordUpdate, vi
                             <tr>
                                 <th className="p-3 text-[10px] font-bold text-slate-500 uppercase text-center">Rank</th>
                                 <th className="p-3 text-[10px] font-bold text-slate-500 uppercase">Hero Name</th>
-                                <th className="p-3 text-[10px] font-bold text-slate-500 uppercase text-right">Kehadiran (S+H)</th>
+                                <th className="p-3 text-[10px] font-bold text-slate-500 uppercase text-right">Poin Kehadiran</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-800">
@@ -0,0 +1,51 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Clock, Loader2, CheckCircle2, AlertTriangle, XCircle, Trash2 } from 'lucide-react';
+import { ScanItemStatus, ScanQueueItem } from '../hooks/useScanQueue';
+
+const STATUS_STYLE: Record<ScanItemStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  queued: { label: 'Antre', className: 'text-slate-400 border-slate-600', icon: <Clock size={12} /> },
+  processing: { label: 'Proses', className: 'text-cyan-400 border-cyan-500/50', icon: <Loader2 size={12} className="animate-spin" /> },
+  done: { label: 'Masuk', className: 'text-emerald-400 border-emerald-500/50', icon: <CheckCircle2 size={12} /> },
+  duplicate: { label: 'Dobel', className: 'text-amber-400 border-amber-500/50', icon: <AlertTriangle size={12} /> },
+  failed: { label: 'Gagal', className: 'text-red-400 border-red-500/50', icon: <XCircle size={12} /> }
+};
+
+interface ScanQueueListProps {
+  items: ScanQueueItem[];
+  onClear?: () => void;
+  className?: string;
+}
+
+// Daftar antrean scan: yang masih antre/diproses di atas, hasil scan sebelumnya di bawahnya
+const ScanQueueList: React.FC<ScanQueueListProps> = ({ items, onClear, className = '' }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`bg-slate-900/80 border border-slate-700 rounded-xl overflow-hidden ${className}`}>
+      <div className="flex justify-between items-center px-3 py-2 border-b border-slate-700">
+        <span className="text-[10px] font-bold text-cyan-400 uppercase tracking-widest">Antrean Scan</span>
+        {onClear && (
+          <button onClick={onClear} className="text-slate-500 hover:text-white p-1" title="Bersihkan yang sudah selesai"><Trash2 size={12} /></button>
+        )}
+      </div>
+      <ul className="max-h-64 overflow-y-auto divide-y divide-slate-800">
+        {items.map(item => {
+          const style = STATUS_STYLE[item.status];
+          return (
+            <li key={item.id} className="px-3 py-2 flex items-center gap-3">
+              <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase flex items-center gap-1 shrink-0 ${style.className}`}>{style.icon} {style.label}</span>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-bold text-slate-200 truncate">{item.label}</p>
+                {item.message && <p className="text-[10px] text-slate-500 truncate">{item.message}</p>}
+              </div>
+              <span className="text-[10px] font-mono text-slate-600 shrink-0">{format(item.receivedAt, 'HH:mm:ss')}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ScanQueueList;
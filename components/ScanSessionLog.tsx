@@ -0,0 +1,68 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Undo2, ListChecks } from 'lucide-react';
+import { AttendanceRecord } from '../types';
+import { getRecordStatus, getStatusInfo } from '../services/statusService';
+import StatusIcon from './StatusIcon';
+
+export interface ClassCount {
+  className: string;
+  total: number;
+  recorded: number; // Semua status (hadir, terlambat, haid, izin, ...)
+  late: number;
+}
+
+interface ScanSessionLogProps {
+  sessionName: string;
+  classCounts: ClassCount[];
+  myRecords: AttendanceRecord[]; // Scan petugas ini di sesi & tanggal terpilih, terbaru di atas
+  now: number;
+  undoMinutes: number;
+  onUndo?: (record: AttendanceRecord) => void; // Kosong = petugas tidak boleh membatalkan scan
+  onShowSummary: () => void;
+}
+
+// Log scan petugas di sesi berjalan + hitungan per kelas (semua petugas)
+const ScanSessionLog: React.FC<ScanSessionLogProps> = ({ sessionName, classCounts, myRecords, now, undoMinutes, onUndo, onShowSummary }) => {
+  const canUndo = (record: AttendanceRecord) => !!onUndo && undoMinutes > 0 && now - record.timestamp <= undoMinutes * 60000;
+
+  return (
+    <div className="w-full max-w-lg mx-auto bg-slate-900/80 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-slate-700">
+        <span className="text-[10px] font-bold text-cyan-400 uppercase tracking-widest">Log Scan Saya · {sessionName} ({myRecords.length})</span>
+        <button onClick={onShowSummary} className="text-[10px] font-bold uppercase text-amber-400 hover:text-amber-300 flex items-center gap-1"><ListChecks size={12} /> Ringkasan</button>
+      </div>
+
+      {classCounts.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-3 py-2 border-b border-slate-800">
+          {classCounts.map(c => (
+            <span key={c.className} className={`px-2 py-0.5 rounded border text-[10px] font-bold font-mono ${c.recorded >= c.total ? 'border-emerald-500/50 text-emerald-400' : 'border-slate-700 text-slate-400'}`}>
+              {c.className} {c.recorded}/{c.total}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ul className="max-h-64 overflow-y-auto divide-y divide-slate-800">
+        {myRecords.map(record => (
+          <li key={record.id} className="px-3 py-2 flex items-center gap-3">
+            <StatusIcon status={getRecordStatus(record)} />
+            <div className="min-w-0 flex-1">
+              <p className="text-xs font-bold text-slate-200 truncate">{record.studentName}</p>
+              <p className="text-[10px] text-slate-500">{record.className} · {getStatusInfo(getRecordStatus(record)).label}</p>
+            </div>
+            <span className="text-[10px] font-mono text-slate-600 shrink-0">{format(record.timestamp, 'HH:mm:ss')}</span>
+            {canUndo(record) && (
+              <button onClick={() => onUndo?.(record)} className="px-2 py-1 rounded border border-red-500/40 text-red-400 text-[10px] font-bold uppercase flex items-center gap-1 hover:bg-red-500/10 shrink-0">
+                <Undo2 size={12} /> Batal
+              </button>
+            )}
+          </li>
+        ))}
+        {myRecords.length === 0 && <li className="px-3 py-4 text-center text-xs text-slate-500">Belum ada scan di sesi ini.</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default ScanSessionLog;
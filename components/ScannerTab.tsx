@@ -1,112 +1,171 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Scan, UserCheck, Search, QrCode, X, Sparkles, Zap, Camera, Keyboard, Send, Phone, Filter, CheckSquare, Square, Check, Droplets, Loader2 } from 'lucide-react';
-import { QrReader } from 'react-qr-reader';
-import { Student, AttendanceRecord } from '../types';
-import { addAttendanceRecordToSheet } from '../services/storageService';
+import { Scan, UserCheck, Search, QrCode, X, Sparkles, Zap, Camera, Keyboard, Send, Phone, Filter, CheckSquare, Square, Check, Loader2, MessageSquare, Lock, MonitorSmartphone } from 'lucide-react';
+import { Student, AttendanceRecord, AttendanceStatus } from '../types';
+import { format } from 'date-fns';
+import { addAttendanceRecordToSheet, deleteAttendanceRecord } from '../services/storageService';
+import { touchAuthSession } from '../services/authSessionService';
+import { verifyCardScan } from '../services/cardService';
+import { unlockSound } from '../services/soundService';
+import { getActiveSession, getRecordSessionId, getSessionName, isSessionOver } from '../services/sessionService';
+import { getClockOffset, trustedNow } from '../services/clockService';
+import { getManualStatuses, getStatusInfo } from '../services/statusService';
+import { useSetting } from '../hooks/useSetting';
+import { useScanQueue, ScanOutcome } from '../hooks/useScanQueue';
+import { PermissionCheck } from '../hooks/usePermission';
+import { DEFAULT_PRAYER_SESSIONS, DEFAULT_SCAN_UNDO_MINUTES, DEFAULT_SESSION_ID, SETTING_KEYS } from '../constants';
+import SessionSelector from './SessionSelector';
+import StatusIcon from './StatusIcon';
+import KioskMode from './KioskMode';
+import ScanQueueList from './ScanQueueList';
+import CameraScanner from './CameraScanner';
+import ScanSessionLog, { ClassCount } from './ScanSessionLog';
+import SessionSummaryModal from './SessionSummaryModal';
+import StudentPhoto from './StudentPhoto';
 
 interface ScannerTabProps {
   students: Student[];
   records: AttendanceRecord[];
   onRecordUpdate: () => void;
   currentUser: string;
+  readOnly?: boolean; // Periode arsip dipilih di header: absensi baru tidak dicatat
+  defaultClass?: string; // Kelas wali kelas yang sedang login
+  paused?: boolean; // Layar kunci aktif: kamera dilepas & input USB diabaikan, pilihan lain tetap
+  can: PermissionCheck;
+  onKioskChange?: (active: boolean) => void; // App menunda kunci layar otomatis selama kiosk
 }
 
-const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpdate, currentUser }) => {
+const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpdate, currentUser, readOnly = false, defaultClass, paused = false, can, onKioskChange }) => {
   const [mode, setMode] = useState<'scan' | 'manual'>('scan');
+  const [kioskActive, setKioskActive] = useState(false);
   const [scanMethod, setScanMethod] = useState<'camera' | 'usb'>('camera');
   const [autoSendWA, setAutoSendWA] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const scanQueue = useScanQueue();
+  const isProcessing = scanQueue.pendingCount > 0;
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [manualClassFilter, setManualClassFilter] = useState('ALL');
+  const [manualClassFilter, setManualClassFilter] = useState(defaultClass || 'ALL');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [isHaidMode, setIsHaidMode] = useState(false);
+  // Mode input manual; LATE tidak ada di sini karena ditentukan otomatis dari jam sesi
+  const [inputStatus, setInputStatus] = useState<Exclude<AttendanceStatus, 'LATE'>>('PRESENT');
+  const [note, setNote] = useState('');
+  const inputStatusInfo = getStatusInfo(inputStatus);
+  const isDefaultMode = inputStatus === 'PRESENT';
+
+  const sessions = useSetting(SETTING_KEYS.PRAYER_SESSIONS, DEFAULT_PRAYER_SESSIONS);
+  const [selectedSessionId, setSelectedSessionId] = useState(() => getActiveSession(sessions)?.id || DEFAULT_SESSION_ID);
+  // Status tepat waktu/terlambat memakai jam server; beri tahu petugas bila jam HP jauh berbeda
+  const clockOffset = getClockOffset();
+  const clockSkewMinutes = clockOffset === null ? 0 : Math.round(clockOffset / 60000);
+  const undoMinutes = useSetting(SETTING_KEYS.SCAN_UNDO_MINUTES, DEFAULT_SCAN_UNDO_MINUTES);
+  // Detak per 30 detik: tombol batal kedaluwarsa & deteksi sesi ditutup
+  const [now, setNow] = useState(() => trustedNow());
+  const [showSummary, setShowSummary] = useState(false);
 
   const [barcodeInput, setBarcodeInput] = useState('');
   const [lastMessage, setLastMessage] = useState<{ text: string; type: 'success' | 'error'; student?: Student } | null>(null);
   
-  const lastScanTimeRef = useRef<number>(0);
-  const lastScannedIdRef = useRef<string>('');
   const scanInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    if (mode === 'scan' && scanMethod === 'usb') {
+    if (mode === 'scan' && scanMethod === 'usb' && !paused) {
       scanInputRef.current?.focus();
     }
-  }, [mode, scanMethod, lastMessage]);
+  }, [mode, scanMethod, lastMessage, paused]);
 
   const uniqueClasses = useMemo(() => {
     const classes = new Set(students.map(s => s.className));
     return Array.from(classes).sort();
   }, [students]);
 
-  const attendedStudentIds = useMemo(() => {
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const day = String(now.getDate()).padStart(2, '0');
-      const todayStr = `${year}-${month}-${day}`;
-      const todayRecords = records.filter(r => r.date === todayStr);
-      return new Set(todayRecords.map(r => r.studentId));
-  }, [records]);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(trustedNow()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const todayStr = format(now, 'yyyy-MM-dd');
+  const sessionRecords = useMemo(
+    () => records.filter(r => r.date === todayStr && getRecordSessionId(r) === selectedSessionId),
+    [records, todayStr, selectedSessionId]
+  );
+
+  const attendedStudentIds = useMemo(() => new Set(sessionRecords.map(r => r.studentId)), [sessionRecords]);
+
+  const myRecords = useMemo(
+    () => sessionRecords.filter(r => r.operatorName === currentUser).sort((a, b) => b.timestamp - a.timestamp),
+    [sessionRecords, currentUser]
+  );
+
+  const classCounts = useMemo((): ClassCount[] => uniqueClasses.map(className => {
+    const classRecords = sessionRecords.filter(r => r.className === className);
+    return {
+      className,
+      total: students.filter(s => s.className === className).length,
+      recorded: classRecords.length,
+      late: classRecords.filter(r => r.status === 'LATE').length
+    };
+  }), [uniqueClasses, students, sessionRecords]);
+
+  // Ringkasan muncul sekali saat jendela scan sesi terpilih lewat, bila petugas ikut mencatat
+  const selectedSession = sessions.find(s => s.id === selectedSessionId);
+  const sessionOver = !!selectedSession && isSessionOver(selectedSession, new Date(now));
+  const sessionOverRef = useRef({ sessionId: selectedSessionId, over: sessionOver });
+  useEffect(() => {
+    const previous = sessionOverRef.current;
+    if (previous.sessionId === selectedSessionId && !previous.over && sessionOver && myRecords.length > 0) {
+      setShowSummary(true);
+    }
+    sessionOverRef.current = { sessionId: selectedSessionId, over: sessionOver };
+  }, [selectedSessionId, sessionOver, myRecords]);
 
   const filteredStudents = useMemo(() => {
     return students.filter(s => {
       if (attendedStudentIds.has(s.id)) return false;
-      if (isHaidMode && s.gender !== 'P') return false;
+      if (inputStatusInfo.femaleOnly && s.gender !== 'P') return false;
       const matchesSearch = s.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
                             s.id.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesClass = manualClassFilter === 'ALL' || s.className === manualClassFilter;
       return matchesSearch && matchesClass;
     });
-  }, [students, searchQuery, manualClassFilter, attendedStudentIds, isHaidMode]);
-
-  const handleAttendance = async (student: Student) => {
-    setIsProcessing(true);
-    const status = isHaidMode ? 'HAID' : 'PRESENT';
-    const result = await addAttendanceRecordToSheet(student, currentUser, status);
-    
-    setLastMessage({
-      text: result.message,
-      type: result.success ? 'success' : 'error',
-      student: result.success ? student : undefined
-    });
-    
-    setTimeout(() => setLastMessage(null), 4000);
-    
-    if (result.success) {
-      onRecordUpdate();
-      if (autoSendWA && student.parentPhone) {
-        sendWhatsappMessage(student, status);
+  }, [students, searchQuery, manualClassFilter, attendedStudentIds, inputStatusInfo]);
+
+  // Status, sesi & keterangan diambil saat scan masuk antrean, bukan saat giliran diproses
+  const attendanceJob = (student: Student, notify: boolean) => {
+    const status = inputStatus;
+    const sessionId = selectedSessionId;
+    const recordNote = note;
+    const sendWA = autoSendWA && can('BROADCAST');
+    return async (): Promise<ScanOutcome> => {
+      const result = await addAttendanceRecordToSheet(student, currentUser, status, sessionId, recordNote);
+      if (notify) {
+        setLastMessage({
+          text: result.message,
+          type: result.success ? 'success' : 'error',
+          student: result.success ? student : undefined
+        });
+        setTimeout(() => setLastMessage(null), 4000);
       }
-    }
-    setIsProcessing(false);
+      if (result.success) {
+        // Scan kamera tidak menyentuh layar; tetap dihitung aktivitas supaya layar tidak terkunci saat antre ramai
+        touchAuthSession();
+        onRecordUpdate();
+        if (sendWA && student.parentPhone) {
+          sendWhatsappMessage(student, result.record?.status || status, result.record?.note, sessionId);
+        }
+      }
+      return { status: result.success ? 'done' : result.duplicate ? 'duplicate' : 'failed', message: result.message, label: student.name };
+    };
   };
 
-  const handleBulkAttendance = async () => {
-    if (selectedIds.size === 0 || isProcessing) return;
-    setIsProcessing(true);
-    
-    let successCount = 0;
-    const status = isHaidMode ? 'HAID' : 'PRESENT';
-    
+  const handleBulkAttendance = () => {
+    if (selectedIds.size === 0) return;
     const targets = Array.from(selectedIds).map(id => students.find(s => s.id === id)).filter(Boolean) as Student[];
+    targets.forEach(student => scanQueue.enqueue({ key: `manual:${student.id}`, label: student.name, run: attendanceJob(student, false) }));
 
-    for (const student of targets) {
-      const result = await addAttendanceRecordToSheet(student, currentUser, status);
-      if (result.success) successCount++;
-    }
-
-    onRecordUpdate();
-    setLastMessage({
-      text: successCount > 0 ? `Berhasil mencatat ${successCount} siswa!` : 'Gagal mencatat atau sudah absen.',
-      type: successCount > 0 ? 'success' : 'error'
-    });
-    
+    setLastMessage({ text: `${targets.length} siswa masuk antrean.`, type: 'success' });
     setSelectedIds(new Set());
+    setNote('');
     setTimeout(() => setLastMessage(null), 4000);
-    setIsProcessing(false);
   };
 
   const toggleSelection = (id: string) => {
@@ -116,46 +175,104 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
     setSelectedIds(newSet);
   };
 
-  const sendWhatsappMessage = (student: Student, status: 'PRESENT' | 'HAID' = 'PRESENT') => {
+  const sendWhatsappMessage = (student: Student, status: AttendanceStatus = 'PRESENT', recordNote?: string, sessionId = selectedSessionId) => {
     if (!student.parentPhone) return;
     let phone = student.parentPhone.replace(/\D/g, '');
     if (phone.startsWith('08')) phone = '62' + phone.substring(1);
     const today = new Date().toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+    const sessionName = getSessionName(sessions, sessionId);
+    const noteText = recordNote ? ` Keterangan: ${recordNote}.` : '';
     let text = status === 'HAID' 
       ? `Assalamualaikum. Diberitahukan bahwa ananda *${student.name}* (Kelas ${student.className}) telah melapor *BERHALANGAN (HAID)* pada hari ini ${today}. Terima kasih.` 
-      : `Assalamualaikum. Diberitahukan bahwa ananda *${student.name}* (Kelas ${student.className}) telah melaksanakan sholat Dhuhur berjamaah di sekolah pada hari ini ${today}. Petugas: ${currentUser}. Terima kasih.`;
+      : !getStatusInfo(status).attended
+      ? `Assalamualaikum. Diberitahukan bahwa ananda *${student.name}* (Kelas ${student.className}) tercatat *${getStatusInfo(status).label.toUpperCase()}* pada sholat ${sessionName} hari ini ${today}.${noteText} Petugas: ${currentUser}. Terima kasih.`
+      : `Assalamualaikum. Diberitahukan bahwa ananda *${student.name}* (Kelas ${student.className}) telah melaksanakan sholat ${sessionName} berjamaah di sekolah${status === 'LATE' ? ' (TERLAMBAT)' : ''} pada hari ini ${today}. Petugas: ${currentUser}. Terima kasih.`;
     window.open(`https://wa.me/${phone}?text=${text}`, '_blank');
   };
 
-  const handleCameraScan = (result: any, error: any) => {
-    if (error || isProcessing) return;
-    if (result) {
-      const text = (typeof result.getText === 'function' ? result.getText() : result.text) || '';
-      if (!text) return;
-      const now = Date.now();
-      if (text === lastScannedIdRef.current && now - lastScanTimeRef.current < 4000) return;
-      lastScanTimeRef.current = now;
-      lastScannedIdRef.current = text;
-      processScan(text);
-    }
+  // Hanya QR kartu resmi (bertanda tangan) yang diterima; NIS polos selama masa transisi kartu lama
+  const enqueueScan = (inputCode: string) => {
+    const code = inputCode.trim();
+    if (!code) return;
+    scanQueue.enqueue({
+      key: code,
+      label: code,
+      run: async () => {
+        const result = await verifyCardScan(code, students);
+        if ('student' in result) return attendanceJob(result.student, true)();
+        setLastMessage({ text: result.reason, type: 'error' });
+        setTimeout(() => setLastMessage(null), 3000);
+        return { status: 'failed', message: result.reason };
+      }
+    });
   };
 
+  const handleCameraScan = (text: string) => {
+    if (paused) return;
+    enqueueScan(text);
+  };
+
+  // Scanner USB tetap bisa mengetik saat scan sebelumnya masih diproses
   const handleBarcodeSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!barcodeInput || isProcessing) return;
-    processScan(barcodeInput);
+    if (!barcodeInput || paused) return;
+    enqueueScan(barcodeInput);
     setBarcodeInput('');
   };
 
-  const processScan = (inputCode: string) => {
-    const student = students.find(s => s.id === inputCode || s.name.toLowerCase() === inputCode.toLowerCase());
-    if (student) handleAttendance(student);
-    else {
-      setLastMessage({ text: `Target tidak ditemukan: ${inputCode}`, type: 'error' });
-      setTimeout(() => setLastMessage(null), 3000);
+  // Scan salah (siswa keliru / salah tap) dibatalkan oleh petugas sendiri dalam jendela waktu.
+  // Pembatalan = hapus record, jadi hanya untuk peran dengan izin hapus record
+  const canUndo = can('DELETE_RECORD');
+  const handleUndo = async (record: AttendanceRecord) => {
+    if (!canUndo) return;
+    if (trustedNow() - record.timestamp > undoMinutes * 60000) {
+      alert('Batas waktu pembatalan sudah lewat. Hapus lewat menu Laporan.');
+      return;
+    }
+    if (!confirm(`Batalkan absen ${record.studentName} (${record.className})?`)) return;
+    const success = await deleteAttendanceRecord(record.id, currentUser);
+    if (!success) {
+      alert('Record sudah tidak ada atau sudah dihapus.');
+      return;
     }
+    onRecordUpdate();
+    setLastMessage({ text: `Absen ${record.studentName} dibatalkan.`, type: 'success' });
+    setTimeout(() => setLastMessage(null), 3000);
+  };
+
+  const toggleKiosk = (active: boolean) => {
+    // Dipanggil dari klik tombol, jadi browser mengizinkan suara kiosk berikutnya
+    if (active) unlockSound();
+    setKioskActive(active);
+    onKioskChange?.(active);
   };
 
+  if (readOnly) {
+    return (
+      <div className="max-w-md mx-auto mt-10 p-6 bg-slate-900/80 border border-slate-700 rounded-2xl text-center space-y-2">
+        <Lock className="mx-auto text-slate-500" size={32} />
+        <p className="font-bold text-slate-300 uppercase tracking-wider text-sm">Periode Arsip</p>
+        <p className="text-xs text-slate-500">Periode yang dipilih sudah lewat dan hanya bisa dilihat. Pilih semester berjalan di header untuk mencatat absensi.</p>
+      </div>
+    );
+  }
+
+  if (kioskActive) {
+    return (
+      <KioskMode
+        students={students}
+        currentUser={currentUser}
+        sessionName={getSessionName(sessions, selectedSessionId)}
+        sessionId={selectedSessionId}
+        scanMethod={scanMethod}
+        attendedCount={attendedStudentIds.size}
+        paused={paused}
+        onRecordUpdate={onRecordUpdate}
+        onExit={() => toggleKiosk(false)}
+      />
+    );
+  }
+
   return (
     <div className="space-y-8 pb-20">
       <div className="flex bg-slate-800/50 p-1.5 rounded-full w-full max-w-md mx-auto border border-white/10 relative backdrop-blur-md">
@@ -169,9 +286,19 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
         </button>
       </div>
 
+      <SessionSelector sessions={sessions} value={selectedSessionId} onChange={setSelectedSessionId} className="w-full max-w-md mx-auto" />
+
+      {Math.abs(clockSkewMinutes) >= 2 && (
+        <div className="max-w-md mx-auto text-center text-[10px] font-bold uppercase tracking-wider text-orange-300 bg-orange-900/20 border border-orange-500/30 rounded-lg px-3 py-2">
+          Jam perangkat selisih {Math.abs(clockSkewMinutes)} menit dari server. Waktu absen memakai jam server.
+        </div>
+      )}
+
       {lastMessage && (
         <div className={`p-4 mx-auto max-w-lg rounded-xl text-center animate-bounce border relative overflow-hidden z-[100] fixed top-20 left-0 right-0 shadow-2xl ${lastMessage.type === 'success' ? 'bg-emerald-900/95 text-emerald-100 border-emerald-500' : 'bg-red-900/95 text-red-100 border-red-500'}`}>
           <div className="relative flex flex-col items-center justify-center gap-2">
+            {/* Foto besar supaya petugas bisa mencocokkan wajah dengan kartu yang di-scan */}
+            {lastMessage.student && <StudentPhoto studentId={lastMessage.student.id} className="w-40 h-52 rounded-xl border-4 border-emerald-400 shadow-2xl" />}
             <div className="flex items-center gap-2 uppercase font-gaming">
                 {lastMessage.type === 'success' ? <Sparkles className="text-yellow-300" /> : <Zap className="text-red-300" />}
                 {lastMessage.text}
@@ -187,9 +314,14 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
                 <button onClick={() => setScanMethod('camera')} className={`px-3 py-1.5 rounded-md text-xs font-bold flex items-center gap-2 transition-all ${scanMethod === 'camera' ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30' : 'text-slate-500'}`}><Camera size={14} /> KAMERA</button>
                 <button onClick={() => setScanMethod('usb')} className={`px-3 py-1.5 rounded-md text-xs font-bold flex items-center gap-2 transition-all ${scanMethod === 'usb' ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30' : 'text-slate-500'}`}><Keyboard size={14} /> USB</button>
             </div>
-            <button onClick={() => setAutoSendWA(!autoSendWA)} className={`px-4 py-1.5 rounded-lg text-xs font-bold border flex items-center gap-2 transition-all ${autoSendWA ? 'bg-green-600/20 border-green-500 text-green-400' : 'bg-slate-900 border-slate-700 text-slate-500'}`}>
-                <div className={`w-2 h-2 rounded-full ${autoSendWA ? 'bg-green-500 animate-pulse' : 'bg-slate-600'}`}></div>
-                AUTO WA {autoSendWA ? 'ON' : 'OFF'}
+            {can('BROADCAST') && (
+              <button onClick={() => setAutoSendWA(!autoSendWA)} className={`px-4 py-1.5 rounded-lg text-xs font-bold border flex items-center gap-2 transition-all ${autoSendWA ? 'bg-green-600/20 border-green-500 text-green-400' : 'bg-slate-900 border-slate-700 text-slate-500'}`}>
+                  <div className={`w-2 h-2 rounded-full ${autoSendWA ? 'bg-green-500 animate-pulse' : 'bg-slate-600'}`}></div>
+                  AUTO WA {autoSendWA ? 'ON' : 'OFF'}
+              </button>
+            )}
+            <button onClick={() => toggleKiosk(true)} className="px-4 py-1.5 rounded-lg text-xs font-bold border flex items-center gap-2 transition-all bg-slate-900 border-slate-700 text-amber-400 hover:border-amber-500">
+                <MonitorSmartphone size={14} /> KIOSK
             </button>
           </div>
 
@@ -197,15 +329,14 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
             <div className="absolute -inset-10 bg-gradient-to-r from-cyan-500 via-blue-500 to-purple-600 rounded-full blur-xl opacity-20 group-hover:opacity-40 transition animate-pulse"></div>
             <div className="relative bg-slate-900/90 rounded-2xl p-6 shadow-2xl border border-cyan-500/30 flex flex-col items-center min-h-[400px]">
               <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-200 to-blue-400 mb-6 font-gaming tracking-widest uppercase">
-                {isProcessing ? 'SINKRONISASI...' : (scanMethod === 'camera' ? 'CAMERA SCAN' : 'USB SCANNER')}
+                {isProcessing ? `ANTREAN (${scanQueue.pendingCount})` : (scanMethod === 'camera' ? 'CAMERA SCAN' : 'USB SCANNER')}
               </h3>
 
               {scanMethod === 'camera' ? (
-                <div className={`w-full aspect-square bg-black rounded-lg overflow-hidden border-2 relative shadow-inner ${isProcessing ? 'opacity-50 grayscale border-slate-700' : 'border-cyan-500/50'}`}>
-                  {!isProcessing && <div className="absolute top-0 left-0 w-full h-1 bg-cyan-400 shadow-[0_0_20px_rgba(34,211,238,1)] z-20 animate-[scan_2s_ease-in-out_infinite]"></div>}
-                  {isProcessing && <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-900/60"><Loader2 className="animate-spin text-cyan-400" size={40} /></div>}
-                  <QrReader onResult={handleCameraScan} constraints={{ facingMode: 'environment' }} scanDelay={1000} containerStyle={{ width: '100%', height: '100%' }} videoStyle={{ objectFit: 'cover' }} />
-                </div>
+                <CameraScanner onDecode={handleCameraScan} paused={paused}>
+                  <div className="absolute top-0 left-0 w-full h-1 bg-cyan-400 shadow-[0_0_20px_rgba(34,211,238,1)] z-20 animate-[scan_2s_ease-in-out_infinite]"></div>
+                  {isProcessing && <div className="absolute top-2 right-2 z-30 bg-slate-900/80 rounded-full p-2"><Loader2 className="animate-spin text-cyan-400" size={20} /></div>}
+                </CameraScanner>
               ) : (
                 <div className="w-full flex flex-col items-center py-8">
                    <div className="relative mb-6">
@@ -214,7 +345,7 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
                     </div>
                   </div>
                   <form onSubmit={handleBarcodeSubmit} className="w-full relative mt-4">
-                    <input ref={scanInputRef} type="text" value={barcodeInput} onChange={(e) => setBarcodeInput(e.target.value)} placeholder={isProcessing ? "Mohon Tunggu..." : "Menunggu Input USB..." } disabled={isProcessing} className="w-full px-4 py-4 bg-slate-950 border border-cyan-800 rounded-xl focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/20 focus:outline-none transition-all text-center text-lg font-mono text-cyan-300 placeholder-slate-700" autoFocus />
+                    <input ref={scanInputRef} type="text" value={barcodeInput} onChange={(e) => setBarcodeInput(e.target.value)} placeholder="Menunggu Input USB..." className="w-full px-4 py-4 bg-slate-950 border border-cyan-800 rounded-xl focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/20 focus:outline-none transition-all text-center text-lg font-mono text-cyan-300 placeholder-slate-700" autoFocus />
                   </form>
                 </div>
               )}
@@ -225,25 +356,39 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
 
       {mode === 'manual' && (
         <div className="relative">
-            <div className={`bg-slate-900/80 backdrop-blur-md rounded-2xl shadow-xl border overflow-hidden pb-4 transition-colors duration-500 ${isHaidMode ? 'border-pink-500/30' : 'border-white/10'}`}>
+            <div className={`bg-slate-900/80 backdrop-blur-md rounded-2xl shadow-xl border overflow-hidden pb-4 transition-colors duration-500 ${isDefaultMode ? 'border-white/10' : inputStatusInfo.badgeClass}`}>
             <div className="p-4 border-b border-white/5 bg-slate-950/50 sticky top-0 z-20 flex flex-col gap-3">
                 <div className="flex flex-col md:flex-row gap-3">
                     <div className="relative group flex-grow">
-                        <Search className={`absolute left-4 top-3.5 ${isHaidMode ? 'text-pink-400' : 'text-slate-500'}`} size={20} />
-                        <input type="text" placeholder={isHaidMode ? "Cari Siswi Putri..." : "Cari Hero (Siswa)..."} className="w-full pl-12 pr-10 py-3 bg-slate-900 border border-slate-700 rounded-xl outline-none text-slate-200" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} />
+                        <Search className={`absolute left-4 top-3.5 ${isDefaultMode ? 'text-slate-500' : inputStatusInfo.textClass}`} size={20} />
+                        <input type="text" placeholder={inputStatusInfo.femaleOnly ? "Cari Siswi Putri..." : "Cari Hero (Siswa)..."} className="w-full pl-12 pr-10 py-3 bg-slate-900 border border-slate-700 rounded-xl outline-none text-slate-200" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} />
                     </div>
                     <select value={manualClassFilter} onChange={(e) => setManualClassFilter(e.target.value)} className="pl-10 pr-4 py-3 bg-slate-900 border border-slate-700 text-slate-200 rounded-xl px-3 py-2 text-sm appearance-none cursor-pointer">
                         <option value="ALL">Semua Kelas</option>
                         {uniqueClasses.map((cls) => (<option key={cls} value={cls}>{cls}</option>))}
                     </select>
-                    <button onClick={() => { setIsHaidMode(!isHaidMode); setSelectedIds(new Set()); }} className={`px-4 py-2 rounded-xl text-xs font-bold border flex items-center gap-2 transition-all ${isHaidMode ? 'bg-pink-900/40 border-pink-500 text-pink-400 shadow-[0_0_15px_rgba(236,72,153,0.3)]' : 'bg-slate-900 border-slate-700 text-slate-500'}`}>
-                      <Droplets size={16} /> {isHaidMode ? 'MODE HAID ON' : 'INPUT HAID'}
-                    </button>
                 </div>
+                <div className="flex flex-wrap gap-1">
+                    {getManualStatuses().map(info => (
+                        <button
+                          key={info.id}
+                          onClick={() => { setInputStatus(info.id as Exclude<AttendanceStatus, 'LATE'>); setSelectedIds(new Set()); }}
+                          className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase border flex items-center gap-1.5 transition-all ${inputStatus === info.id ? info.badgeClass : 'bg-slate-900 border-slate-700 text-slate-500'}`}
+                        >
+                          <StatusIcon status={info.id} size={12} /> {info.label}
+                        </button>
+                    ))}
+                </div>
+                {inputStatusInfo.allowsNote && (
+                    <div className="relative">
+                        <MessageSquare className="absolute left-4 top-3 text-slate-500" size={16} />
+                        <input type="text" placeholder={`Keterangan ${inputStatusInfo.label} (opsional)`} className="w-full pl-11 pr-4 py-2.5 bg-slate-900 border border-slate-700 rounded-xl outline-none text-slate-200 text-sm" value={note} onChange={(e) => setNote(e.target.value)} />
+                    </div>
+                )}
                 {selectedIds.size > 0 && (
-                        <button onClick={handleBulkAttendance} disabled={isProcessing} className={`w-full text-white px-4 py-3 rounded-xl font-bold flex items-center justify-center gap-3 transition-all border ${isHaidMode ? 'bg-pink-600 hover:bg-pink-500' : 'bg-emerald-600 hover:bg-emerald-500'} disabled:opacity-50`}>
-                            {isProcessing ? <Loader2 className="animate-spin" size={20} /> : <CheckSquare size={20} />}
-                            {isHaidMode ? `Simpan Status HAID (${selectedIds.size})` : `Simpan Absensi (${selectedIds.size})`}
+                        <button onClick={handleBulkAttendance} className={`w-full text-white px-4 py-3 rounded-xl font-bold flex items-center justify-center gap-3 transition-all border ${isDefaultMode ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-slate-800 hover:bg-slate-700 ' + inputStatusInfo.textClass} disabled:opacity-50`}>
+                            <CheckSquare size={20} />
+                            {isDefaultMode ? `Simpan Absensi (${selectedIds.size})` : `Simpan Status ${inputStatusInfo.label.toUpperCase()} (${selectedIds.size})`}
                         </button>
                 )}
             </div>
@@ -252,16 +397,16 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
                     {filteredStudents.map((student) => {
                         const isSelected = selectedIds.has(student.id);
                         return (
-                            <li key={student.id} onClick={() => toggleSelection(student.id)} className={`p-4 rounded-xl border transition-all cursor-pointer flex items-center justify-between ${isSelected ? (isHaidMode ? 'bg-pink-900/20 border-pink-500' : 'bg-amber-900/20 border-amber-500') : 'bg-slate-800/50 border-transparent'}`}>
+                            <li key={student.id} onClick={() => toggleSelection(student.id)} className={`p-4 rounded-xl border transition-all cursor-pointer flex items-center justify-between ${isSelected ? (isDefaultMode ? 'bg-amber-900/20 border-amber-500' : inputStatusInfo.badgeClass) : 'bg-slate-800/50 border-transparent'}`}>
                                 <div className="flex items-center gap-4">
-                                    <div className={`w-6 h-6 rounded flex items-center justify-center border ${isSelected ? (isHaidMode ? 'bg-pink-500' : 'bg-amber-500') : 'bg-slate-900 border-slate-600'}`}>
+                                    <div className={`w-6 h-6 rounded flex items-center justify-center border ${isSelected ? (isDefaultMode ? 'bg-amber-500' : 'bg-slate-700 border-slate-500') : 'bg-slate-900 border-slate-600'}`}>
                                         {isSelected ? <Check size={16} strokeWidth={4} /> : null}
                                     </div>
                                     <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold text-sm border-2 ${student.gender === 'L' ? 'bg-blue-900/30 border-blue-500 text-blue-400' : 'bg-pink-900/30 border-pink-500 text-pink-400'}`}>
                                         {student.gender || '?'}
                                     </div>
                                     <div>
-                                        <p className={`font-bold font-gaming tracking-wide ${isSelected ? (isHaidMode ? 'text-pink-400' : 'text-amber-400') : 'text-slate-200'}`}>{student.name}</p>
+                                        <p className={`font-bold font-gaming tracking-wide ${isSelected ? (isDefaultMode ? 'text-amber-400' : inputStatusInfo.textClass) : 'text-slate-200'}`}>{student.name}</p>
                                         <div className="flex gap-2 text-[10px] text-slate-500 font-mono mt-0.5 uppercase tracking-tighter">
                                             ID: {student.id} | {student.className}
                                         </div>
@@ -275,6 +420,30 @@ const ScannerTab: React.FC<ScannerTabProps> = ({ students, records, onRecordUpda
             </div>
         </div>
       )}
+
+      <ScanQueueList items={scanQueue.items} onClear={scanQueue.clear} className="w-full max-w-lg mx-auto" />
+
+      <ScanSessionLog
+        sessionName={getSessionName(sessions, selectedSessionId)}
+        classCounts={classCounts}
+        myRecords={myRecords}
+        now={now}
+        undoMinutes={undoMinutes}
+        onUndo={canUndo ? handleUndo : undefined}
+        onShowSummary={() => setShowSummary(true)}
+      />
+
+      {showSummary && (
+        <SessionSummaryModal
+          sessionName={getSessionName(sessions, selectedSessionId)}
+          date={todayStr}
+          operatorName={currentUser}
+          myCount={myRecords.length}
+          classCounts={classCounts}
+          closed={sessionOver}
+          onClose={() => setShowSummary(false)}
+        />
+      )}
       <style>{`
         @keyframes scan { 0% { top: 10%; opacity: 0; } 50% { opacity: 1; } 100% { top: 90%; opacity: 0; } }
       `}</style>
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Save, Timer, QrCode } from 'lucide-react';
+import { CardSettings, SessionPolicy } from '../types';
+import { saveSessionPolicy } from '../services/authSessionService';
+import { saveCardSettings } from '../services/cardService';
+import { useSetting } from '../hooks/useSetting';
+import { DEFAULT_SESSION_POLICY, LEGACY_CARD_GRACE_DAYS, SETTING_KEYS } from '../constants';
+
+const SecuritySettings: React.FC = () => {
+  const savedPolicy = useSetting(SETTING_KEYS.SESSION_POLICY, DEFAULT_SESSION_POLICY);
+  const [policy, setPolicy] = useState<SessionPolicy>(savedPolicy);
+  const savedCardSettings = useSetting<CardSettings>(SETTING_KEYS.CARD_SETTINGS, {});
+  const cardPublicKey = useSetting<JsonWebKey | null>(SETTING_KEYS.CARD_PUBLIC_KEY, null);
+  const [legacyUntil, setLegacyUntil] = useState(savedCardSettings.legacyUntil || '');
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (isDirty) return;
+    setPolicy(savedPolicy);
+    setLegacyUntil(savedCardSettings.legacyUntil || '');
+  }, [savedPolicy, savedCardSettings, isDirty]);
+
+  const updatePolicy = (changes: Partial<SessionPolicy>) => {
+    setPolicy({ ...policy, ...changes });
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    saveSessionPolicy(policy);
+    if (legacyUntil !== (savedCardSettings.legacyUntil || '')) {
+      saveCardSettings({ legacyUntil: legacyUntil || undefined });
+    }
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <Timer className="text-cyan-400" /> BATAS SESI
+        </h3>
+        <button onClick={handleSave} disabled={!isDirty} className="bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+          <Save size={14} /> Simpan
+        </button>
+      </div>
+
+      <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-cyan-400 uppercase">Kunci Layar Setelah Diam (menit)</label>
+          <input type="number" min={0} value={policy.idleMinutes} onChange={e => updatePolicy({ idleMinutes: Math.max(0, Number(e.target.value)) })} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+          <p className="text-[10px] text-slate-500">Staf harus memasukkan PIN/password; wali murid langsung keluar.</p>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-cyan-400 uppercase">Wajib Login Ulang Setelah (jam)</label>
+          <input type="number" min={0} value={policy.maxHours} onChange={e => updatePolicy({ maxHours: Math.max(0, Number(e.target.value)) })} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+          <p className="text-[10px] text-slate-500">Dihitung sejak login atau ganti petugas.</p>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-500">Isi 0 untuk tanpa batas. Scan yang berhasil dihitung sebagai aktivitas, jadi layar tidak terkunci saat antrean scan berjalan.</p>
+
+      <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2 pt-4">
+        <QrCode className="text-cyan-400" /> KARTU SISWA
+      </h3>
+      <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 space-y-1">
+        <label className="text-[10px] font-bold text-cyan-400 uppercase">Kartu Lama (QR NIS Polos) Diterima Sampai</label>
+        <input type="date" value={legacyUntil} onChange={e => { setLegacyUntil(e.target.value); setIsDirty(true); }} className="w-full md:w-64 p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+        <p className="text-[10px] text-slate-500">
+          {cardPublicKey
+            ? 'Kosongkan untuk langsung menolak kartu lama. Kartu bertanda tangan selalu diterima selama masih aktif.'
+            : `Kartu bertanda tangan belum pernah dicetak, jadi kartu lama masih diterima. Saat kartu baru pertama dicetak, tanggal otomatis diisi ${LEGACY_CARD_GRACE_DAYS} hari ke depan bila masih kosong.`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySettings;
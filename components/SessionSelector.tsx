@@ -0,0 +1,29 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { PrayerSession } from '../types';
+
+interface SessionSelectorProps {
+  sessions: PrayerSession[];
+  value: string;
+  onChange: (sessionId: string) => void;
+  className?: string;
+}
+
+const SessionSelector: React.FC<SessionSelectorProps> = ({ sessions, value, onChange, className = '' }) => (
+  <div className={`relative ${className}`}>
+    <Clock className="absolute left-3 top-2.5 text-slate-500 pointer-events-none" size={14} />
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full appearance-none bg-slate-950 border border-slate-700 text-slate-200 pl-9 pr-4 py-2 rounded-lg text-xs font-bold uppercase focus:border-amber-500 outline-none cursor-pointer hover:bg-slate-900 transition-colors"
+    >
+      {sessions.map(session => (
+        <option key={session.id} value={session.id}>
+          {session.name} ({session.startTime}-{session.endTime})
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default SessionSelector;
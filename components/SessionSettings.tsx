@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Clock, Undo2 } from 'lucide-react';
+import { PrayerSession } from '../types';
+import { savePrayerSessions } from '../services/sessionService';
+import { saveSetting } from '../services/settingsService';
+import { useSetting } from '../hooks/useSetting';
+import { DEFAULT_PRAYER_SESSIONS, DEFAULT_SCAN_UNDO_MINUTES, SETTING_KEYS } from '../constants';
+
+const DAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+const SessionSettings: React.FC = () => {
+  const savedSessions = useSetting(SETTING_KEYS.PRAYER_SESSIONS, DEFAULT_PRAYER_SESSIONS);
+  const [sessions, setSessions] = useState<PrayerSession[]>(savedSessions);
+  const savedUndoMinutes = useSetting(SETTING_KEYS.SCAN_UNDO_MINUTES, DEFAULT_SCAN_UNDO_MINUTES);
+  const [undoMinutes, setUndoMinutes] = useState(savedUndoMinutes);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (isDirty) return;
+    setSessions(savedSessions);
+    setUndoMinutes(savedUndoMinutes);
+  }, [savedSessions, savedUndoMinutes, isDirty]);
+
+  const updateSession = (index: number, changes: Partial<PrayerSession>) => {
+    setSessions(sessions.map((s, i) => i === index ? { ...s, ...changes } : s));
+    setIsDirty(true);
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = sessions[index].days;
+    updateSession(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const handleAdd = () => {
+    setSessions([...sessions, { id: '', name: '', startTime: '12:00', endTime: '12:30', graceMinutes: 15, days: [1, 2, 3, 4, 5] }]);
+    setIsDirty(true);
+  };
+
+  const handleRemove = (index: number) => {
+    if (!confirm('Hapus sesi ini? Record lama dengan sesi ini tetap tersimpan.')) return;
+    setSessions(sessions.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (sessions.some(s => !s.name.trim())) {
+      alert('Nama sesi wajib diisi.');
+      return;
+    }
+    // ID dibuat dari nama saat sesi baru disimpan, lalu tidak berubah lagi
+    const finalSessions = sessions.map(s => ({
+      ...s,
+      name: s.name.trim(),
+      id: s.id || s.name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_')
+    }));
+    if (new Set(finalSessions.map(s => s.id)).size !== finalSessions.length) {
+      alert('Nama sesi tidak boleh kembar.');
+      return;
+    }
+    savePrayerSessions(finalSessions);
+    if (undoMinutes !== savedUndoMinutes) saveSetting(SETTING_KEYS.SCAN_UNDO_MINUTES, undoMinutes);
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <Clock className="text-cyan-400" /> SESI SHOLAT
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={handleAdd} className="bg-slate-800 text-cyan-400 border border-cyan-500/30 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-cyan-900/30 transition-all">
+            <Plus size={14} /> Tambah
+          </button>
+          <button onClick={handleSave} disabled={!isDirty} className="bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+            <Save size={14} /> Simpan
+          </button>
+        </div>
+      </div>
+
+      {sessions.map((session, index) => (
+        <div key={session.id || `new-${index}`} className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto_auto] gap-3 items-end">
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-cyan-400 uppercase">Nama Sesi</label>
+              <input type="text" value={session.name} onChange={e => updateSession(index, { name: e.target.value })} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-cyan-400 uppercase">Scan Dibuka</label>
+              <input type="time" value={session.startTime} onChange={e => updateSession(index, { startTime: e.target.value })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-cyan-400 uppercase">Tepat Waktu s/d</label>
+              <input type="time" value={session.endTime} onChange={e => updateSession(index, { endTime: e.target.value })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-orange-400 uppercase">Terlambat (menit)</label>
+              <input type="number" min={0} value={session.graceMinutes || 0} onChange={e => updateSession(index, { graceMinutes: Math.max(0, Number(e.target.value)) })} className="w-28 p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+            </div>
+            <button onClick={() => handleRemove(index)} className="p-2.5 text-slate-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all" title="Hapus Sesi">
+              <Trash2 size={18} />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {DAY_LABELS.map((label, day) => (
+              <button
+                key={day}
+                onClick={() => toggleDay(index, day)}
+                className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase border transition-all ${session.days.includes(day) ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30' : 'bg-slate-900 text-slate-500 border-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="bg-slate-800/40 border border-slate-700 rounded-xl p-4 space-y-1">
+        <label className="text-[10px] font-bold text-cyan-400 uppercase flex items-center gap-1.5"><Undo2 size={12} /> Batal Scan Dalam (menit)</label>
+        <input type="number" min={0} value={undoMinutes} onChange={e => { setUndoMinutes(Math.max(0, Number(e.target.value))); setIsDirty(true); }} className="w-28 p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+        <p className="text-[10px] text-slate-500">Petugas bisa membatalkan scan miliknya sendiri dari log scanner selama waktu ini. Isi 0 untuk mematikan.</p>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSettings;
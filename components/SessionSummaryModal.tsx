@@ -0,0 +1,67 @@
+import React from 'react';
+import { X, ListChecks } from 'lucide-react';
+import { ClassCount } from './ScanSessionLog';
+
+interface SessionSummaryModalProps {
+  sessionName: string;
+  date: string;
+  operatorName: string;
+  myCount: number;
+  classCounts: ClassCount[];
+  closed: boolean; // Jendela scan sesi sudah lewat
+  onClose: () => void;
+}
+
+// Ringkasan sesi untuk petugas; muncul otomatis saat jendela scan ditutup
+const SessionSummaryModal: React.FC<SessionSummaryModalProps> = ({ sessionName, date, operatorName, myCount, classCounts, closed, onClose }) => {
+  const total = classCounts.reduce((sum, c) => sum + c.total, 0);
+  const recorded = classCounts.reduce((sum, c) => sum + c.recorded, 0);
+  const late = classCounts.reduce((sum, c) => sum + c.late, 0);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/95 z-[60] backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-slate-800 border border-white/10 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2"><ListChecks size={20} /> {closed ? 'SESI DITUTUP' : 'RINGKASAN SESI'}</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white"><X size={20} /></button>
+        </div>
+        <p className="text-[10px] text-slate-500 uppercase tracking-widest">Sholat {sessionName} · {date}</p>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-3">
+            <p className="text-2xl font-bold text-cyan-400 font-mono">{recorded}<span className="text-xs text-slate-500">/{total}</span></p>
+            <p className="text-[10px] text-slate-500 uppercase">Tercatat</p>
+          </div>
+          <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-3">
+            <p className="text-2xl font-bold text-orange-400 font-mono">{late}</p>
+            <p className="text-[10px] text-slate-500 uppercase">Terlambat</p>
+          </div>
+          <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-3">
+            <p className="text-2xl font-bold text-amber-400 font-mono">{myCount}</p>
+            <p className="text-[10px] text-slate-500 uppercase truncate">Oleh {operatorName}</p>
+          </div>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-[10px] text-cyan-400 uppercase">
+              <tr><th className="text-left py-1">Kelas</th><th className="text-right">Tercatat</th><th className="text-right">Terlambat</th><th className="text-right">Belum</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50 text-slate-300">
+              {classCounts.map(c => (
+                <tr key={c.className}>
+                  <td className="py-1.5 font-bold">{c.className}</td>
+                  <td className="text-right font-mono">{c.recorded}/{c.total}</td>
+                  <td className="text-right font-mono text-orange-400">{c.late}</td>
+                  <td className={`text-right font-mono ${c.total - c.recorded > 0 ? 'text-red-400' : 'text-slate-600'}`}>{Math.max(0, c.total - c.recorded)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSummaryModal;
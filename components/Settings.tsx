@@ -0,0 +1,61 @@
+import React, { useState, useMemo } from 'react';
+import { Clock, CalendarDays, GraduationCap, Users, ShieldCheck, History, Timer } from 'lucide-react';
+import { Student } from '../types';
+import SessionSettings from './SessionSettings';
+import CalendarSettings from './CalendarSettings';
+import AcademicSettings from './AcademicSettings';
+import StaffSettings from './StaffSettings';
+import PermissionSettings from './PermissionSettings';
+import SecuritySettings from './SecuritySettings';
+import AuditLog from './AuditLog';
+
+type SettingsSection = 'sessions' | 'calendar' | 'academic' | 'staff' | 'permissions' | 'security' | 'audit';
+
+interface SettingsProps {
+  students: Student[];
+  currentUser: string;
+  onRecordUpdate: () => void;
+}
+
+const Settings: React.FC<SettingsProps> = ({ students, currentUser, onRecordUpdate }) => {
+  const [section, setSection] = useState<SettingsSection>('sessions');
+  const classNames = useMemo(() => Array.from(new Set(students.map(s => s.className))).sort(), [students]);
+
+  const sections: { id: SettingsSection; label: string; icon: React.ReactNode }[] = [
+    { id: 'sessions', label: 'Sesi Sholat', icon: <Clock size={16} /> },
+    { id: 'calendar', label: 'Kalender', icon: <CalendarDays size={16} /> },
+    { id: 'academic', label: 'Tahun Pelajaran', icon: <GraduationCap size={16} /> },
+    { id: 'staff', label: 'Staf', icon: <Users size={16} /> },
+    { id: 'permissions', label: 'Hak Akses', icon: <ShieldCheck size={16} /> },
+    { id: 'security', label: 'Keamanan', icon: <Timer size={16} /> },
+    { id: 'audit', label: 'Riwayat', icon: <History size={16} /> },
+  ];
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex bg-slate-900 p-1.5 rounded-xl border border-white/10 w-full mx-auto shadow-xl overflow-x-auto no-scrollbar">
+        {sections.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setSection(tab.id)}
+            className={`flex-1 min-w-[100px] py-2 text-xs font-bold rounded-lg transition-all flex items-center justify-center gap-2 uppercase tracking-wide whitespace-nowrap ${section === tab.id ? 'bg-gradient-to-br from-amber-500 to-amber-700 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            {tab.icon} <span>{tab.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-slate-900/80 backdrop-blur-md p-6 rounded-2xl shadow-2xl border border-white/5">
+        {section === 'sessions' && <SessionSettings />}
+        {section === 'calendar' && <CalendarSettings />}
+        {section === 'academic' && <AcademicSettings />}
+        {section === 'staff' && <StaffSettings classNames={classNames} />}
+        {section === 'permissions' && <PermissionSettings />}
+        {section === 'security' && <SecuritySettings />}
+        {section === 'audit' && <AuditLog currentUser={currentUser} onRecordUpdate={onRecordUpdate} />}
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
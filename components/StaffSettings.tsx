@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Save, Users, RotateCcw } from 'lucide-react';
+import { CredentialStatus, StaffMember, StaffRole } from '../types';
+import { saveStaff } from '../services/staffService';
+import { getCredentialStatus, resetPassword } from '../services/authService';
+import { useSetting } from '../hooks/useSetting';
+import { ADMIN_USERNAME, DEFAULT_STAFF, SETTING_KEYS, STAFF_ROLE_LABELS } from '../constants';
+
+interface StaffSettingsProps {
+  classNames: string[];
+}
+
+const StaffSettings: React.FC<StaffSettingsProps> = ({ classNames }) => {
+  const savedStaff = useSetting(SETTING_KEYS.STAFF, DEFAULT_STAFF);
+  // Status password diambil dari server (kredensial tidak pernah dikirim ke perangkat)
+  const [credentials, setCredentials] = useState<Record<string, CredentialStatus>>({});
+  const [statusError, setStatusError] = useState('');
+  const [staff, setStaff] = useState<StaffMember[]>(savedStaff);
+  const [isDirty, setIsDirty] = useState(false);
+  // Password sementara hanya ditampilkan sekali, setelah itu yang tersimpan hanya hash-nya
+  const [issued, setIssued] = useState<{ name: string; password: string } | null>(null);
+
+  useEffect(() => {
+    if (!isDirty) setStaff(savedStaff);
+  }, [savedStaff, isDirty]);
+
+  const loadCredentials = async () => {
+    const result = await getCredentialStatus();
+    setStatusError(result.success ? '' : result.message);
+    if (result.credentials) setCredentials(result.credentials);
+  };
+
+  useEffect(() => {
+    loadCredentials();
+  }, []);
+
+  const updateMember = (id: string, changes: Partial<StaffMember>) => {
+    setStaff(staff.map(s => s.id === id ? { ...s, ...changes } : s));
+    setIsDirty(true);
+  };
+
+  const toggleClass = (member: StaffMember, className: string) => {
+    const classes = member.classes.includes(className)
+      ? member.classes.filter(c => c !== className)
+      : [...member.classes, className];
+    updateMember(member.id, { classes });
+  };
+
+  const handleAdd = () => {
+    setStaff([...staff, { id: crypto.randomUUID(), name: '', role: 'TEACHER', classes: [], active: true }]);
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    const finalStaff = staff.map(s => ({ ...s, name: s.name.trim() }));
+    if (finalStaff.some(s => !s.name)) {
+      alert('Nama staf wajib diisi.');
+      return;
+    }
+    const names = finalStaff.map(s => s.name.toUpperCase());
+    if (new Set(names).size !== names.length || names.includes(ADMIN_USERNAME)) {
+      alert('Nama staf tidak boleh kembar.');
+      return;
+    }
+    if (finalStaff.some(s => s.role === 'HOMEROOM' && s.classes.length === 0)) {
+      alert('Wali kelas harus punya minimal satu kelas.');
+      return;
+    }
+    saveStaff(finalStaff);
+    setIsDirty(false);
+  };
+
+  const handleReset = async (member: StaffMember) => {
+    const action = credentials[member.id] ? 'Reset password' : 'Aktifkan akun';
+    if (!confirm(`${action} ${member.name}? Password sementara akan dibuat dan wajib diganti saat login.`)) return;
+    const result = await resetPassword(member.id);
+    if (!result.password) {
+      alert(result.message);
+      return;
+    }
+    setIssued({ name: member.name, password: result.password });
+    loadCredentials();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-amber-400 font-gaming flex items-center gap-2">
+          <Users className="text-cyan-400" /> DAFTAR STAF
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={handleAdd} className="bg-slate-800 text-cyan-400 border border-cyan-500/30 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-cyan-900/30 transition-all">
+            <Plus size={14} /> Tambah
+          </button>
+          <button onClick={handleSave} disabled={!isDirty} className="bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-amber-500 transition-all disabled:opacity-40">
+            <Save size={14} /> Simpan
+          </button>
+        </div>
+      </div>
+
+      {statusError && (
+        <div className="bg-red-900/20 border border-red-500/50 text-red-200 text-xs p-3 rounded-lg">Status password tidak bisa dimuat: {statusError}</div>
+      )}
+
+      {issued && (
+        <div className="bg-amber-900/20 border border-amber-500/40 rounded-xl p-4 space-y-1">
+          <p className="text-xs text-slate-300">Password sementara untuk <b>{issued.name}</b>:</p>
+          <p className="text-2xl font-mono font-bold text-amber-400 tracking-widest select-all">{issued.password}</p>
+          <p className="text-[10px] text-slate-500">Catat dan berikan langsung ke yang bersangkutan. Password ini tidak akan ditampilkan lagi.</p>
+        </div>
+      )}
+
+      {staff.map(member => {
+        const credential = credentials[member.id];
+        const isSaved = savedStaff.some(s => s.id === member.id);
+        return (
+          <div key={member.id} className={`bg-slate-800/40 border border-slate-700 rounded-xl p-4 space-y-3 ${member.active ? '' : 'opacity-50'}`}>
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3 items-end">
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-cyan-400 uppercase">Nama</label>
+                <input type="text" value={member.name} onChange={e => updateMember(member.id, { name: e.target.value })} className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-cyan-400 uppercase">Peran</label>
+                <select value={member.role} onChange={e => updateMember(member.id, { role: e.target.value as StaffRole })} className="p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 text-sm outline-none focus:border-amber-500">
+                  {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                    <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={() => updateMember(member.id, { active: !member.active })}
+                className={`px-3 py-2.5 rounded-lg text-[10px] font-bold uppercase border transition-all ${member.active ? 'bg-green-500/10 text-green-400 border-green-500/30' : 'bg-slate-900 text-slate-500 border-slate-700'}`}
+              >
+                {member.active ? 'Aktif' : 'Nonaktif'}
+              </button>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-cyan-400 uppercase">Kelas</label>
+              <div className="flex flex-wrap gap-1">
+                {classNames.map(className => (
+                  <button
+                    key={className}
+                    onClick={() => toggleClass(member, className)}
+                    className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase border transition-all ${member.classes.includes(className) ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30' : 'bg-slate-900 text-slate-500 border-slate-700'}`}
+                  >
+                    {className}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className={`text-[10px] font-bold uppercase ${!credential ? 'text-slate-500' : credential.mustChangePassword ? 'text-amber-400' : 'text-green-400'}`}>
+                {!credential ? 'Password belum diatur' : credential.mustChangePassword ? 'Menunggu ganti password' : 'Password aktif'}
+              </span>
+              <button
+                onClick={() => handleReset(member)}
+                disabled={!isSaved}
+                title={isSaved ? '' : 'Simpan daftar staf terlebih dahulu'}
+                className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase border bg-slate-900 text-cyan-400 border-cyan-500/30 hover:bg-cyan-900/30 transition-all flex items-center gap-1.5 disabled:opacity-40"
+              >
+                <RotateCcw size={12} /> {credential ? 'Reset Password' : 'Buat Password'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StaffSettings;
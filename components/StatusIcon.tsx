@@ -0,0 +1,27 @@
+import React from 'react';
+import { CheckCircle2, AlarmClock, Droplets, FileCheck, Thermometer, XCircle } from 'lucide-react';
+import { AttendanceStatus } from '../types';
+import { getStatusInfo } from '../services/statusService';
+
+const ICONS: Record<AttendanceStatus, React.ElementType> = {
+  PRESENT: CheckCircle2,
+  LATE: AlarmClock,
+  HAID: Droplets,
+  IZIN: FileCheck,
+  SAKIT: Thermometer,
+  ALPHA: XCircle
+};
+
+interface StatusIconProps {
+  status: AttendanceStatus;
+  size?: number;
+  className?: string;
+}
+
+// Ikon status berwarna sesuai registry; className menimpa warna bawaan
+const StatusIcon: React.FC<StatusIconProps> = ({ status, size = 14, className }) => {
+  const Icon = ICONS[status] || CheckCircle2;
+  return <Icon size={size} className={className ?? getStatusInfo(status).textClass} />;
+};
+
+export default StatusIcon;
@@ -1,26 +1,51 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { Student } from '../types';
-import { UserPlus, Trash2, Users, QrCode, Save, Upload, Edit, X, Loader2, Phone, User as UserIcon } from 'lucide-react';
+import { UserPlus, Trash2, Users, QrCode, Save, Upload, Edit, X, Loader2, Phone, User as UserIcon, GraduationCap, KeyRound, CreditCard, RefreshCw, Check, ImagePlus, Camera } from 'lucide-react';
 import { saveStudents } from '../services/storageService';
+import { PermissionCheck } from '../hooks/usePermission';
+import { isActiveStudent } from '../services/promotionService';
+import { replaceCards } from '../services/cardService';
+import { saveStudentPhoto, deleteStudentPhoto, importPhotosFromZip } from '../services/photoService';
 import CardGenerator from './CardGenerator';
+import PromotionWizard from './PromotionWizard';
+import ParentAccessModal from './ParentAccessModal';
+import CardRegistryModal from './CardRegistryModal';
+import StudentPhoto from './StudentPhoto';
 import * as XLSX from 'xlsx';
 
 interface StudentListProps {
   students: Student[];
   setStudents: React.Dispatch<React.SetStateAction<Student[]>>;
+  can: PermissionCheck;
 }
 
-const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
+const StudentList: React.FC<StudentListProps> = ({ students, setStudents, can }) => {
   const [isAdding, setIsAdding] = useState(false);
-  const [showCardGenerator, setShowCardGenerator] = useState(false);
+  // Siswa yang kartunya sedang dicetak (null = generator tertutup)
+  const [cardTargets, setCardTargets] = useState<Student[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [registryStudent, setRegistryStudent] = useState<Student | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [showPromotionWizard, setShowPromotionWizard] = useState(false);
+  const [showAlumni, setShowAlumni] = useState(false);
+  const [accessStudent, setAccessStudent] = useState<Student | null>(null);
+
+  const activeStudents = useMemo(() => students.filter(isActiveStudent), [students]);
+  const alumniCount = students.length - activeStudents.length;
+  const visibleStudents = showAlumni ? students : activeStudents;
+  const selectedStudents = useMemo(() => activeStudents.filter(s => selectedIds.has(s.id)), [activeStudents, selectedIds]);
   
   const [newStudent, setNewStudent] = useState<Partial<Student>>({ className: 'IX A', gender: 'L', parentPhone: '', name: '', id: '' });
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Student | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  // NIS siswa yang fotonya sedang dipilih lewat photoInputRef
+  const photoTargetRef = useRef<string | null>(null);
+  const [isImportingPhotos, setIsImportingPhotos] = useState(false);
 
   const performSync = async (updatedList: Student[]) => {
     setIsSaving(true);
@@ -64,9 +89,69 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
     if (confirm('Konfirmasi Hapus: Apakah Anda yakin?')) {
       const updatedStudents = students.filter(s => s.id !== id);
       await performSync(updatedStudents);
+      deleteStudentPhoto(id);
+    }
+  };
+
+  const pickPhoto = (studentId: string) => {
+    photoTargetRef.current = studentId;
+    photoInputRef.current?.click();
+  };
+
+  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const studentId = photoTargetRef.current;
+    if (photoInputRef.current) photoInputRef.current.value = '';
+    if (!file || !studentId) return;
+    try {
+      await saveStudentPhoto(studentId, file);
+    } catch (error) {
+      alert("Gagal membaca foto. Gunakan file JPG atau PNG.");
+    }
+  };
+
+  const handleRemovePhoto = async (student: Student) => {
+    if (!confirm(`Hapus foto ${student.name}?`)) return;
+    await deleteStudentPhoto(student.id);
+  };
+
+  // Foto massal: ZIP berisi file bernama NIS, dikirim ke server di belakang
+  const handleZipUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (zipInputRef.current) zipInputRef.current.value = '';
+    if (!file) return;
+
+    setIsImportingPhotos(true);
+    try {
+      const result = await importPhotosFromZip(file, students);
+      const notes = [
+        result.unknown.length > 0 && `${result.unknown.length} file tidak cocok dengan NIS: ${result.unknown.slice(0, 10).join(', ')}${result.unknown.length > 10 ? ', ...' : ''}`,
+        result.failed.length > 0 && `${result.failed.length} gambar gagal dibaca: ${result.failed.slice(0, 10).join(', ')}`
+      ].filter(Boolean);
+      alert([`${result.imported} foto siswa tersimpan dan dikirim ke server.`, ...notes].join('\n'));
+    } catch (error) {
+      alert("Gagal membaca file ZIP.");
+    } finally {
+      setIsImportingPhotos(false);
     }
   };
 
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  // Kartu lama langsung dicabut, lalu generator mencetak kartu baru hanya untuk siswa terpilih
+  const handleReplaceCards = (targets: Student[]) => {
+    if (!confirm(`Cetak kartu pengganti untuk ${targets.length} siswa? Kartu lama mereka langsung tidak berlaku.`)) return;
+    replaceCards(targets.map(s => s.id));
+    setRegistryStudent(null);
+    setSelectedIds(new Set());
+    setCardTargets(targets);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -128,7 +213,7 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
           )}
           <h2 className="text-xl font-bold text-amber-500 flex items-center gap-3 font-gaming">
             <Users className="text-cyan-400" />
-            HERO ROSTER <span className="text-slate-500 text-sm font-sans font-normal ml-2">({students.length})</span>
+            HERO ROSTER <span className="text-slate-500 text-sm font-sans font-normal ml-2">({activeStudents.length})</span>
           </h2>
           
           <div className="flex flex-wrap gap-2 w-full xl:w-auto">
@@ -136,8 +221,26 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
              <button onClick={() => fileInputRef.current?.click()} className="flex-1 sm:flex-none bg-slate-800 text-blue-400 border border-blue-500/30 px-3 py-2 rounded-lg text-xs font-bold hover:bg-blue-900/30 transition-all flex items-center justify-center gap-2">
                 <Upload size={16} /> Import
              </button>
-             <button onClick={() => setShowCardGenerator(true)} className="flex-1 sm:flex-none bg-slate-800 text-cyan-400 border border-cyan-500/50 px-3 py-2 rounded-lg text-xs font-bold hover:bg-cyan-900/50 transition-all flex items-center justify-center gap-2">
-                <QrCode size={16} /> Cards
+             <input type="file" ref={zipInputRef} onChange={handleZipUpload} accept=".zip" className="hidden" />
+             <input type="file" ref={photoInputRef} onChange={handlePhotoUpload} accept="image/*" className="hidden" />
+             <button onClick={() => zipInputRef.current?.click()} disabled={isImportingPhotos} title="ZIP berisi foto bernama NIS, mis. 2024001.jpg" className="flex-1 sm:flex-none bg-slate-800 text-purple-400 border border-purple-500/30 px-3 py-2 rounded-lg text-xs font-bold hover:bg-purple-900/30 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                {isImportingPhotos ? <Loader2 size={16} className="animate-spin" /> : <ImagePlus size={16} />} Foto ZIP
+             </button>
+             <button onClick={() => setShowPromotionWizard(true)} className="flex-1 sm:flex-none bg-slate-800 text-amber-400 border border-amber-500/30 px-3 py-2 rounded-lg text-xs font-bold hover:bg-amber-900/30 transition-all flex items-center justify-center gap-2">
+                <GraduationCap size={16} /> Kenaikan Kelas
+             </button>
+             {alumniCount > 0 && (
+               <button onClick={() => setShowAlumni(!showAlumni)} className={`flex-1 sm:flex-none px-3 py-2 rounded-lg text-xs font-bold border transition-all flex items-center justify-center gap-2 ${showAlumni ? 'bg-slate-700 text-slate-200 border-slate-500' : 'bg-slate-800 text-slate-500 border-slate-700'}`}>
+                  Alumni ({alumniCount})
+               </button>
+             )}
+             {selectedStudents.length > 0 && (
+               <button onClick={() => handleReplaceCards(selectedStudents)} className="flex-1 sm:flex-none bg-slate-800 text-orange-400 border border-orange-500/30 px-3 py-2 rounded-lg text-xs font-bold hover:bg-orange-900/30 transition-all flex items-center justify-center gap-2">
+                  <RefreshCw size={16} /> Pengganti ({selectedStudents.length})
+               </button>
+             )}
+             <button onClick={() => setCardTargets(selectedStudents.length > 0 ? selectedStudents : activeStudents)} className="flex-1 sm:flex-none bg-slate-800 text-cyan-400 border border-cyan-500/50 px-3 py-2 rounded-lg text-xs font-bold hover:bg-cyan-900/50 transition-all flex items-center justify-center gap-2">
+                <QrCode size={16} /> Cards{selectedStudents.length > 0 && ` (${selectedStudents.length})`}
              </button>
              <button onClick={() => setIsAdding(!isAdding)} className="flex-1 sm:flex-none bg-amber-600 text-slate-900 px-4 py-2 rounded-lg text-xs font-bold hover:bg-amber-500 transition-all flex items-center justify-center gap-2 uppercase tracking-wide">
                 {isAdding ? <X size={16} /> : <UserPlus size={16} />} {isAdding ? 'Cancel' : 'Add Hero'}
@@ -182,7 +285,7 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
         )}
 
         <div className="grid grid-cols-1 gap-4">
-          {students.map((student) => {
+          {visibleStudents.map((student) => {
             const isEditing = editingId === student.id;
             
             if (isEditing && editForm) {
@@ -218,6 +321,16 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
                           <label className="text-[10px] font-bold text-green-400 uppercase">No WA Orang Tua</label>
                           <input type="text" className="w-full p-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-200 focus:border-green-500" value={editForm.parentPhone || ''} onChange={e => setEditForm({...editForm, parentPhone: e.target.value})} />
                        </div>
+                       <div className="md:col-span-2 flex items-center gap-4">
+                          <StudentPhoto studentId={student.id} className="w-16 h-20 rounded-lg border border-slate-600" fallback={<div className="w-16 h-20 rounded-lg border border-dashed border-slate-600 flex items-center justify-center text-slate-600"><UserIcon size={24} /></div>} />
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-bold text-purple-400 uppercase block">Foto</label>
+                            <div className="flex gap-2">
+                              <button type="button" onClick={() => pickPhoto(student.id)} className="bg-slate-800 text-purple-400 border border-purple-500/30 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2"><Camera size={14} /> Unggah</button>
+                              <button type="button" onClick={() => handleRemovePhoto(student)} className="bg-slate-800 text-red-400 border border-red-500/30 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2"><Trash2 size={14} /> Hapus</button>
+                            </div>
+                          </div>
+                       </div>
                     </div>
                     
                     <div className="flex gap-3 pt-2">
@@ -235,14 +348,26 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
               <div key={student.id} className="group relative bg-slate-800/40 border border-slate-700 hover:border-amber-500/50 rounded-xl p-4 transition-all duration-300">
                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                   <div className="flex items-center gap-4">
-                    <div className={`w-14 h-14 rounded-xl flex items-center justify-center border-2 shrink-0 ${student.gender === 'L' ? 'bg-blue-950 border-blue-600 text-blue-400 shadow-[0_0_10px_rgba(37,99,235,0.2)]' : 'bg-pink-950 border-pink-600 text-pink-400 shadow-[0_0_10px_rgba(219,39,119,0.2)]'}`}>
-                      <UserIcon size={24} />
-                    </div>
+                    {isActiveStudent(student) && (
+                      <button
+                        onClick={() => toggleSelected(student.id)}
+                        title="Pilih untuk cetak kartu"
+                        className={`w-6 h-6 rounded flex items-center justify-center border shrink-0 ${selectedIds.has(student.id) ? 'bg-cyan-500 border-cyan-400 text-slate-900' : 'bg-slate-900 border-slate-600'}`}
+                      >
+                        {selectedIds.has(student.id) && <Check size={16} strokeWidth={4} />}
+                      </button>
+                    )}
+                    <button onClick={() => pickPhoto(student.id)} title="Unggah foto" className={`w-14 h-14 rounded-xl flex items-center justify-center border-2 shrink-0 overflow-hidden ${student.gender === 'L' ? 'bg-blue-950 border-blue-600 text-blue-400 shadow-[0_0_10px_rgba(37,99,235,0.2)]' : 'bg-pink-950 border-pink-600 text-pink-400 shadow-[0_0_10px_rgba(219,39,119,0.2)]'}`}>
+                      <StudentPhoto studentId={student.id} className="w-full h-full" fallback={<UserIcon size={24} />} />
+                    </button>
                     <div className="min-w-0">
                       <h4 className="font-bold text-slate-200 group-hover:text-amber-400 text-lg leading-tight truncate">{student.name}</h4>
                       <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500 mt-1 font-mono uppercase">
                         <span className="text-cyan-500 font-bold">ID: {student.id}</span>
                         <span>KELAS: {student.className}</span>
+                        {!isActiveStudent(student) && (
+                          <span className="text-amber-400 font-bold">LULUS {student.graduatedAt}</span>
+                        )}
                         {student.parentPhone && (
                           <span className="text-green-500 flex items-center gap-1">
                             <Phone size={10} /> {student.parentPhone}
@@ -252,6 +377,20 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
                     </div>
                   </div>
                   <div className="flex gap-2 self-end sm:self-center">
+                      <button 
+                        onClick={() => setRegistryStudent(student)} 
+                        title="Riwayat & Status Kartu"
+                        className="flex items-center gap-2 bg-slate-900 border border-slate-700 px-3 py-2 rounded-lg text-xs font-bold text-slate-300 hover:bg-slate-500/10 hover:border-slate-400 transition-all"
+                      >
+                        <CreditCard size={14} /> KARTU
+                      </button>
+                      <button 
+                        onClick={() => setAccessStudent(student)} 
+                        title="Kode Akses Wali Murid"
+                        className="flex items-center gap-2 bg-slate-900 border border-slate-700 px-3 py-2 rounded-lg text-xs font-bold text-cyan-400 hover:bg-cyan-500/10 hover:border-cyan-500 transition-all"
+                      >
+                        <KeyRound size={14} /> WALI
+                      </button>
                       <button 
                         onClick={() => startEditing(student)} 
                         className="flex items-center gap-2 bg-slate-900 border border-slate-700 px-4 py-2 rounded-lg text-xs font-bold text-amber-500 hover:bg-amber-500/10 hover:border-amber-500 transition-all"
@@ -271,7 +410,10 @@ const StudentList: React.FC<StudentListProps> = ({ students, setStudents }) => {
           })}
         </div>
       </div>
-      {showCardGenerator && <CardGenerator students={students} onClose={() => setShowCardGenerator(false)} />}
+      {cardTargets && <CardGenerator students={cardTargets} onClose={() => setCardTargets(null)} />}
+      {registryStudent && <CardRegistryModal student={registryStudent} onReplace={student => handleReplaceCards([student])} onClose={() => setRegistryStudent(null)} />}
+      {accessStudent && <ParentAccessModal student={accessStudent} canBroadcast={can('BROADCAST')} onClose={() => setAccessStudent(null)} />}
+      {showPromotionWizard && <PromotionWizard students={students} onApply={performSync} onClose={() => setShowPromotionWizard(false)} />}
     </>
   );
 };
@@ -0,0 +1,16 @@
+import React from 'react';
+import { useStudentPhoto } from '../hooks/useStudentPhoto';
+
+interface StudentPhotoProps {
+  studentId: string;
+  className?: string;
+  fallback?: React.ReactNode; // Tampil bila siswa belum punya foto
+}
+
+const StudentPhoto: React.FC<StudentPhotoProps> = ({ studentId, className = '', fallback = null }) => {
+  const photo = useStudentPhoto(studentId);
+  if (!photo) return <>{fallback}</>;
+  return <img src={photo} alt={`Foto ${studentId}`} className={`object-cover ${className}`} />;
+};
+
+export default StudentPhoto;
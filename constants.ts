@@ -1,9 +1,16 @@
 
-import { Student } from './types';
+import { Student, StorageBackendKind, CardStatus, PrayerSession, AttendanceStatusInfo, SchoolCalendar, CalendarEntryKind, AcademicYear, StaffMember, StaffRole, UserRole, PermissionInfo, PermissionMatrix, SessionPolicy } from './types';
 
 // URL Google Apps Script Anda
 export const GOOGLE_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbwtcLk4tHst7HkGIv36oOasY6ollRDqp9AMTfKkua-5vOId6VO7c3TCsNyD2a4MNJFtOw/exec";
 
+// Pilih penyimpanan lewat .env.local: VITE_STORAGE_BACKEND=apps-script | indexeddb | rest
+// 'indexeddb' murni lokal di browser, 'rest' untuk server tiruan (npm run mock-server)
+export const STORAGE_BACKEND: StorageBackendKind = (import.meta.env.VITE_STORAGE_BACKEND as StorageBackendKind) || 'apps-script';
+export const REST_API_URL = import.meta.env.VITE_REST_API_URL || 'http://localhost:8787';
+// Kode setup password Administrator pertama untuk backend 'indexeddb' (server lain: lihat README)
+export const LOCAL_ADMIN_SETUP_CODE = import.meta.env.VITE_ADMIN_SETUP_CODE || '';
+
 // SILAKAN TEMPELKAN KEMBALI DAFTAR LENGKAP SISWA ANDA DI SINI
 // Jika Anda memiliki file Excel, Anda juga bisa menggunakan tombol "IMPORT" di menu "HEROES"
 export const INITIAL_STUDENTS: Student[] = [
@@ -20,6 +27,7 @@ export const INITIAL_STUDENTS: Student[] = [
   // ... Tambahkan data siswa lainnya di sini jika ada
 ];
 
+// Daftar guru awal; setelah itu admin mengelola staf di menu Pengaturan
 export const TEACHERS = [
   "Dra. Sri Hayati",
   "Bakhtiar Rifai, SE",
@@ -40,8 +48,148 @@ export const TEACHERS = [
   "Akhmad Hariadi, S.Pd"
 ];
 
+// ID awal sama dengan nama supaya kredensial yang sudah dibuat tetap cocok
+export const DEFAULT_STAFF: StaffMember[] = TEACHERS.map(name => ({ id: name, name, role: 'TEACHER', classes: [], active: true }));
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  ADMIN: 'Admin',
+  TEACHER: 'Guru',
+  HOMEROOM: 'Wali Kelas'
+};
+
+export const ADMIN_USERNAME = 'ADMINISTRATOR';
+
+export const PERMISSIONS: PermissionInfo[] = [
+  { id: 'VIEW_DASHBOARD', label: 'Lihat Dashboard' },
+  { id: 'RECORD_ATTENDANCE', label: 'Catat Absensi (Scan/Manual)' },
+  { id: 'VIEW_REPORTS', label: 'Lihat Laporan', parentAllowed: true },
+  { id: 'EDIT_STATUS', label: 'Ubah Status Absensi' },
+  { id: 'DELETE_RECORD', label: 'Hapus Record Absensi' },
+  { id: 'EXPORT', label: 'Ekspor PDF / Excel', parentAllowed: true },
+  { id: 'BROADCAST', label: 'Kirim WA ke Wali Murid' },
+  { id: 'MANAGE_STUDENTS', label: 'Kelola Data Siswa' },
+  { id: 'MANAGE_SETTINGS', label: 'Kelola Pengaturan & Staf', adminLocked: true }
+];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  ...STAFF_ROLE_LABELS,
+  PARENT: 'Wali Murid'
+};
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  ADMIN: PERMISSIONS.map(p => p.id),
+  TEACHER: ['VIEW_DASHBOARD', 'RECORD_ATTENDANCE', 'VIEW_REPORTS', 'EXPORT', 'BROADCAST'],
+  HOMEROOM: ['VIEW_DASHBOARD', 'RECORD_ATTENDANCE', 'VIEW_REPORTS', 'EDIT_STATUS', 'EXPORT', 'BROADCAST'],
+  PARENT: ['VIEW_REPORTS', 'EXPORT']
+};
+
+// Login staf dikunci sementara oleh server setelah password salah berulang kali
+// (batas yang sama dipakai server/mockServer.js, server/appsScript.gs & backend indexeddb)
+export const MAX_LOGIN_ATTEMPTS = 5;
+export const LOGIN_LOCKOUT_MINUTES = 15;
+export const MIN_PASSWORD_LENGTH = 6;
+
+// PIN layar kunci: angka saja supaya cepat diketik di HP petugas
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+export const CARD_STATUS_LABELS: Record<CardStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Aktif', className: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  LOST: { label: 'Hilang', className: 'bg-orange-500/10 text-orange-400 border-orange-500/30' },
+  REVOKED: { label: 'Dicabut', className: 'bg-red-500/10 text-red-400 border-red-500/30' }
+};
+
+// Masa transisi kartu lama (QR berisi NIS polos) sejak kartu bertanda tangan pertama dicetak
+export const LEGACY_CARD_GRACE_DAYS = 30;
+
+// Lama tombol "batal" muncul di log scan petugas (menit); sesudahnya hapus lewat Laporan
+export const DEFAULT_SCAN_UNDO_MINUTES = 5;
+
+// Batas sesi bawaan; admin bisa mengubahnya di menu Pengaturan
+export const DEFAULT_SESSION_POLICY: SessionPolicy = { idleMinutes: 15, maxHours: 12 };
+
+// Sesi bawaan; admin bisa mengubahnya di menu Pengaturan
+export const DEFAULT_SESSION_ID = 'DHUHUR';
+export const DEFAULT_PRAYER_SESSIONS: PrayerSession[] = [
+  { id: 'DHUHA', name: 'Dhuha', startTime: '07:00', endTime: '07:30', graceMinutes: 15, days: [1, 2, 3, 4, 5, 6] },
+  { id: 'DHUHUR', name: 'Dhuhur', startTime: '11:45', endTime: '12:15', graceMinutes: 30, days: [1, 2, 3, 4, 6] },
+  { id: 'JUMAT', name: 'Jumat', startTime: '11:30', endTime: '11:50', graceMinutes: 20, days: [5] }
+];
+
+// Kalender bawaan: Senin-Sabtu sekolah, belum ada hari libur (diisi admin di menu Pengaturan)
+export const DEFAULT_SCHOOL_CALENDAR: SchoolCalendar = { schoolDays: [1, 2, 3, 4, 5, 6], entries: [] };
+
+export const CALENDAR_ENTRY_LABELS: Record<CalendarEntryKind, string> = {
+  HOLIDAY: 'Libur Nasional',
+  BREAK: 'Libur Sekolah',
+  EXAM: 'Ujian',
+  NO_PRAYER: 'Tanpa Sholat Jamaah'
+};
+
+// Tahun pelajaran bawaan; admin menambah tahun berikutnya di menu Pengaturan
+export const DEFAULT_ACADEMIC_YEARS: AcademicYear[] = [
+  {
+    id: '2025/2026', name: '2025/2026',
+    semesters: [
+      { id: '2025/2026-1', name: 'Ganjil', start: '2025-07-01', end: '2025-12-31' },
+      { id: '2025/2026-2', name: 'Genap', start: '2026-01-01', end: '2026-06-30' }
+    ]
+  },
+  {
+    id: '2026/2027', name: '2026/2027',
+    semesters: [
+      { id: '2026/2027-1', name: 'Ganjil', start: '2026-07-01', end: '2026-12-31' },
+      { id: '2026/2027-2', name: 'Genap', start: '2027-01-01', end: '2027-06-30' }
+    ]
+  }
+];
+
+// Registry status kehadiran. Urutan di sini = urutan tombol mode, chip filter dan kolom laporan.
+export const ATTENDANCE_STATUSES: AttendanceStatusInfo[] = [
+  { id: 'PRESENT', label: 'Hadir', short: 'V', textClass: 'text-green-400', badgeClass: 'bg-green-900/20 text-green-400 border-green-500/30', hex: '#4ade80', score: 1, attended: true, manual: true, timed: true },
+  { id: 'LATE', label: 'Terlambat', short: 'T', textClass: 'text-orange-400', badgeClass: 'bg-orange-900/20 text-orange-400 border-orange-500/30', hex: '#fb923c', score: 1, attended: true, manual: false },
+  { id: 'HAID', label: 'Haid', short: 'H', textClass: 'text-pink-400', badgeClass: 'bg-pink-900/20 text-pink-400 border-pink-500/30', hex: '#ec4899', score: 1, attended: true, manual: true, femaleOnly: true },
+  { id: 'IZIN', label: 'Izin', short: 'I', textClass: 'text-sky-400', badgeClass: 'bg-sky-900/20 text-sky-400 border-sky-500/30', hex: '#38bdf8', score: 0, attended: false, manual: true, allowsNote: true },
+  { id: 'SAKIT', label: 'Sakit', short: 'S', textClass: 'text-violet-400', badgeClass: 'bg-violet-900/20 text-violet-400 border-violet-500/30', hex: '#a78bfa', score: 0, attended: false, manual: true, allowsNote: true },
+  { id: 'ALPHA', label: 'Alpha', short: 'A', textClass: 'text-red-500', badgeClass: 'bg-red-950/40 text-red-500 border-red-600/40', hex: '#dc2626', score: 0, attended: false, manual: true, allowsNote: true }
+];
+
 export const STORAGE_KEYS = {
   STUDENTS: 'smpn3pacet_students_cache',
-  ATTENDANCE: 'smpn3pacet_attendance_cache',
-  AUTH: 'smpn3pacet_auth_session'
+  ATTENDANCE: 'smpn3pacet_attendance_cache', // Lama: hanya dibaca sekali untuk migrasi ke IndexedDB
+  AUTH: 'smpn3pacet_auth_session',
+  OUTBOX: 'smpn3pacet_outbox',
+  SYNC_CURSOR: 'smpn3pacet_attendance_sync_cursor',
+  SETTINGS: 'smpn3pacet_settings',
+  CLOCK_OFFSET: 'smpn3pacet_clock_offset',
+  SELECTED_SEMESTER: 'smpn3pacet_selected_semester',
+  AUDIT_CURSOR: 'smpn3pacet_audit_sync_cursor',
+  CAMERA_PREFERENCE: 'smpn3pacet_camera_preference' // Per perangkat, tidak disinkronkan
+};
+
+// Kunci pengaturan bersama (disinkronkan ke server lewat settingsService)
+export const SETTING_KEYS = {
+  PRAYER_SESSIONS: 'prayerSessions',
+  SCHOOL_CALENDAR: 'schoolCalendar',
+  ACADEMIC_YEARS: 'academicYears',
+  CREDENTIALS: 'credentials',
+  STAFF: 'staff',
+  PARENT_ACCESS: 'parentAccess',
+  PERMISSIONS: 'permissions',
+  SESSION_POLICY: 'sessionPolicy',
+  CARD_SETTINGS: 'cardSettings',
+  CARD_PUBLIC_KEY: 'cardPublicKey',
+  CARDS: 'cards',
+  SCAN_UNDO_MINUTES: 'scanUndoMinutes'
+};
+
+// Dulu ikut pengaturan bersama; kini hanya disimpan server dan dibuang dari cache perangkat
+export const PRIVATE_SETTING_KEYS = [SETTING_KEYS.CREDENTIALS, SETTING_KEYS.PARENT_ACCESS];
+
+// Hanya diisi server; perangkat boleh membaca tapi tidak boleh menimpanya
+export const SERVER_SETTING_KEYS = [SETTING_KEYS.CARD_PUBLIC_KEY];
+
+// Menentukan peran & hak akses login, jadi server hanya menerimanya dari sesi Administrator
+export const ADMIN_SETTING_LABELS: Record<string, string> = {
+  [SETTING_KEYS.STAFF]: 'Daftar staf',
+  [SETTING_KEYS.PERMISSIONS]: 'Hak akses peran'
 };
@@ -0,0 +1,13 @@
+import { useCallback } from 'react';
+import { Permission, UserRole } from '../types';
+import { hasPermission } from '../services/permissionService';
+import { useSetting } from './useSetting';
+import { DEFAULT_PERMISSIONS, SETTING_KEYS } from '../constants';
+
+export type PermissionCheck = (permission: Permission) => boolean;
+
+// Cek izin peran yang sedang login; ikut berubah saat admin menyimpan matriks izin
+export const usePermission = (role: UserRole): PermissionCheck => {
+  const matrix = useSetting(SETTING_KEYS.PERMISSIONS, DEFAULT_PERMISSIONS);
+  return useCallback((permission: Permission) => hasPermission(matrix, role, permission), [matrix, role]);
+};
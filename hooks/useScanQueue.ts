@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type ScanItemStatus = 'queued' | 'processing' | 'done' | 'duplicate' | 'failed';
+
+export interface ScanOutcome {
+  status: Exclude<ScanItemStatus, 'queued' | 'processing'>;
+  message: string;
+  label?: string; // Nama siswa setelah kartu dikenali
+}
+
+export interface ScanJob {
+  key: string; // Isi QR / NIS; decode berulang dengan key sama digabung
+  label: string;
+  run: () => Promise<ScanOutcome>;
+}
+
+export interface ScanQueueItem {
+  id: string;
+  key: string;
+  label: string;
+  status: ScanItemStatus;
+  message?: string;
+  receivedAt: number;
+}
+
+interface ScanQueueOptions {
+  dedupeMs?: number; // Key yang baru selesai diproses diabaikan selama jendela ini
+  historySize?: number; // Jumlah item selesai yang tetap tampil di daftar
+}
+
+const isPending = (item: ScanQueueItem) => item.status === 'queued' || item.status === 'processing';
+
+// Antrean scan di memori: setiap decode diterima (tidak dibuang saat scan sebelumnya masih
+// diproses), digabung bila kartu yang sama terbaca berulang, lalu diproses satu per satu
+// sesuai urutan masuk. Berurutan supaya cek "sudah absen" selalu melihat hasil scan sebelumnya.
+export const useScanQueue = ({ dedupeMs = 4000, historySize = 30 }: ScanQueueOptions = {}) => {
+  const [items, setItems] = useState<ScanQueueItem[]>([]);
+  const pendingRef = useRef<{ item: ScanQueueItem; run: ScanJob['run'] }[]>([]);
+  const finishedAtRef = useRef(new Map<string, number>());
+  const runningRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  useEffect(() => () => { mountedRef.current = false; }, []);
+
+  const updateItem = (id: string, changes: Partial<ScanQueueItem>) => {
+    if (!mountedRef.current) return;
+    // Item aktif selalu tampil; yang sudah selesai dibatasi historySize
+    setItems(prev => {
+      let finished = 0;
+      return prev
+        .map(i => i.id === id ? { ...i, ...changes } : i)
+        .filter(i => isPending(i) || ++finished <= historySize);
+    });
+  };
+
+  // Item tetap di pendingRef selama diproses supaya decode berulang ikut tergabung
+  const drain = async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    while (pendingRef.current.length > 0) {
+      const { item, run } = pendingRef.current[0];
+      updateItem(item.id, { status: 'processing' });
+      let outcome: ScanOutcome;
+      try {
+        outcome = await run();
+      } catch (e) {
+        console.error("Scan gagal diproses", e);
+        outcome = { status: 'failed', message: 'Terjadi kesalahan saat memproses scan.' };
+      }
+      finishedAtRef.current.set(item.key, Date.now());
+      pendingRef.current.shift();
+      updateItem(item.id, { status: outcome.status, message: outcome.message, label: outcome.label || item.label });
+    }
+    runningRef.current = false;
+  };
+
+  // false = digabung dengan scan yang sama (masih antre atau baru saja selesai)
+  const enqueue = (job: ScanJob): boolean => {
+    if (pendingRef.current.some(p => p.item.key === job.key)) return false;
+    const finishedAt = finishedAtRef.current.get(job.key);
+    if (finishedAt && Date.now() - finishedAt < dedupeMs) return false;
+
+    const item: ScanQueueItem = { id: crypto.randomUUID(), key: job.key, label: job.label, status: 'queued', receivedAt: Date.now() };
+    pendingRef.current.push({ item, run: job.run });
+    setItems(prev => [item, ...prev]);
+    drain();
+    return true;
+  };
+
+  const clear = () => setItems(prev => prev.filter(isPending));
+
+  const pendingCount = items.filter(isPending).length;
+
+  return { items, enqueue, clear, pendingCount };
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { getSetting, subscribeSettings } from '../services/settingsService';
+
+// Baca pengaturan bersama dan render ulang otomatis saat nilainya berubah (simpan lokal / sync)
+export const useSetting = <T>(key: string, fallback: T): T => {
+  const [value, setValue] = useState<T>(() => getSetting(key, fallback));
+
+  useEffect(() => {
+    setValue(getSetting(key, fallback));
+    return subscribeSettings(() => setValue(getSetting(key, fallback)));
+    // fallback sengaja tidak jadi dependency: biasanya literal baru tiap render
+  }, [key]);
+
+  return value;
+};
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { getStudentPhoto, subscribePhotos } from '../services/photoService';
+
+// Foto siswa dari cache perangkat; ikut berubah saat foto diunggah, diimpor, dihapus atau tersinkron
+export const useStudentPhoto = (studentId: string | undefined): string | undefined => {
+  const [photo, setPhoto] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!studentId) {
+      setPhoto(undefined);
+      return;
+    }
+    let cancelled = false;
+    const load = () => getStudentPhoto(studentId)
+      .then(result => { if (!cancelled) setPhoto(result); })
+      .catch(() => { if (!cancelled) setPhoto(undefined); });
+    load();
+    const unsubscribe = subscribePhotos(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [studentId]);
+
+  return photo;
+};
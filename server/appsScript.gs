@@ -0,0 +1,710 @@
+// Server Google Apps Script untuk backend 'apps-script' (default).
+// Pasang: buka Google Sheet sekolah > Ekstensi > Apps Script, tempel file ini sebagai Code.gs,
+// lalu Deploy > New deployment > Web app (Execute as: Me, Who has access: Anyone).
+// URL /exec hasil deploy diisi ke GOOGLE_SCRIPT_URL di constants.ts. Setiap file ini berubah,
+// buat versi deploy baru (Manage deployments > Edit > New version) supaya URL yang sama ikut terbarui.
+// Password Administrator pertama butuh kode setup: Project Settings > Script Properties,
+// tambahkan ADMIN_SETUP_CODE. Kunci tanda tangan kartu siswa (JWK EC P-256, cara membuatnya ada di
+// README) diisi ke Script Property CARD_SIGNING_KEY. Kredensial, kode akses wali, penguncian & sesi login
+// disimpan di Script Properties, tidak di Sheet, jadi tidak pernah ikut getSettings.
+//
+// Protokol (sama dengan server/mockServer.js, lihat juga services/backends/appsScriptBackend.ts):
+//   GET  ?action=getSettings                            -> { [key]: value }
+//   GET  ?action=getStudents&token=t                    -> Student[]
+//   GET  ?action=getAttendanceChanges&token=t[&since=c] -> { changed, cursor, resyncRequired, serverTime }
+//   GET  ?action=getAuditChanges&token=t[&since=c]      -> { entries, cursor }
+//   GET  ?action=getPhotoChanges&token=t[&since=c]      -> { photos, cursor, hasMore }  (file foto di Google Drive)
+// Selain getSettings, GET butuh token sesi staf atau wali murid (wali hanya menerima data siswanya
+// sendiri, tanpa audit); tanpa token dijawab { status: 'error', message }. Mutasi butuh sesi staf.
+//   POST { action, payload, mutationId, token } -> { status: 'success' | 'error' | 'retry', message }
+//   POST { action, payload }                    -> { success, message, ... }  (aksi rahasia, SERVER_ACTIONS)
+// Aksi mutasi: saveStudents, saveSetting, saveSettingEntries, addAttendance, updateAttendance,
+// deleteAttendance, appendAudit, savePhoto.
+// status 'error' berarti mutasi ditolak permanen; outbox aplikasi berhenti mengirim ulang setelah 3x.
+// status 'retry' berarti server sedang gangguan; outbox mengirim ulang seperti saat offline.
+// Daftar staf hanya diterima dari sesi Administrator (token).
+// Aksi rahasia: getSecretParams, login, unlock, setupAdmin, changePassword, setPin, resetPassword,
+// getCredentialStatus, setParentAccess, getParentAccessStatus, getParentParams, verifyParentCode,
+// redeemParentLink, getCardSigningKey. Perangkat mengirim proof PBKDF2, server hanya menyimpan SHA-256-nya.
+
+const SHEETS = {
+  STUDENTS: 'Students',
+  ATTENDANCE: 'Attendance',
+  SETTINGS: 'Settings',
+  AUDIT: 'Audit',
+  PHOTOS: 'Photos'
+};
+
+const STUDENT_COLUMNS = ['id', 'name', 'className', 'gender', 'parentPhone', 'status', 'graduatedAt'];
+const ATTENDANCE_COLUMNS = ['id', 'studentId', 'studentName', 'className', 'date', 'timestamp', 'operatorName', 'status', 'note', 'sessionId', 'updatedAt', 'deletedAt', 'idempotencyKey', '_seq'];
+const NUMBER_FIELDS = ['timestamp', 'updatedAt', 'deletedAt', '_seq'];
+const DEFAULT_SESSION_ID = 'DHUHUR';
+
+// mutationId yang sudah diterapkan diingat 6 jam (batas CacheService). Semua aksi idempoten,
+// jadi kiriman ulang setelah itu tetap aman, hanya diterapkan lagi dengan hasil yang sama.
+const MUTATION_CACHE_SECONDS = 6 * 60 * 60;
+
+// --- Sheet ---
+
+const getSheet = (name, columns) => {
+  const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+  let sheet = spreadsheet.getSheetByName(name);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(name);
+    sheet.getRange(1, 1, 1, columns.length).setValues([columns]).setFontWeight('bold');
+    sheet.setFrozenRows(1);
+  }
+  return sheet;
+};
+
+// Ditulis sebagai teks supaya NIS berawalan 0 dan tanggal YYYY-MM-DD tidak diubah Sheets
+const writeRows = (sheet, startRow, rows) => {
+  if (rows.length === 0) return;
+  const lastNeeded = startRow + rows.length - 1;
+  if (lastNeeded > sheet.getMaxRows()) sheet.insertRowsAfter(sheet.getMaxRows(), lastNeeded - sheet.getMaxRows() + 100);
+  sheet.getRange(startRow, 1, rows.length, rows[0].length).setNumberFormat('@').setValues(rows);
+};
+
+const readRows = (sheet, columns) => {
+  const lastRow = sheet.getLastRow();
+  if (lastRow < 2) return [];
+  return sheet.getRange(2, 1, lastRow - 1, columns.length).getValues();
+};
+
+const rowToObject = (row, columns) => {
+  const item = {};
+  columns.forEach((column, i) => {
+    if (row[i] === '' || row[i] === null) return;
+    item[column] = NUMBER_FIELDS.includes(column) ? Number(row[i]) : String(row[i]);
+  });
+  return item;
+};
+
+const objectToRow = (item, columns) =>
+  columns.map(column => item[column] === undefined || item[column] === null ? '' : String(item[column]));
+
+// Baris (1-based) yang kolom pertamanya persis value, atau 0
+const findRow = (sheet, value, column = 1) => {
+  if (sheet.getLastRow() < 2) return 0;
+  const match = sheet.getRange(2, column, sheet.getLastRow() - 1, 1)
+    .createTextFinder(String(value)).matchEntireCell(true).findNext();
+  return match ? match.getRow() : 0;
+};
+
+// --- Nomor urut (cursor) ---
+
+const nextSeq = (key) => {
+  const properties = PropertiesService.getScriptProperties();
+  const seq = Number(properties.getProperty(key) || 0) + 1;
+  properties.setProperty(key, String(seq));
+  return seq;
+};
+
+const currentSeq = (key) => Number(PropertiesService.getScriptProperties().getProperty(key) || 0);
+
+// --- Siswa & pengaturan ---
+
+const getStudents = () =>
+  readRows(getSheet(SHEETS.STUDENTS, STUDENT_COLUMNS), STUDENT_COLUMNS).map(row => rowToObject(row, STUDENT_COLUMNS));
+
+const saveStudents = (students) => {
+  const sheet = getSheet(SHEETS.STUDENTS, STUDENT_COLUMNS);
+  if (sheet.getLastRow() > 1) sheet.getRange(2, 1, sheet.getLastRow() - 1, STUDENT_COLUMNS.length).clearContent();
+  writeRows(sheet, 2, students.map(s => objectToRow(s, STUDENT_COLUMNS)));
+};
+
+// Dulu ikut pengaturan bersama; kini di Script Properties (lihat migrateLegacy)
+const PRIVATE_SETTING_KEYS = ['credentials', 'parentAccess'];
+// Hanya diisi server; perangkat boleh membaca tapi tidak boleh menimpanya
+const SERVER_SETTING_KEYS = ['cardPublicKey'];
+// Menentukan peran & hak akses login, jadi hanya diterima dari sesi Administrator
+const ADMIN_SETTING_LABELS = { staff: 'Daftar staf', permissions: 'Hak akses peran' };
+
+const getSettings = () => {
+  const settings = {};
+  readRows(getSheet(SHEETS.SETTINGS, ['key', 'value']), ['key', 'value']).forEach(([key, value]) => {
+    if (PRIVATE_SETTING_KEYS.includes(key)) return;
+    try {
+      settings[key] = JSON.parse(value);
+    } catch (e) {
+      // Sel yang diedit manual dan bukan JSON dilewati
+    }
+  });
+  return settings;
+};
+
+const saveSetting = (key, value) => {
+  const sheet = getSheet(SHEETS.SETTINGS, ['key', 'value']);
+  const row = findRow(sheet, key) || sheet.getLastRow() + 1;
+  writeRows(sheet, row, [[key, JSON.stringify(value)]]);
+};
+
+// --- Absensi ---
+
+// Versi record untuk last-writer-wins (record lama tanpa updatedAt memakai timestamp)
+const versionOf = (record) => record.updatedAt !== undefined ? record.updatedAt : record.timestamp;
+
+// Kunci idempotensi NIS|tanggal|sesi; record lama tanpa kunci dihitung dari isinya
+const keyOf = (record) => record.idempotencyKey || `${record.studentId}|${record.date}|${record.sessionId || DEFAULT_SESSION_ID}`;
+
+// Dari dua record dengan kunci sama, scan pertama dipertahankan (seri: id terkecil)
+const isCanonical = (a, b) => a.timestamp !== b.timestamp ? a.timestamp < b.timestamp : a.id < b.id;
+
+const writeRecord = (sheet, row, record) => {
+  const stored = Object.assign({}, record, { idempotencyKey: keyOf(record), _seq: nextSeq('seq') });
+  writeRows(sheet, row, [objectToRow(stored, ATTENDANCE_COLUMNS)]);
+};
+
+// Semua aksi absensi membawa record utuh (delete = tombstone berisi deletedAt)
+const applyAttendance = (payload) => {
+  const sheet = getSheet(SHEETS.ATTENDANCE, ATTENDANCE_COLUMNS);
+  const existingRow = findRow(sheet, payload.id);
+  if (existingRow) {
+    const existing = rowToObject(sheet.getRange(existingRow, 1, 1, ATTENDANCE_COLUMNS.length).getValues()[0], ATTENDANCE_COLUMNS);
+    if (versionOf(existing) > versionOf(payload)) return;
+  }
+
+  let record = payload;
+  // Absen ganda dari perangkat lain: yang kalah disimpan sebagai tombstone
+  if (!record.deletedAt) {
+    const now = Date.now();
+    const keyColumn = ATTENDANCE_COLUMNS.indexOf('idempotencyKey') + 1;
+    const rivals = sheet.getLastRow() < 2 ? [] : sheet.getRange(2, keyColumn, sheet.getLastRow() - 1, 1)
+      .createTextFinder(keyOf(record)).matchEntireCell(true).findAll()
+      .map(cell => ({ row: cell.getRow(), record: rowToObject(sheet.getRange(cell.getRow(), 1, 1, ATTENDANCE_COLUMNS.length).getValues()[0], ATTENDANCE_COLUMNS) }))
+      .filter(rival => rival.record.id !== record.id && !rival.record.deletedAt);
+    if (rivals.some(rival => isCanonical(rival.record, record))) {
+      record = Object.assign({}, record, { deletedAt: now, updatedAt: now });
+    } else {
+      rivals.forEach(rival => writeRecord(sheet, rival.row, Object.assign({}, rival.record, { deletedAt: now, updatedAt: now })));
+    }
+  }
+  writeRecord(sheet, existingRow || sheet.getLastRow() + 1, record);
+};
+
+// Cursor sesi wali diberi awalan NIS, jadi cursor staf (atau wali siswa lain) tidak cocok dan
+// perangkat mengunduh ulang penuh; cache lama tidak tercampur data yang tidak boleh dilihat.
+const cursorPrefix = (studentId) => studentId ? `${studentId}:` : '';
+
+const readCursor = (since, studentId) => {
+  const prefix = cursorPrefix(studentId);
+  return since.indexOf(prefix) === 0 ? Number(since.slice(prefix.length)) : NaN;
+};
+
+// Tanpa since: seluruh record (termasuk tombstone). Cursor = nomor urut terakhir.
+// studentId terisi untuk sesi wali murid: hanya record siswa itu.
+const getAttendanceChanges = (since, studentId) => {
+  const seq = currentSeq('seq');
+  const isFull = since === null;
+  const sinceSeq = isFull ? 0 : readCursor(since, studentId);
+  const changed = readRows(getSheet(SHEETS.ATTENDANCE, ATTENDANCE_COLUMNS), ATTENDANCE_COLUMNS)
+    .map(row => rowToObject(row, ATTENDANCE_COLUMNS))
+    .filter(record => (isFull || record._seq > sinceSeq) && (!studentId || String(record.studentId) === studentId))
+    .map(record => {
+      delete record._seq;
+      return record;
+    });
+  return {
+    changed,
+    cursor: cursorPrefix(studentId) + seq,
+    resyncRequired: !isFull && (isNaN(sinceSeq) || sinceSeq > seq),
+    serverTime: Date.now()
+  };
+};
+
+// --- Audit (hanya ditambah, entri dengan id yang sudah ada diabaikan) ---
+
+const AUDIT_COLUMNS = ['id', '_seq', 'entry'];
+
+const appendAudit = (entry) => {
+  const sheet = getSheet(SHEETS.AUDIT, AUDIT_COLUMNS);
+  if (findRow(sheet, entry.id)) return;
+  writeRows(sheet, sheet.getLastRow() + 1, [[entry.id, String(nextSeq('auditSeq')), JSON.stringify(entry)]]);
+};
+
+const getAuditChanges = (since) => {
+  const sinceSeq = Number(since) || 0;
+  return {
+    entries: readRows(getSheet(SHEETS.AUDIT, AUDIT_COLUMNS), AUDIT_COLUMNS)
+      .filter(row => Number(row[1]) > sinceSeq)
+      .map(row => JSON.parse(row[2])),
+    cursor: String(currentSeq('auditSeq'))
+  };
+};
+
+// --- Foto siswa (file JPEG di Google Drive, indeks & nomor urut di sheet Photos) ---
+
+const PHOTO_COLUMNS = ['studentId', 'fileId', 'updatedAt', '_seq'];
+// Foto berukuran besar, jadi perubahan dikirim per halaman
+const PHOTO_PAGE_SIZE = 50;
+
+// Folder dibuat otomatis saat foto pertama diunggah; id-nya diingat di Script Properties
+const getPhotoFolder = () => {
+  const properties = PropertiesService.getScriptProperties();
+  const folderId = properties.getProperty('photoFolderId');
+  if (folderId) return DriveApp.getFolderById(folderId);
+  const folder = DriveApp.createFolder('Foto Siswa SMPN 3 Pacet');
+  properties.setProperty('photoFolderId', folder.getId());
+  return folder;
+};
+
+// File yang sudah dihapus manual dari Drive dianggap tidak ada
+const readPhotoFile = (fileId) => {
+  try {
+    return `data:image/jpeg;base64,${Utilities.base64Encode(DriveApp.getFileById(fileId).getBlob().getBytes())}`;
+  } catch (e) {
+    return null;
+  }
+};
+
+const trashPhotoFile = (fileId) => {
+  try {
+    DriveApp.getFileById(fileId).setTrashed(true);
+  } catch (e) {
+    // Sudah dihapus manual
+  }
+};
+
+// Yang lebih baru menang (updatedAt); photo null = hapus foto
+const savePhoto = (entry) => {
+  const sheet = getSheet(SHEETS.PHOTOS, PHOTO_COLUMNS);
+  const row = findRow(sheet, entry.studentId);
+  if (row) {
+    const existing = sheet.getRange(row, 1, 1, PHOTO_COLUMNS.length).getValues()[0];
+    if (Number(existing[2]) >= entry.updatedAt) return;
+    if (existing[1]) trashPhotoFile(String(existing[1]));
+  }
+  let fileId = '';
+  if (entry.photo) {
+    const blob = Utilities.newBlob(Utilities.base64Decode(entry.photo.split(',')[1]), 'image/jpeg', `${entry.studentId}.jpg`);
+    fileId = getPhotoFolder().createFile(blob).getId();
+  }
+  writeRows(sheet, row || sheet.getLastRow() + 1, [[entry.studentId, fileId, String(entry.updatedAt), String(nextSeq('photoSeq'))]]);
+};
+
+// cursor = nomor urut foto terakhir di halaman ini; sesi wali hanya menerima foto siswanya
+const getPhotoChanges = (since, studentId) => {
+  const sinceSeq = since === null ? 0 : readCursor(since, studentId) || 0;
+  const changed = readRows(getSheet(SHEETS.PHOTOS, PHOTO_COLUMNS), PHOTO_COLUMNS)
+    .filter(row => Number(row[3]) > sinceSeq && (!studentId || String(row[0]) === studentId))
+    .sort((a, b) => Number(a[3]) - Number(b[3]));
+  const page = changed.slice(0, PHOTO_PAGE_SIZE);
+  return {
+    photos: page.map(row => ({ studentId: String(row[0]), photo: row[1] ? readPhotoFile(String(row[1])) : null, updatedAt: Number(row[2]) })),
+    cursor: cursorPrefix(studentId) + (page.length > 0 ? Number(page[page.length - 1][3]) : sinceSeq),
+    hasMore: changed.length > PHOTO_PAGE_SIZE
+  };
+};
+
+// --- Kredensial, kode akses wali & sesi (sama dengan server/mockServer.js dan services/backends/localServer.ts) ---
+
+const ADMIN_USERNAME = 'ADMINISTRATOR';
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOGIN_LOCKOUT_MINUTES = 15;
+const NOT_ACTIVATED_MESSAGE = 'Akun belum diaktifkan. Minta Administrator mengatur password anda.';
+const ADMIN_ONLY_MESSAGE = 'Hanya Administrator. Bila sudah login sebagai Administrator, sesi server berakhir: silakan login ulang.';
+const STAFF_ONLY_MESSAGE = 'Sesi server berakhir. Silakan login ulang.';
+const NO_PARENT_ACCESS_MESSAGE = 'Kode akses siswa ini belum dibuat. Hubungi wali kelas atau admin sekolah.';
+
+// Script Properties berkunci credential:<staffId>, parent:<NIS>, attempt:<kunci>, session:<token>
+const readProperty = (key) => {
+  const value = PropertiesService.getScriptProperties().getProperty(key);
+  return value ? JSON.parse(value) : null;
+};
+
+const writeProperty = (key, value) => {
+  const properties = PropertiesService.getScriptProperties();
+  if (value) properties.setProperty(key, JSON.stringify(value));
+  else properties.deleteProperty(key);
+};
+
+// Properti berawalan prefix, tanpa prefix-nya
+const readPropertiesWithPrefix = (prefix) => {
+  const result = {};
+  const all = PropertiesService.getScriptProperties().getProperties();
+  Object.keys(all).forEach(key => {
+    if (key.indexOf(prefix) === 0) result[key.slice(prefix.length)] = JSON.parse(all[key]);
+  });
+  return result;
+};
+
+const getCredential = (staffId) => readProperty(`credential:${staffId}`);
+const saveCredential = (credential) => writeProperty(`credential:${credential.staffId}`, credential);
+
+// Perangkat mengirim proof (PBKDF2); yang disimpan hanya SHA-256-nya
+const digest = (proof) =>
+  Utilities.base64Encode(Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, String(proof), Utilities.Charset.UTF_8));
+const toStored = (secret) => ({ salt: secret.salt, iterations: secret.iterations, hash: digest(secret.proof) });
+const matches = (proof, stored) => typeof proof === 'string' && digest(proof) === stored.hash;
+
+// Rahasia lama di sheet Settings berisi hash PBKDF2 = proof, jadi cukup di-SHA-256.
+// Token link wali lama tidak bisa dikonversi dan dibuang; wali tetap bisa masuk dengan kode.
+const MIGRATE_LEGACY = {
+  credentials: (credential) => {
+    if (credential.pin) credential.pin = Object.assign({}, credential.pin, { hash: digest(credential.pin.hash) });
+    saveCredential(Object.assign({}, credential, { hash: digest(credential.hash) }));
+  },
+  parentAccess: (access) => {
+    delete access.link;
+    writeProperty(`parent:${access.studentId}`, Object.assign({}, access, { hash: digest(access.hash) }));
+  }
+};
+
+// Cukup sekali: setelah itu saveSetting menolak kunci rahasia, jadi baris lama tidak muncul lagi
+const migrateLegacy = () => {
+  const properties = PropertiesService.getScriptProperties();
+  if (properties.getProperty('legacyMigrated')) return;
+  const sheet = getSheet(SHEETS.SETTINGS, ['key', 'value']);
+  PRIVATE_SETTING_KEYS.forEach(key => {
+    const row = findRow(sheet, key);
+    if (!row) return;
+    const legacy = JSON.parse(sheet.getRange(row, 2).getValue() || '{}');
+    Object.keys(legacy).forEach(id => MIGRATE_LEGACY[key](legacy[id]));
+    sheet.deleteRow(row);
+  });
+  properties.setProperty('legacyMigrated', '1');
+};
+
+// Administrator bawaan selalu ADMIN; staf lain mengikuti daftar staf. null = tidak boleh login.
+// Daftar staf yang belum pernah disimpan berarti daftar bawaan aplikasi: semuanya guru.
+const roleOf = (staffId) => {
+  if (staffId === ADMIN_USERNAME) return 'ADMIN';
+  const staff = getSettings().staff;
+  if (!Array.isArray(staff)) return 'TEACHER';
+  const member = staff.filter(s => s.id === staffId)[0];
+  return member && member.active ? member.role : null;
+};
+
+const lockoutMessage = (remaining) => `Terlalu banyak percobaan. Coba lagi dalam ${Math.ceil(remaining / 60000)} menit.`;
+
+// null = cocok; selain itu pesan error untuk form. Saat terkunci rahasia yang benar pun ditolak.
+const checkAttempt = (key, matched, label) => {
+  const state = readProperty(`attempt:${key}`) || { failures: 0 };
+  const remaining = Math.max(0, (state.lockedUntil || 0) - Date.now());
+  if (remaining > 0) return lockoutMessage(remaining);
+  if (matched) {
+    writeProperty(`attempt:${key}`, null);
+    return null;
+  }
+  const failures = state.failures + 1;
+  if (failures >= MAX_LOGIN_ATTEMPTS) {
+    writeProperty(`attempt:${key}`, { failures: 0, lockedUntil: Date.now() + LOGIN_LOCKOUT_MINUTES * 60000 });
+    return lockoutMessage(LOGIN_LOCKOUT_MINUTES * 60000);
+  }
+  writeProperty(`attempt:${key}`, { failures });
+  return `${label} salah! Sisa percobaan: ${MAX_LOGIN_ATTEMPTS - failures}.`;
+};
+
+// owner = { staffId } untuk staf, { studentId } untuk wali murid.
+// Umur token mengikuti batas sesi; tanpa batas tetap berakhir setelah 7 hari
+const createSession = (owner) => {
+  const now = Date.now();
+  const sessions = readPropertiesWithPrefix('session:');
+  Object.keys(sessions).forEach(token => {
+    if (sessions[token].expiresAt < now) writeProperty(`session:${token}`, null);
+  });
+  const policy = getSettings().sessionPolicy;
+  const maxHours = policy ? policy.maxHours : 12;
+  const hours = maxHours > 0 ? maxHours : 7 * 24;
+  const token = (Utilities.getUuid() + Utilities.getUuid()).replace(/-/g, '');
+  writeProperty(`session:${token}`, Object.assign({}, owner, { expiresAt: now + hours * 3600000 }));
+  return token;
+};
+
+const readSession = (token) => {
+  const session = typeof token === 'string' && token ? readProperty(`session:${token}`) : null;
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+const isStaffSession = (token) => {
+  const session = readSession(token);
+  return !!session && !!session.staffId && !!roleOf(session.staffId);
+};
+
+const isAdminSession = (token) => {
+  const session = readSession(token);
+  return !!session && roleOf(session.staffId) === 'ADMIN';
+};
+
+// Cakupan baca data: {} = staf (semua), { studentId } = wali murid, null = tanpa sesi
+const readScope = (token) => {
+  const session = readSession(token);
+  if (session && session.studentId) return { studentId: session.studentId };
+  return session && session.staffId && roleOf(session.staffId) ? {} : null;
+};
+
+const fail = (message) => ({ success: false, message });
+
+// null bila CARD_SIGNING_KEY kosong atau bukan kunci privat EC P-256
+const readCardKey = () => {
+  let key;
+  try {
+    key = JSON.parse(PropertiesService.getScriptProperties().getProperty('CARD_SIGNING_KEY') || 'null');
+  } catch (e) {
+    return null;
+  }
+  if (!key || key.kty !== 'EC' || key.crv !== 'P-256' || !key.d || !key.x || !key.y) return null;
+  return { kty: key.kty, crv: key.crv, x: key.x, y: key.y, d: key.d };
+};
+
+// Password sementara belum diganti: belum diberi token, form login meminta password baru
+const loginResult = (credential, role, message) => {
+  const mustChangePassword = !!credential.mustChangePassword;
+  return { success: true, message, role, mustChangePassword, token: mustChangePassword ? undefined : createSession({ staffId: credential.staffId }) };
+};
+
+// Wali murid menerima data siswanya (daftar siswa tidak terbuka sebelum login) dan token sesi
+const parentLoginResult = (studentId, message) => {
+  const student = getStudents().filter(s => String(s.id) === String(studentId))[0];
+  if (!student) return fail('Data siswa tidak ditemukan. Hubungi wali kelas atau admin sekolah.');
+  return { success: true, message, student, token: createSession({ studentId: String(student.id) }) };
+};
+
+// Akun aktif yang sudah punya password; selain itu pesan error
+const findAccount = (staffId) => {
+  const role = roleOf(staffId);
+  if (!role) return 'Akun staf tidak aktif.';
+  const credential = getCredential(staffId);
+  return credential ? { role, credential } : NOT_ACTIVATED_MESSAGE;
+};
+
+const SERVER_ACTIONS = {
+  getSecretParams: (payload) => {
+    const credential = getCredential(payload.staffId);
+    if (!credential) {
+      return payload.staffId === ADMIN_USERNAME
+        ? { success: false, setupRequired: true, message: 'Password Administrator belum diatur. Masukkan kode setup dari pengelola server.' }
+        : fail(NOT_ACTIVATED_MESSAGE);
+    }
+    const usesPin = !!payload.unlock && !!credential.pin;
+    const secret = usesPin ? credential.pin : credential;
+    return { success: true, message: '', salt: secret.salt, iterations: secret.iterations, usesPin };
+  },
+
+  login: (payload) => {
+    const account = findAccount(payload.staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(payload.staffId, matches(payload.proof, account.credential), 'Password');
+    return error ? fail(error) : loginResult(account.credential, account.role, 'Login berhasil.');
+  },
+
+  // Keluar mode kiosk dihitung terpisah (kiosk:<staffId>) supaya siswa yang iseng mencoba
+  // tidak mengunci akun petugas; tidak memberi token sesi baru
+  unlock: (payload) => {
+    const account = findAccount(payload.staffId);
+    if (typeof account === 'string') return fail(account);
+    const pin = account.credential.pin;
+    const key = payload.kiosk ? `kiosk:${payload.staffId}` : payload.staffId;
+    const error = checkAttempt(key, matches(payload.proof, pin || account.credential), pin ? 'PIN' : 'Password');
+    if (error) return fail(error);
+    return payload.kiosk ? { success: true, message: 'Mode kiosk ditutup.' } : loginResult(account.credential, account.role, 'Layar terbuka.');
+  },
+
+  // Percobaan kode setup ikut dikunci supaya tidak bisa ditebak tanpa batas
+  setupAdmin: (payload) => {
+    if (getCredential(ADMIN_USERNAME)) return fail('Password Administrator sudah diatur. Silakan login.');
+    const setupCode = PropertiesService.getScriptProperties().getProperty('ADMIN_SETUP_CODE');
+    if (!setupCode) return fail('Kode setup belum diatur di server (Script Property ADMIN_SETUP_CODE).');
+    const error = checkAttempt('setup', payload.setupCode === setupCode, 'Kode setup');
+    if (error) return fail(error);
+    const credential = Object.assign({ staffId: ADMIN_USERNAME }, toStored(payload.secret), { updatedAt: Date.now() });
+    saveCredential(credential);
+    return loginResult(credential, 'ADMIN', 'Password Administrator tersimpan.');
+  },
+
+  // PIN layar kunci tetap berlaku setelah ganti password
+  changePassword: (payload) => {
+    const account = findAccount(payload.staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(payload.staffId, matches(payload.proof, account.credential), 'Password');
+    if (error) return fail(error);
+    const credential = Object.assign({ staffId: payload.staffId }, toStored(payload.secret), { pin: account.credential.pin, updatedAt: Date.now() });
+    saveCredential(credential);
+    return loginResult(credential, account.role, 'Password berhasil diganti.');
+  },
+
+  setPin: (payload) => {
+    const account = findAccount(payload.staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(payload.staffId, matches(payload.proof, account.credential), 'Password');
+    if (error) return fail(error);
+    saveCredential(Object.assign({}, account.credential, { pin: toStored(payload.pin), updatedAt: Date.now() }));
+    return { success: true, message: 'PIN layar kunci tersimpan.' };
+  },
+
+  // Password sementara wajib diganti saat login berikutnya; PIN lama ikut dihapus
+  resetPassword: (payload) => {
+    if (!isAdminSession(payload.token)) return fail(ADMIN_ONLY_MESSAGE);
+    saveCredential(Object.assign({ staffId: payload.staffId }, toStored(payload.secret), { mustChangePassword: true, updatedAt: Date.now() }));
+    writeProperty(`attempt:${payload.staffId}`, null);
+    return { success: true, message: 'Password sementara dibuat.' };
+  },
+
+  getCredentialStatus: (payload) => {
+    if (!isAdminSession(payload.token)) return fail(ADMIN_ONLY_MESSAGE);
+    const credentials = {};
+    const stored = readPropertiesWithPrefix('credential:');
+    Object.keys(stored).forEach(staffId => {
+      credentials[staffId] = { mustChangePassword: !!stored[staffId].mustChangePassword, hasPin: !!stored[staffId].pin };
+    });
+    return { success: true, message: '', credentials };
+  },
+
+  // --- Kode akses wali murid (penguncian per siswa: parent:<NIS>) ---
+
+  setParentAccess: (payload) => {
+    if (!isStaffSession(payload.token)) return fail(STAFF_ONLY_MESSAGE);
+    const access = Object.assign({ studentId: payload.studentId }, toStored(payload.code), { link: digest(payload.link), updatedAt: Date.now() });
+    writeProperty(`parent:${payload.studentId}`, access);
+    writeProperty(`attempt:parent:${payload.studentId}`, null);
+    return { success: true, message: 'Kode akses tersimpan.' };
+  },
+
+  getParentAccessStatus: (payload) => {
+    if (!isStaffSession(payload.token)) return fail(STAFF_ONLY_MESSAGE);
+    return { success: true, message: '', exists: !!readProperty(`parent:${payload.studentId}`) };
+  },
+
+  getParentParams: (payload) => {
+    const access = readProperty(`parent:${payload.studentId}`);
+    if (!access) return fail(NO_PARENT_ACCESS_MESSAGE);
+    return { success: true, message: '', salt: access.salt, iterations: access.iterations };
+  },
+
+  verifyParentCode: (payload) => {
+    const access = readProperty(`parent:${payload.studentId}`);
+    if (!access) return fail(NO_PARENT_ACCESS_MESSAGE);
+    const error = checkAttempt(`parent:${payload.studentId}`, matches(payload.proof, access), 'Kode akses');
+    return error ? fail(error) : parentLoginResult(payload.studentId, 'Kode akses benar.');
+  },
+
+  // Token link hanya berlaku sekali: dihapus dari data siswa itu begitu dipakai
+  redeemParentLink: (payload) => {
+    const access = readProperty(`parent:${payload.studentId}`);
+    if (!access || !access.link || typeof payload.token !== 'string' || digest(payload.token) !== access.link) {
+      return fail('Link sudah pernah dipakai atau tidak berlaku. Silakan masuk dengan kode akses.');
+    }
+    delete access.link;
+    access.updatedAt = Date.now();
+    writeProperty(`parent:${payload.studentId}`, access);
+    return parentLoginResult(payload.studentId, 'Link valid.');
+  },
+
+  // --- Kunci tanda tangan kartu siswa ---
+
+  // Kunci privat hanya untuk sesi Administrator yang mencetak kartu. Apps Script tidak bisa membuat
+  // kunci ECDSA, jadi kunci dipasang pengelola server (CARD_SIGNING_KEY); kunci publiknya diterbitkan
+  // lewat pengaturan cardPublicKey saat pertama diminta atau setelah kunci diganti.
+  getCardSigningKey: (payload) => {
+    if (!isAdminSession(payload.token)) return fail(ADMIN_ONLY_MESSAGE);
+    const key = readCardKey();
+    if (!key) return fail('Kunci kartu belum dipasang. Minta pengelola server mengisi Script Property CARD_SIGNING_KEY.');
+    const published = getSettings().cardPublicKey;
+    const created = !published || published.x !== key.x || published.y !== key.y;
+    if (created) saveSetting('cardPublicKey', { kty: key.kty, crv: key.crv, x: key.x, y: key.y });
+    return { success: true, message: '', key, created };
+  }
+};
+
+// Penolakan permanen (status 'error'): mengirim ulang tidak akan menolong. Error lain
+// (Sheets/Drive/Cache sedang gangguan) dijawab status 'retry' supaya outbox mencoba lagi.
+const rejection = (message) => Object.assign(new Error(message), { rejected: true });
+
+const isText = (value) => typeof value === 'string' && value !== '';
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+const isAttendance = (payload) => isObject(payload) && isText(payload.id) && isText(payload.studentId) && isText(payload.date);
+
+const PAYLOAD_CHECKS = {
+  saveStudents: (payload) => Array.isArray(payload),
+  saveSetting: (payload) => isObject(payload) && isText(payload.key),
+  saveSettingEntries: (payload) => isObject(payload) && isText(payload.key) && isObject(payload.entries),
+  addAttendance: isAttendance,
+  updateAttendance: isAttendance,
+  deleteAttendance: isAttendance,
+  appendAudit: (payload) => isObject(payload) && isText(payload.id),
+  savePhoto: (payload) => isObject(payload) && isText(payload.studentId) && typeof payload.updatedAt === 'number'
+};
+
+// Semua mutasi butuh sesi staf. Tanpa sesi (token habis) dijawab 'retry' supaya antrean
+// terkirim setelah petugas login ulang; sesi wali murid ditolak.
+const checkMutation = (request) => {
+  if (!PAYLOAD_CHECKS[request.action](request.payload)) throw rejection(`Data ${request.action} tidak lengkap.`);
+  if (!readSession(request.token)) throw new Error(STAFF_ONLY_MESSAGE);
+  if (!isStaffSession(request.token)) throw rejection('Perubahan data hanya diterima dari sesi staf.');
+  if (request.action !== 'saveSetting' && request.action !== 'saveSettingEntries') return;
+  const key = request.payload.key;
+  if (PRIVATE_SETTING_KEYS.includes(key) || SERVER_SETTING_KEYS.includes(key)) throw rejection(`Pengaturan ${key} hanya bisa diubah lewat server.`);
+  if (ADMIN_SETTING_LABELS[key] && !isAdminSession(request.token)) {
+    throw rejection(`${ADMIN_SETTING_LABELS[key]} hanya bisa diubah Administrator. Login ulang lalu kirim ulang perubahan.`);
+  }
+};
+
+// --- Web app ---
+
+const MUTATIONS = {
+  saveStudents: (payload) => saveStudents(payload),
+  saveSetting: (payload) => saveSetting(payload.key, payload.value),
+  // Hanya entri yang dikirim yang diganti (mis. riwayat kartu per NIS)
+  saveSettingEntries: (payload) => saveSetting(payload.key, Object.assign({}, getSettings()[payload.key], payload.entries)),
+  addAttendance: applyAttendance,
+  updateAttendance: applyAttendance,
+  deleteAttendance: applyAttendance,
+  appendAudit,
+  savePhoto
+};
+
+const json = (body) => ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+
+// Bacaan data sekolah; studentId terisi untuk sesi wali murid
+const READS = {
+  getStudents: (since, studentId) => getStudents().filter(s => !studentId || String(s.id) === studentId),
+  getAttendanceChanges,
+  getAuditChanges: (since) => getAuditChanges(since),
+  getPhotoChanges
+};
+
+// Pengaturan tetap terbuka karena form login butuh daftar staf
+function doGet(e) {
+  const params = e.parameter || {};
+  const since = params.since === undefined ? null : params.since;
+  if (params.action === 'getSettings') return json(getSettings());
+  const read = READS[params.action];
+  if (!read) return json({ status: 'error', message: `Aksi tidak dikenal: ${params.action}` });
+  const scope = readScope(params.token);
+  if (!scope) return json({ status: 'error', message: STAFF_ONLY_MESSAGE });
+  if (scope.studentId && params.action === 'getAuditChanges') return json({ status: 'error', message: 'Jejak audit hanya untuk staf.' });
+  return json(read(since, scope.studentId));
+}
+
+// Mutasi diterapkan satu per satu (script lock) supaya nomor urut & cek absen ganda tidak balapan
+function doPost(e) {
+  let request;
+  try {
+    request = JSON.parse(e.postData.contents);
+  } catch (error) {
+    return json({ status: 'error', message: 'Body bukan JSON.' });
+  }
+  const serverAction = SERVER_ACTIONS[request.action];
+  const mutation = MUTATIONS[request.action];
+  if (!mutation && !serverAction) return json({ status: 'error', message: `Aksi tidak dikenal: ${request.action}` });
+
+  const lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+  try {
+    migrateLegacy();
+    // Aksi rahasia: penolakan dikembalikan sebagai { success: false, message }
+    if (serverAction) return json(serverAction(request.payload || {}));
+    const cache = CacheService.getScriptCache();
+    // Mutasi yang dikirim ulang oleh outbox cukup dikonfirmasi, tidak diterapkan dua kali
+    if (request.mutationId && cache.get(`mutation:${request.mutationId}`)) return json({ status: 'success' });
+    checkMutation(request);
+    mutation(request.payload);
+    SpreadsheetApp.flush();
+    if (request.mutationId) cache.put(`mutation:${request.mutationId}`, '1', MUTATION_CACHE_SECONDS);
+    return json({ status: 'success' });
+  } catch (error) {
+    return json({ status: error && error.rejected ? 'error' : 'retry', message: String(error && error.message || error) });
+  } finally {
+    lock.releaseLock();
+  }
+}
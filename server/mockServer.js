@@ -0,0 +1,510 @@
+// Server tiruan untuk backend 'rest' (VITE_STORAGE_BACKEND=rest).
+// Jalankan: npm run mock-server  — data disimpan di server/mock-data.json
+// Password Administrator pertama butuh kode setup: ADMIN_SETUP_CODE=... npm run mock-server
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'mock-data.json');
+
+const ADMIN_SETUP_CODE = process.env.ADMIN_SETUP_CODE || '';
+
+// private: kredensial, kode akses wali, penguncian, sesi & kunci privat kartu; tidak pernah dikirim lewat /settings
+const EMPTY_DATA = { students: [], attendance: [], settings: {}, seq: 0, audit: [], auditSeq: 0, photos: {}, photoSeq: 0, appliedMutations: [], private: { credentials: {}, parentAccess: {}, attempts: {}, sessions: {}, cardKey: null } };
+
+const loadData = () => {
+  try {
+    const stored = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    return { ...EMPTY_DATA, ...stored, private: { ...EMPTY_DATA.private, ...stored.private } };
+  } catch (e) {
+    return { ...EMPTY_DATA };
+  }
+};
+
+const data = loadData();
+
+const persist = () => {
+  fs.writeFileSync(DATA_FILE, JSON.stringify(data, null, 2));
+};
+
+// --- Kredensial, kode akses wali & sesi (sama dengan server/appsScript.gs dan services/backends/localServer.ts) ---
+
+const ADMIN_USERNAME = 'ADMINISTRATOR';
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOGIN_LOCKOUT_MINUTES = 15;
+// Dulu ikut pengaturan bersama; kini hanya di data.private
+const PRIVATE_SETTING_KEYS = ['credentials', 'parentAccess'];
+// Hanya diisi server; perangkat boleh membaca tapi tidak boleh menimpanya
+const SERVER_SETTING_KEYS = ['cardPublicKey'];
+// Menentukan peran & hak akses login, jadi hanya diterima dari sesi Administrator
+const ADMIN_SETTING_LABELS = { staff: 'Daftar staf', permissions: 'Hak akses peran' };
+const NOT_ACTIVATED_MESSAGE = 'Akun belum diaktifkan. Minta Administrator mengatur password anda.';
+const ADMIN_ONLY_MESSAGE = 'Hanya Administrator. Bila sudah login sebagai Administrator, sesi server berakhir: silakan login ulang.';
+const STAFF_ONLY_MESSAGE = 'Sesi server berakhir. Silakan login ulang.';
+const NO_PARENT_ACCESS_MESSAGE = 'Kode akses siswa ini belum dibuat. Hubungi wali kelas atau admin sekolah.';
+
+// Perangkat mengirim proof (PBKDF2); yang disimpan hanya SHA-256-nya
+const digest = (proof) => crypto.createHash('sha256').update(String(proof)).digest('base64');
+const toStored = (secret) => ({ salt: secret.salt, iterations: secret.iterations, hash: digest(secret.proof) });
+const matches = (proof, stored) => typeof proof === 'string' && digest(proof) === stored.hash;
+
+// Rahasia lama berisi hash PBKDF2 = proof, jadi cukup di-SHA-256. Token link wali lama
+// tidak bisa dikonversi dan dibuang; wali tetap bisa masuk dengan kode.
+const migrateLegacy = () => {
+  const { credentials, parentAccess } = data.settings;
+  if (!credentials && !parentAccess) return;
+  Object.values(credentials || {}).forEach(credential => {
+    const pin = credential.pin ? { ...credential.pin, hash: digest(credential.pin.hash) } : undefined;
+    data.private.credentials[credential.staffId] = { ...credential, hash: digest(credential.hash), pin };
+  });
+  Object.values(parentAccess || {}).forEach(({ link, ...access }) => {
+    data.private.parentAccess[access.studentId] = { ...access, hash: digest(access.hash) };
+  });
+  PRIVATE_SETTING_KEYS.forEach(key => delete data.settings[key]);
+  persist();
+};
+
+// Administrator bawaan selalu ADMIN; staf lain mengikuti daftar staf. null = tidak boleh login.
+// Daftar staf yang belum pernah disimpan berarti daftar bawaan aplikasi: semuanya guru.
+const roleOf = (staffId) => {
+  if (staffId === ADMIN_USERNAME) return 'ADMIN';
+  const staff = data.settings.staff;
+  if (!Array.isArray(staff)) return 'TEACHER';
+  const member = staff.find(s => s.id === staffId);
+  return member && member.active ? member.role : null;
+};
+
+const lockoutMessage = (remaining) => `Terlalu banyak percobaan. Coba lagi dalam ${Math.ceil(remaining / 60000)} menit.`;
+
+// null = cocok; selain itu pesan error untuk form. Saat terkunci rahasia yang benar pun ditolak.
+const checkAttempt = (key, matched, label) => {
+  const { attempts } = data.private;
+  const remaining = Math.max(0, ((attempts[key] && attempts[key].lockedUntil) || 0) - Date.now());
+  if (remaining > 0) return lockoutMessage(remaining);
+  if (matched) {
+    delete attempts[key];
+    return null;
+  }
+  const failures = ((attempts[key] && attempts[key].failures) || 0) + 1;
+  if (failures >= MAX_LOGIN_ATTEMPTS) {
+    attempts[key] = { failures: 0, lockedUntil: Date.now() + LOGIN_LOCKOUT_MINUTES * 60000 };
+    return lockoutMessage(LOGIN_LOCKOUT_MINUTES * 60000);
+  }
+  attempts[key] = { failures };
+  return `${label} salah! Sisa percobaan: ${MAX_LOGIN_ATTEMPTS - failures}.`;
+};
+
+// owner = { staffId } untuk staf, { studentId } untuk wali murid.
+// Umur token mengikuti batas sesi; tanpa batas tetap berakhir setelah 7 hari
+const createSession = (owner) => {
+  const { sessions } = data.private;
+  const now = Date.now();
+  Object.keys(sessions).forEach(token => {
+    if (sessions[token].expiresAt < now) delete sessions[token];
+  });
+  const maxHours = data.settings.sessionPolicy ? data.settings.sessionPolicy.maxHours : 12;
+  const hours = maxHours > 0 ? maxHours : 7 * 24;
+  const token = crypto.randomBytes(32).toString('base64');
+  sessions[token] = { ...owner, expiresAt: now + hours * 3600000 };
+  return token;
+};
+
+const readSession = (token) => {
+  const session = typeof token === 'string' ? data.private.sessions[token] : undefined;
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+const isStaffSession = (token) => {
+  const session = readSession(token);
+  return !!session && !!session.staffId && !!roleOf(session.staffId);
+};
+
+const isAdminSession = (token) => {
+  const session = readSession(token);
+  return !!session && roleOf(session.staffId) === 'ADMIN';
+};
+
+// Cakupan baca data: {} = staf (semua), { studentId } = wali murid, null = tanpa sesi
+const readScope = (token) => {
+  const session = readSession(token);
+  if (session && session.studentId) return { studentId: session.studentId };
+  return session && session.staffId && roleOf(session.staffId) ? {} : null;
+};
+
+const fail = (message) => ({ success: false, message });
+
+// Password sementara belum diganti: belum diberi token, form login meminta password baru
+const loginResult = (credential, role, message) => {
+  const mustChangePassword = !!credential.mustChangePassword;
+  return { success: true, message, role, mustChangePassword, token: mustChangePassword ? undefined : createSession({ staffId: credential.staffId }) };
+};
+
+// Wali murid menerima data siswanya (daftar siswa tidak terbuka sebelum login) dan token sesi
+const parentLoginResult = (studentId, message) => {
+  const student = data.students.find(s => s.id === studentId);
+  if (!student) return fail('Data siswa tidak ditemukan. Hubungi wali kelas atau admin sekolah.');
+  return { success: true, message, student, token: createSession({ studentId }) };
+};
+
+// Akun aktif yang sudah punya password; selain itu pesan error
+const findAccount = (staffId) => {
+  const role = roleOf(staffId);
+  if (!role) return 'Akun staf tidak aktif.';
+  const credential = data.private.credentials[staffId];
+  return credential ? { role, credential } : NOT_ACTIVATED_MESSAGE;
+};
+
+const SERVER_ACTIONS = {
+  getSecretParams: ({ staffId, unlock }) => {
+    const credential = data.private.credentials[staffId];
+    if (!credential) {
+      return staffId === ADMIN_USERNAME
+        ? { success: false, setupRequired: true, message: 'Password Administrator belum diatur. Masukkan kode setup dari pengelola server.' }
+        : fail(NOT_ACTIVATED_MESSAGE);
+    }
+    const usesPin = !!unlock && !!credential.pin;
+    const secret = usesPin ? credential.pin : credential;
+    return { success: true, message: '', salt: secret.salt, iterations: secret.iterations, usesPin };
+  },
+
+  login: ({ staffId, proof }) => {
+    const account = findAccount(staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(staffId, matches(proof, account.credential), 'Password');
+    return error ? fail(error) : loginResult(account.credential, account.role, 'Login berhasil.');
+  },
+
+  // Keluar mode kiosk dihitung terpisah (kiosk:<staffId>) supaya siswa yang iseng mencoba
+  // tidak mengunci akun petugas; tidak memberi token sesi baru
+  unlock: ({ staffId, proof, kiosk }) => {
+    const account = findAccount(staffId);
+    if (typeof account === 'string') return fail(account);
+    const { pin } = account.credential;
+    const error = checkAttempt(kiosk ? `kiosk:${staffId}` : staffId, matches(proof, pin || account.credential), pin ? 'PIN' : 'Password');
+    if (error) return fail(error);
+    return kiosk ? { success: true, message: 'Mode kiosk ditutup.' } : loginResult(account.credential, account.role, 'Layar terbuka.');
+  },
+
+  // Percobaan kode setup ikut dikunci supaya tidak bisa ditebak tanpa batas
+  setupAdmin: ({ setupCode, secret }) => {
+    if (data.private.credentials[ADMIN_USERNAME]) return fail('Password Administrator sudah diatur. Silakan login.');
+    if (!ADMIN_SETUP_CODE) return fail('Kode setup belum diatur di server (ADMIN_SETUP_CODE).');
+    const error = checkAttempt('setup', setupCode === ADMIN_SETUP_CODE, 'Kode setup');
+    if (error) return fail(error);
+    const credential = { staffId: ADMIN_USERNAME, ...toStored(secret), updatedAt: Date.now() };
+    data.private.credentials[ADMIN_USERNAME] = credential;
+    return loginResult(credential, 'ADMIN', 'Password Administrator tersimpan.');
+  },
+
+  // PIN layar kunci tetap berlaku setelah ganti password
+  changePassword: ({ staffId, proof, secret }) => {
+    const account = findAccount(staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(staffId, matches(proof, account.credential), 'Password');
+    if (error) return fail(error);
+    const credential = { staffId, ...toStored(secret), pin: account.credential.pin, updatedAt: Date.now() };
+    data.private.credentials[staffId] = credential;
+    return loginResult(credential, account.role, 'Password berhasil diganti.');
+  },
+
+  setPin: ({ staffId, proof, pin }) => {
+    const account = findAccount(staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(staffId, matches(proof, account.credential), 'Password');
+    if (error) return fail(error);
+    data.private.credentials[staffId] = { ...account.credential, pin: toStored(pin), updatedAt: Date.now() };
+    return { success: true, message: 'PIN layar kunci tersimpan.' };
+  },
+
+  // Password sementara wajib diganti saat login berikutnya; PIN lama ikut dihapus
+  resetPassword: ({ token, staffId, secret }) => {
+    if (!isAdminSession(token)) return fail(ADMIN_ONLY_MESSAGE);
+    data.private.credentials[staffId] = { staffId, ...toStored(secret), mustChangePassword: true, updatedAt: Date.now() };
+    delete data.private.attempts[staffId];
+    return { success: true, message: 'Password sementara dibuat.' };
+  },
+
+  getCredentialStatus: ({ token }) => {
+    if (!isAdminSession(token)) return fail(ADMIN_ONLY_MESSAGE);
+    const credentials = {};
+    Object.values(data.private.credentials).forEach(c => {
+      credentials[c.staffId] = { mustChangePassword: !!c.mustChangePassword, hasPin: !!c.pin };
+    });
+    return { success: true, message: '', credentials };
+  },
+
+  // --- Kode akses wali murid (penguncian per siswa: parent:<NIS>) ---
+
+  setParentAccess: ({ token, studentId, code, link }) => {
+    if (!isStaffSession(token)) return fail(STAFF_ONLY_MESSAGE);
+    data.private.parentAccess[studentId] = { studentId, ...toStored(code), link: digest(link), updatedAt: Date.now() };
+    delete data.private.attempts[`parent:${studentId}`];
+    return { success: true, message: 'Kode akses tersimpan.' };
+  },
+
+  getParentAccessStatus: ({ token, studentId }) => {
+    if (!isStaffSession(token)) return fail(STAFF_ONLY_MESSAGE);
+    return { success: true, message: '', exists: !!data.private.parentAccess[studentId] };
+  },
+
+  getParentParams: ({ studentId }) => {
+    const access = data.private.parentAccess[studentId];
+    if (!access) return fail(NO_PARENT_ACCESS_MESSAGE);
+    return { success: true, message: '', salt: access.salt, iterations: access.iterations };
+  },
+
+  verifyParentCode: ({ studentId, proof }) => {
+    const access = data.private.parentAccess[studentId];
+    if (!access) return fail(NO_PARENT_ACCESS_MESSAGE);
+    const error = checkAttempt(`parent:${studentId}`, matches(proof, access), 'Kode akses');
+    return error ? fail(error) : parentLoginResult(studentId, 'Kode akses benar.');
+  },
+
+  // Token link hanya berlaku sekali: dihapus dari data siswa itu begitu dipakai
+  redeemParentLink: ({ studentId, token }) => {
+    const access = data.private.parentAccess[studentId];
+    if (!access || !access.link || typeof token !== 'string' || digest(token) !== access.link) {
+      return fail('Link sudah pernah dipakai atau tidak berlaku. Silakan masuk dengan kode akses.');
+    }
+    const { link, ...rest } = access;
+    data.private.parentAccess[studentId] = { ...rest, updatedAt: Date.now() };
+    return parentLoginResult(studentId, 'Link valid.');
+  },
+
+  // --- Kunci tanda tangan kartu siswa ---
+
+  // Kunci privat hanya untuk sesi Administrator yang mencetak kartu. Dibuat server saat pertama
+  // diminta; kunci publiknya diterbitkan lewat pengaturan cardPublicKey.
+  getCardSigningKey: ({ token }) => {
+    if (!isAdminSession(token)) return fail(ADMIN_ONLY_MESSAGE);
+    if (data.private.cardKey) return { success: true, message: '', key: data.private.cardKey, created: false };
+    const { kty, crv, x, y, d } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey.export({ format: 'jwk' });
+    data.private.cardKey = { kty, crv, x, y, d };
+    data.settings.cardPublicKey = { kty, crv, x, y };
+    return { success: true, message: 'Kunci kartu dibuat.', key: data.private.cardKey, created: true };
+  }
+};
+
+const applyServerAction = (action, payload) => {
+  const handler = SERVER_ACTIONS[action];
+  if (!handler) return fail(`Aksi tidak dikenal: ${action}`);
+  const result = handler(payload || {});
+  persist();
+  return result;
+};
+
+
+// Versi record untuk last-writer-wins (record lama tanpa updatedAt memakai timestamp)
+const versionOf = (record) => record.updatedAt ?? record.timestamp;
+
+// Kunci idempotensi NIS|tanggal|sesi; record lama tanpa kunci dihitung dari isinya (sesi default DHUHUR)
+const keyOf = (record) => record.idempotencyKey || `${record.studentId}|${record.date}|${record.sessionId || 'DHUHUR'}`;
+
+// Dari dua record dengan kunci sama, scan pertama dipertahankan (seri: id terkecil)
+const isCanonical = (a, b) => a.timestamp !== b.timestamp ? a.timestamp < b.timestamp : a.id < b.id;
+
+// Penolakan permanen (HTTP 400): mengirim ulang tidak akan menolong. Error lain (mis. gagal
+// menulis file) dijawab HTTP 500 supaya outbox mencoba lagi.
+const rejection = (message) => Object.assign(new Error(message), { rejected: true });
+
+// Token habis/tidak ada (HTTP 401, status 'retry'): antrean terkirim setelah petugas login ulang
+const sessionExpired = () => Object.assign(new Error(STAFF_ONLY_MESSAGE), { expired: true });
+
+const isText = (value) => typeof value === 'string' && value !== '';
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+const isAttendance = (payload) => isObject(payload) && isText(payload.id) && isText(payload.studentId) && isText(payload.date);
+
+const PAYLOAD_CHECKS = {
+  saveStudents: (payload) => Array.isArray(payload),
+  saveSetting: (payload) => isObject(payload) && isText(payload.key),
+  saveSettingEntries: (payload) => isObject(payload) && isText(payload.key) && isObject(payload.entries),
+  addAttendance: isAttendance,
+  updateAttendance: isAttendance,
+  deleteAttendance: isAttendance,
+  appendAudit: (payload) => isObject(payload) && isText(payload.id),
+  savePhoto: (payload) => isObject(payload) && isText(payload.studentId) && typeof payload.updatedAt === 'number'
+};
+
+const checkSettingKey = (key, token) => {
+  if ([...PRIVATE_SETTING_KEYS, ...SERVER_SETTING_KEYS].includes(key)) throw rejection(`Pengaturan ${key} hanya bisa diubah lewat server.`);
+  if (ADMIN_SETTING_LABELS[key] && !isAdminSession(token)) {
+    throw rejection(`${ADMIN_SETTING_LABELS[key]} hanya bisa diubah Administrator. Login ulang lalu kirim ulang perubahan.`);
+  }
+};
+
+// Setiap perubahan absensi diberi nomor urut (_seq); cursor delta sync = nomor urut terakhir.
+// Semua aksi absensi membawa record utuh (delete = tombstone berisi deletedAt).
+// Semua mutasi butuh sesi staf; sesi wali murid ditolak.
+const applyMutation = (action, payload, token) => {
+  if (!PAYLOAD_CHECKS[action]) throw rejection(`Aksi tidak dikenal: ${action}`);
+  if (!PAYLOAD_CHECKS[action](payload)) throw rejection(`Data ${action} tidak lengkap.`);
+  if (!readSession(token)) throw sessionExpired();
+  if (!isStaffSession(token)) throw rejection('Perubahan data hanya diterima dari sesi staf.');
+  switch (action) {
+    case 'saveStudents':
+      data.students = payload;
+      break;
+    case 'saveSetting':
+      checkSettingKey(payload.key, token);
+      data.settings[payload.key] = payload.value;
+      break;
+    // Hanya entri yang dikirim yang diganti (mis. riwayat kartu per NIS)
+    case 'saveSettingEntries':
+      checkSettingKey(payload.key, token);
+      data.settings[payload.key] = { ...data.settings[payload.key], ...payload.entries };
+      break;
+    case 'addAttendance':
+    case 'updateAttendance':
+    case 'deleteAttendance': {
+      const existing = data.attendance.find(r => r.id === payload.id);
+      if (existing && versionOf(existing) > versionOf(payload)) break;
+      let record = payload;
+      // Absen ganda dari perangkat lain: yang kalah disimpan sebagai tombstone
+      if (!record.deletedAt) {
+        const now = Date.now();
+        const rivals = data.attendance.filter(r => r.id !== record.id && !r.deletedAt && keyOf(r) === keyOf(record));
+        if (rivals.some(r => isCanonical(r, record))) {
+          record = { ...record, deletedAt: now, updatedAt: now };
+        } else {
+          rivals.forEach(r => Object.assign(r, { deletedAt: now, updatedAt: now, _seq: ++data.seq }));
+        }
+      }
+      data.attendance = data.attendance.filter(r => r.id !== record.id);
+      data.attendance.push({ ...record, _seq: ++data.seq });
+      break;
+    }
+    // Jejak audit hanya ditambah, entri dengan id yang sudah ada diabaikan
+    case 'appendAudit':
+      if (!data.audit.some(e => e.id === payload.id)) data.audit.push({ ...payload, _seq: ++data.auditSeq });
+      break;
+    // Foto siswa: yang lebih baru menang (updatedAt)
+    case 'savePhoto': {
+      const existing = data.photos[payload.studentId];
+      if (!existing || existing.updatedAt < payload.updatedAt) data.photos[payload.studentId] = { ...payload, _seq: ++data.photoSeq };
+      break;
+    }
+  }
+};
+
+// Foto berukuran besar, jadi perubahan dikirim per halaman; cursor = nomor urut foto terakhir
+const PHOTO_PAGE_SIZE = 50;
+
+// Cursor sesi wali diberi awalan NIS, jadi cursor staf (atau wali siswa lain) tidak cocok dan
+// perangkat mengunduh ulang penuh; cache lama tidak tercampur data yang tidak boleh dilihat.
+const cursorPrefix = (studentId) => studentId ? `${studentId}:` : '';
+
+const readCursor = (since, studentId) => {
+  const prefix = cursorPrefix(studentId);
+  return since.startsWith(prefix) ? Number(since.slice(prefix.length)) : NaN;
+};
+
+// Bacaan data sekolah; studentId terisi untuk sesi wali murid
+const READS = {
+  '/students': (since, studentId) => data.students.filter(s => !studentId || s.id === studentId),
+
+  '/attendance/changes': (since, studentId) => {
+    const isFull = since === null;
+    const sinceSeq = isFull ? 0 : readCursor(since, studentId);
+    return {
+      changed: data.attendance.filter(r => (isFull || r._seq > sinceSeq) && (!studentId || r.studentId === studentId)).map(({ _seq, ...r }) => r),
+      cursor: cursorPrefix(studentId) + data.seq,
+      resyncRequired: !isFull && (Number.isNaN(sinceSeq) || sinceSeq > data.seq),
+      serverTime: Date.now()
+    };
+  },
+
+  '/audit/changes': (since) => {
+    const sinceSeq = Number(since) || 0;
+    return {
+      entries: data.audit.filter(e => e._seq > sinceSeq).map(({ _seq, ...e }) => e),
+      cursor: String(data.auditSeq)
+    };
+  },
+
+  '/photos/changes': (since, studentId) => {
+    const sinceSeq = since === null ? 0 : readCursor(since, studentId) || 0;
+    const changed = Object.values(data.photos).filter(p => p._seq > sinceSeq && (!studentId || p.studentId === studentId)).sort((a, b) => a._seq - b._seq);
+    const page = changed.slice(0, PHOTO_PAGE_SIZE);
+    return {
+      photos: page.map(({ _seq, ...p }) => p),
+      cursor: cursorPrefix(studentId) + (page.length > 0 ? page[page.length - 1]._seq : sinceSeq),
+      hasMore: changed.length > PHOTO_PAGE_SIZE
+    };
+  }
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch (e) {
+      reject(e);
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  // Pengaturan tetap terbuka karena form login butuh daftar staf; data lain butuh sesi
+  if (req.method === 'GET' && url.pathname === '/settings') return send(res, 200, data.settings);
+  const read = req.method === 'GET' && READS[url.pathname];
+  if (read) {
+    const scope = readScope(url.searchParams.get('token'));
+    if (!scope) return send(res, 401, { status: 'error', message: STAFF_ONLY_MESSAGE });
+    if (scope.studentId && url.pathname === '/audit/changes') return send(res, 403, { status: 'error', message: 'Jejak audit hanya untuk staf.' });
+    return send(res, 200, read(url.searchParams.get('since'), scope.studentId));
+  }
+
+  if (req.method === 'POST' && url.pathname === '/mutations') {
+    try {
+      const { action, payload, mutationId, token } = await readBody(req).catch(() => { throw rejection('Body bukan JSON.'); });
+      // Mutasi yang dikirim ulang oleh outbox cukup dikonfirmasi, tidak diterapkan dua kali
+      if (!mutationId || !data.appliedMutations.includes(mutationId)) {
+        applyMutation(action, payload, token);
+        if (mutationId) data.appliedMutations.push(mutationId);
+        persist();
+      }
+      return send(res, 200, { status: 'success' });
+    } catch (e) {
+      if (e.rejected) return send(res, 400, { status: 'error', message: e.message });
+      return send(res, e.expired ? 401 : 500, { status: 'retry', message: e.message });
+    }
+  }
+
+  // Aksi rahasia (login, password, PIN): penolakan tetap 200 dengan success: false
+  if (req.method === 'POST' && url.pathname === '/server') {
+    try {
+      const { action, payload } = await readBody(req);
+      return send(res, 200, applyServerAction(action, payload));
+    } catch (e) {
+      return send(res, 400, { success: false, message: e.message });
+    }
+  }
+
+  send(res, 404, { status: 'error', message: 'Not found' });
+});
+
+migrateLegacy();
+
+server.listen(PORT, () => {
+  console.log(`Mock server berjalan di http://localhost:${PORT}`);
+});
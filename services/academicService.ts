@@ -0,0 +1,56 @@
+import { format } from 'date-fns';
+import { AcademicYear, AcademicPeriod, DateRange } from '../types';
+import { DEFAULT_ACADEMIC_YEARS, SETTING_KEYS, STORAGE_KEYS } from '../constants';
+import { getSetting, saveSetting } from './settingsService';
+
+export const getAcademicYears = (): AcademicYear[] =>
+  getSetting(SETTING_KEYS.ACADEMIC_YEARS, DEFAULT_ACADEMIC_YEARS);
+
+export const saveAcademicYears = (years: AcademicYear[]) =>
+  saveSetting(SETTING_KEYS.ACADEMIC_YEARS, years);
+
+const todayStr = () => format(new Date(), 'yyyy-MM-dd');
+
+const toPeriod = (year: AcademicYear, semesterIndex: number): AcademicPeriod => {
+  const semester = year.semesters[semesterIndex];
+  return { year, semester, readOnly: semester.end < todayStr() };
+};
+
+const allPeriods = (years: AcademicYear[]): AcademicPeriod[] =>
+  years.flatMap(year => year.semesters.map((_, i) => toPeriod(year, i)));
+
+// Semester yang memuat tanggal; di masa jeda pakai semester terakhir yang sudah lewat,
+// bila belum ada sama sekali pakai semester pertama yang terdaftar.
+export const getPeriodForDate = (years: AcademicYear[], date: string = todayStr()): AcademicPeriod | undefined => {
+  const periods = allPeriods(years);
+  return periods.find(p => date >= p.semester.start && date <= p.semester.end)
+    || periods.filter(p => p.semester.end < date).sort((a, b) => b.semester.end.localeCompare(a.semester.end))[0]
+    || periods[0];
+};
+
+// Tanpa pilihan (atau pilihan sudah dihapus admin) jatuh ke semester berjalan. Semester
+// berjalan tidak pernah arsip, termasuk saat jeda sebelum tahun berikutnya didaftarkan.
+export const findPeriod = (years: AcademicYear[], semesterId: string | null): AcademicPeriod => {
+  const current = getPeriodForDate(years) || getPeriodForDate(DEFAULT_ACADEMIC_YEARS)!;
+  const selected = allPeriods(years).find(p => p.semester.id === semesterId);
+  if (selected && selected.semester.id !== current.semester.id) return selected;
+  return { ...current, readOnly: false };
+};
+
+// Pilihan periode di header bersifat per perangkat, tidak disinkronkan
+export const getSelectedSemesterId = (): string | null => localStorage.getItem(STORAGE_KEYS.SELECTED_SEMESTER);
+
+export const setSelectedSemesterId = (semesterId: string | null) => {
+  if (semesterId) localStorage.setItem(STORAGE_KEYS.SELECTED_SEMESTER, semesterId);
+  else localStorage.removeItem(STORAGE_KEYS.SELECTED_SEMESTER);
+};
+
+export const getPeriodRange = (period: AcademicPeriod): DateRange =>
+  ({ start: period.semester.start, end: period.semester.end });
+
+export const isDateInPeriod = (period: AcademicPeriod, date: string): boolean =>
+  date >= period.semester.start && date <= period.semester.end;
+
+// Tanggal dibatasi ke dalam semester (untuk default filter laporan)
+export const clampDateToPeriod = (period: AcademicPeriod, date: string): string =>
+  date < period.semester.start ? period.semester.start : date > period.semester.end ? period.semester.end : date;
@@ -0,0 +1,108 @@
+import { AttendanceRecord } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { shouldReplace, isLive } from './attendanceMerge';
+
+// Cache absensi lokal di IndexedDB. Menggantikan blob localStorage
+// STORAGE_KEYS.ATTENDANCE yang harus di-parse ulang setiap kali scan.
+// Tombstone (deletedAt) ikut tersimpan, tetapi tidak pernah dikembalikan oleh query baca.
+const DB_NAME = 'smpn3pacet_cache';
+const DB_VERSION = 1;
+const STORE = 'attendance';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Migrasi satu kali dari localStorage; key lama dihapus setelah berhasil disalin
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const stored = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
+  if (!stored) return;
+  try {
+    const legacyRecords: AttendanceRecord[] = JSON.parse(stored);
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    legacyRecords.forEach(r => store.put(r));
+    await transactionDone(tx);
+    localStorage.removeItem(STORAGE_KEYS.ATTENDANCE);
+    console.info(`Migrasi ${legacyRecords.length} record absensi ke IndexedDB selesai.`);
+  } catch (e) {
+    console.warn("Migrasi cache absensi gagal, dicoba lagi saat aplikasi dibuka ulang.", e);
+  }
+};
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      const store = db.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('date', 'date');
+      store.createIndex('studentId', 'studentId');
+      store.createIndex('className', 'className');
+      store.createIndex('studentDate', ['studentId', 'date']);
+    }).then(async (db) => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+const sortNewestFirst = (records: AttendanceRecord[]) => records.sort((a, b) => b.timestamp - a.timestamp);
+
+// start & end format YYYY-MM-DD, inklusif
+export const getRecordsInRange = async (start: string, end: string): Promise<AttendanceRecord[]> => {
+  const db = await getDb();
+  const index = db.transaction(STORE).objectStore(STORE).index('date');
+  const records = await requestToPromise(index.getAll(IDBKeyRange.bound(start, end)));
+  return sortNewestFirst(records.filter(isLive));
+};
+
+export const getRecordsForStudentOnDate = async (studentId: string, date: string): Promise<AttendanceRecord[]> => {
+  const db = await getDb();
+  const index = db.transaction(STORE).objectStore(STORE).index('studentDate');
+  const records = await requestToPromise(index.getAll([studentId, date]));
+  return records.filter(isLive);
+};
+
+export const getRecord = async (id: string): Promise<AttendanceRecord | undefined> => {
+  const db = await getDb();
+  return requestToPromise(db.transaction(STORE).objectStore(STORE).get(id));
+};
+
+export const putRecords = async (records: AttendanceRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  records.forEach(r => store.put(r));
+  await transactionDone(tx);
+};
+
+export const putRecord = (record: AttendanceRecord) => putRecords([record]);
+
+// Gabungkan record dari server dengan aturan last-writer-wins
+export const mergeRecords = async (incoming: AttendanceRecord[]): Promise<void> => {
+  if (incoming.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  incoming.forEach(record => {
+    const request = store.get(record.id);
+    request.onsuccess = () => {
+      if (shouldReplace(request.result, record)) store.put(record);
+    };
+  });
+  await transactionDone(tx);
+};
+
+export const getAllRecordIds = async (): Promise<string[]> => {
+  const db = await getDb();
+  return requestToPromise(db.transaction(STORE).objectStore(STORE).getAllKeys()) as Promise<string[]>;
+};
+
+export const removeRecords = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
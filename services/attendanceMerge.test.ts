@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord } from '../types';
+import { collapseDuplicates, getIdempotencyKey, isCanonical, isLive, shouldReplace } from './attendanceMerge';
+
+const record = (changes: Partial<AttendanceRecord> = {}): AttendanceRecord => ({
+  id: 'r1',
+  studentId: '1001',
+  studentName: 'Ahmad',
+  className: '7A',
+  date: '2026-01-05',
+  timestamp: 1000,
+  ...changes
+});
+
+describe('shouldReplace', () => {
+  it('selalu menerima record yang belum ada', () => {
+    expect(shouldReplace(undefined, record())).toBe(true);
+  });
+
+  it('versi lebih baru menang, versi lama diabaikan', () => {
+    expect(shouldReplace(record({ updatedAt: 2000 }), record({ updatedAt: 3000 }))).toBe(true);
+    expect(shouldReplace(record({ updatedAt: 3000 }), record({ updatedAt: 2000 }))).toBe(false);
+  });
+
+  it('versi sama: incoming (data server) menang', () => {
+    expect(shouldReplace(record({ updatedAt: 2000, status: 'PRESENT' }), record({ updatedAt: 2000, status: 'HAID' }))).toBe(true);
+  });
+
+  it('record lama tanpa updatedAt memakai timestamp scan', () => {
+    expect(shouldReplace(record({ timestamp: 5000 }), record({ timestamp: 1000, updatedAt: 4000 }))).toBe(false);
+    expect(shouldReplace(record({ timestamp: 5000 }), record({ timestamp: 1000, updatedAt: 6000 }))).toBe(true);
+  });
+
+  it('tombstone yang lebih baru menimpa record hidup', () => {
+    const tombstone = record({ updatedAt: 3000, deletedAt: 3000 });
+    expect(shouldReplace(record({ updatedAt: 2000 }), tombstone)).toBe(true);
+    expect(isLive(tombstone)).toBe(false);
+  });
+});
+
+describe('getIdempotencyKey', () => {
+  it('memakai kunci yang tersimpan', () => {
+    expect(getIdempotencyKey(record({ idempotencyKey: '1001|2026-01-05|DHUHA' }))).toBe('1001|2026-01-05|DHUHA');
+  });
+
+  it('record lama dihitung dari NIS, tanggal & sesi (bawaan Dhuhur)', () => {
+    expect(getIdempotencyKey(record())).toBe('1001|2026-01-05|DHUHUR');
+    expect(getIdempotencyKey(record({ sessionId: 'DHUHA' }))).toBe('1001|2026-01-05|DHUHA');
+  });
+});
+
+describe('isCanonical', () => {
+  it('scan pertama yang dipertahankan', () => {
+    expect(isCanonical(record({ id: 'b', timestamp: 1000 }), record({ id: 'a', timestamp: 2000 }))).toBe(true);
+    expect(isCanonical(record({ id: 'a', timestamp: 2000 }), record({ id: 'b', timestamp: 1000 }))).toBe(false);
+  });
+
+  it('waktu sama: id terkecil menang, dari sisi mana pun dibandingkan', () => {
+    const a = record({ id: 'a' });
+    const b = record({ id: 'b' });
+    expect(isCanonical(a, b)).toBe(true);
+    expect(isCanonical(b, a)).toBe(false);
+  });
+});
+
+describe('collapseDuplicates', () => {
+  it('menyembunyikan scan ganda siswa yang sama di sesi yang sama', () => {
+    const first = record({ id: 'x', timestamp: 1000 });
+    const second = record({ id: 'y', timestamp: 2000, idempotencyKey: '1001|2026-01-05|DHUHUR' });
+    const otherSession = record({ id: 'z', timestamp: 3000, sessionId: 'DHUHA' });
+
+    const result = collapseDuplicates([second, otherSession, first]);
+    expect(result.records).toEqual([otherSession, first]);
+    expect(result.duplicates).toEqual([second]);
+  });
+
+  it('tanpa duplikat daftar asli dikembalikan apa adanya', () => {
+    const records = [record({ id: 'x' }), record({ id: 'y', studentId: '1002' })];
+    expect(collapseDuplicates(records).records).toBe(records);
+  });
+});
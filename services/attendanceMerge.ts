@@ -0,0 +1,46 @@
+import { AttendanceRecord } from '../types';
+import { DEFAULT_SESSION_ID } from '../constants';
+
+// Aturan merge last-writer-wins. Record lama tanpa updatedAt memakai timestamp scan.
+export const getRecordVersion = (record: AttendanceRecord): number => record.updatedAt ?? record.timestamp;
+
+// true bila incoming boleh menimpa current. Versi sama: incoming menang
+// supaya data server yang sudah dikonfirmasi tetap konsisten di semua perangkat.
+export const shouldReplace = (current: AttendanceRecord | undefined, incoming: AttendanceRecord): boolean =>
+  !current || getRecordVersion(incoming) >= getRecordVersion(current);
+
+export const isLive = (record: AttendanceRecord): boolean => !record.deletedAt;
+
+// Satu siswa hanya boleh punya satu absen per tanggal & sesi, dari perangkat mana pun
+export const buildIdempotencyKey = (studentId: string, date: string, sessionId: string): string =>
+  `${studentId}|${date}|${sessionId}`;
+
+// Record lama belum menyimpan kunci; dihitung dari isinya
+export const getIdempotencyKey = (record: AttendanceRecord): string =>
+  record.idempotencyKey || buildIdempotencyKey(record.studentId, record.date, record.sessionId || DEFAULT_SESSION_ID);
+
+// Dari dua record dengan kunci sama, scan pertama yang dipertahankan (seri: id terkecil).
+// Aturan yang sama dipakai server, jadi semua perangkat sepakat tanpa koordinasi.
+export const isCanonical = (a: AttendanceRecord, b: AttendanceRecord): boolean =>
+  a.timestamp !== b.timestamp ? a.timestamp < b.timestamp : a.id < b.id;
+
+// Gabungkan record ganda (kunci sama); duplicates = record yang disembunyikan
+export const collapseDuplicates = (records: AttendanceRecord[]): { records: AttendanceRecord[]; duplicates: AttendanceRecord[] } => {
+  const canonical = new Map<string, AttendanceRecord>();
+  const duplicates: AttendanceRecord[] = [];
+  records.forEach(record => {
+    const key = getIdempotencyKey(record);
+    const current = canonical.get(key);
+    if (!current) {
+      canonical.set(key, record);
+    } else if (isCanonical(record, current)) {
+      canonical.set(key, record);
+      duplicates.push(current);
+    } else {
+      duplicates.push(record);
+    }
+  });
+  if (duplicates.length === 0) return { records, duplicates };
+  const hidden = new Set(duplicates.map(r => r.id));
+  return { records: records.filter(r => !hidden.has(r.id)), duplicates };
+};
@@ -0,0 +1,70 @@
+import { AttendanceRecord, AuditAction, AuditEntry } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { enqueueMutation } from './outboxService';
+import { getBackend } from './backends';
+import { readAuthSession } from './authSessionService';
+
+// Jejak audit perubahan absensi (append-only). Entri ditulis ke IndexedDB lokal lalu
+// dikirim lewat outbox; entri dari perangkat lain diunduh dengan cursor seperti absensi.
+const DB_NAME = 'smpn3pacet_audit';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      db.createObjectStore(STORE, { keyPath: 'id' });
+    });
+  }
+  return dbPromise;
+};
+
+const putEntries = async (entries: AuditEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  entries.forEach(e => store.put(e));
+  await transactionDone(tx);
+};
+
+export const appendAudit = async (
+  action: AuditAction,
+  before: AttendanceRecord | null,
+  after: AttendanceRecord,
+  actor: string,
+  sourceId?: string
+): Promise<AuditEntry> => {
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    recordId: after.id,
+    studentId: after.studentId,
+    studentName: after.studentName,
+    action,
+    actor,
+    timestamp: Date.now(),
+    before,
+    after
+  };
+  if (sourceId) entry.sourceId = sourceId;
+  await putEntries([entry]);
+  enqueueMutation('appendAudit', entry);
+  return entry;
+};
+
+// Melempar error bila server tidak bisa dihubungi; entri lokal tetap bisa dibaca
+export const syncAuditLog = async (): Promise<void> => {
+  const cursor = localStorage.getItem(STORAGE_KEYS.AUDIT_CURSOR);
+  const delta = await getBackend().getAuditChanges(cursor, readAuthSession()?.token);
+  await putEntries(delta.entries);
+  localStorage.setItem(STORAGE_KEYS.AUDIT_CURSOR, delta.cursor);
+};
+
+export const getAuditEntries = async (): Promise<AuditEntry[]> => {
+  const db = await getDb();
+  const entries: AuditEntry[] = await requestToPromise(db.transaction(STORE).objectStore(STORE).getAll());
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,155 @@
+import { CredentialStatus, LoginResult, SecretProof, ServerAction } from '../types';
+import { MIN_PASSWORD_LENGTH, PIN_PATTERN } from '../constants';
+import { getBackend } from './backends';
+import { readAuthSession } from './authSessionService';
+
+// Password, PIN dan penguncian login staf diperiksa server; hash tersimpan tidak pernah
+// dikirim ke perangkat. Perangkat hanya menghitung PBKDF2 dengan salt dari server, jadi
+// password asli tidak pernah keluar dari perangkat yang mengetiknya.
+// Panggilan server & proof di sini juga dipakai kode akses wali murid (parentAccessService).
+
+const PBKDF2_ITERATIONS = 100000;
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveHash = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toBase64(bits);
+};
+
+// Kode acak tanpa huruf/angka yang mudah tertukar (0/O, 1/I/L)
+export const generateCode = (length: number, alphabet = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), b => alphabet[b % alphabet.length]).join('');
+
+export const validatePassword = (password: string): string | null =>
+  password.length < MIN_PASSWORD_LENGTH ? `Password minimal ${MIN_PASSWORD_LENGTH} karakter.` : null;
+
+export const validatePin = (pin: string): string | null =>
+  PIN_PATTERN.test(pin) ? null : 'PIN harus 4-6 angka.';
+
+// --- Server ---
+
+const OFFLINE_MESSAGE = 'Server tidak bisa dihubungi. Periksa internet lalu coba lagi.';
+
+export interface ServerResult {
+  success: boolean;
+  message: string;
+}
+
+// Gagal koneksi dikembalikan sebagai pesan untuk form, sama seperti penolakan server
+export const callServer = async <T extends ServerResult>(action: ServerAction, payload: any): Promise<T> => {
+  try {
+    return await getBackend().callServer(action, payload);
+  } catch (e) {
+    console.warn(`Gagal memanggil ${action}.`, e);
+    return { success: false, message: OFFLINE_MESSAGE } as T;
+  }
+};
+
+// Rahasia baru: salt acak, server menyimpan SHA-256 dari proof
+export const createProof = async (secret: string): Promise<SecretProof> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, proof: await deriveHash(secret, salt, PBKDF2_ITERATIONS) };
+};
+
+// Proof untuk rahasia yang sudah tersimpan, dengan salt & iterasi dari server
+export const deriveProof = (secret: string, params: { salt: string; iterations: number }): Promise<string> =>
+  deriveHash(secret, fromBase64(params.salt), params.iterations);
+
+interface SecretParams extends ServerResult {
+  salt?: string;
+  iterations?: number;
+  usesPin?: boolean; // Hanya untuk unlock: PIN layar kunci sudah diatur
+  setupRequired?: boolean;
+}
+
+// Salt & iterasi rahasia staf. unlock = PIN bila sudah diatur, selain itu password
+const getSecretParams = (staffId: string, unlock = false) =>
+  callServer<SecretParams>('getSecretParams', { staffId, unlock });
+
+const proveSecret = async (staffId: string, secret: string, unlock = false): Promise<SecretParams & { proof?: string }> => {
+  const params = await getSecretParams(staffId, unlock);
+  if (!params.success) return params;
+  return { ...params, proof: await deriveProof(secret, { salt: params.salt!, iterations: params.iterations! }) };
+};
+
+export const getSessionToken = () => readAuthSession()?.token;
+
+// --- Login & pengelolaan password ---
+
+// Peran diambil server dari daftar staf saat login, jadi perubahan peran oleh admin langsung berlaku.
+// setupRequired = password Administrator belum pernah dibuat.
+export const verifyLogin = async (staffId: string, password: string): Promise<LoginResult> => {
+  const { proof, ...params } = await proveSecret(staffId, password);
+  if (!params.success) return params;
+  return callServer<LoginResult>('login', { staffId, proof });
+};
+
+// Pengaturan awal password admin butuh kode setup yang hanya diketahui pengelola server
+// (ADMIN_SETUP_CODE, lihat README), supaya pengunjung pertama tidak bisa merebut akun admin.
+export const setupAdminPassword = async (setupCode: string, password: string): Promise<LoginResult> => {
+  const invalid = validatePassword(password);
+  if (invalid) return { success: false, message: invalid };
+  return callServer<LoginResult>('setupAdmin', { setupCode: setupCode.trim(), secret: await createProof(password) });
+};
+
+// PIN layar kunci tetap berlaku setelah ganti password
+export const changePassword = async (staffId: string, currentPassword: string, newPassword: string): Promise<LoginResult> => {
+  const invalid = validatePassword(newPassword);
+  if (invalid) return { success: false, message: invalid };
+  if (currentPassword === newPassword) return { success: false, message: 'Password baru harus berbeda dari password lama.' };
+
+  const { proof, ...params } = await proveSecret(staffId, currentPassword);
+  if (!params.success) return params;
+  return callServer<LoginResult>('changePassword', { staffId, proof, secret: await createProof(newPassword) });
+};
+
+// Reset oleh admin: buat password sementara yang wajib diganti saat login berikutnya.
+// password hanya ada di hasil ini; server menyimpan hash-nya saja.
+export const resetPassword = async (staffId: string): Promise<ServerResult & { password?: string }> => {
+  const temporary = generateCode(8, 'abcdefghjkmnpqrstuvwxyz23456789');
+  const result = await callServer<ServerResult>('resetPassword', { token: getSessionToken(), staffId, secret: await createProof(temporary) });
+  return result.success ? { ...result, password: temporary } : result;
+};
+
+export const getCredentialStatus = () =>
+  callServer<ServerResult & { credentials?: Record<string, CredentialStatus> }>('getCredentialStatus', { token: getSessionToken() });
+
+// --- Layar kunci & ganti petugas ---
+
+export const setPin = async (staffId: string, password: string, pin: string): Promise<LoginResult> => {
+  const invalid = validatePin(pin);
+  if (invalid) return { success: false, message: invalid };
+
+  const { proof, ...params } = await proveSecret(staffId, password);
+  if (!params.success) return params;
+  return callServer<LoginResult>('setPin', { staffId, proof, pin: await createProof(pin) });
+};
+
+// undefined = server tidak bisa dihubungi / akun belum aktif
+export const getUnlockMethod = async (staffId: string): Promise<'pin' | 'password' | undefined> => {
+  const params = await getSecretParams(staffId, true);
+  if (!params.success) return undefined;
+  return params.usesPin ? 'pin' : 'password';
+};
+
+// Buka layar kunci atau ganti petugas: PIN bila sudah diatur, selain itu password.
+// Percobaan gagal dihitung server bersama login biasa supaya PIN tidak bisa ditebak tanpa batas.
+export const verifyUnlock = async (staffId: string, secret: string): Promise<LoginResult> => {
+  const { proof, ...params } = await proveSecret(staffId, secret, true);
+  if (!params.success) return params;
+  return callServer<LoginResult>('unlock', { staffId, proof });
+};
+
+// Keluar mode kiosk: rahasia sama dengan buka layar kunci, tapi percobaan gagal dihitung
+// terpisah supaya siswa di depan kiosk tidak bisa mengunci akun petugas
+export const verifyKioskExit = async (staffId: string, secret: string): Promise<ServerResult> => {
+  const { proof, ...params } = await proveSecret(staffId, secret, true);
+  if (!params.success) return params;
+  return callServer<ServerResult>('unlock', { staffId, proof, kiosk: true });
+};
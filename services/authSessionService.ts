@@ -0,0 +1,60 @@
+import { AuthSession, SessionPolicy, Student, UserRole } from '../types';
+import { DEFAULT_SESSION_POLICY, SETTING_KEYS, STORAGE_KEYS } from '../constants';
+import { getSetting, saveSetting } from './settingsService';
+
+// Sesi login per perangkat. HP scan di pintu masjid sering ditinggal dalam keadaan login,
+// jadi sesi punya batas diam (layar dikunci) dan batas umur (wajib login ulang).
+
+// Aktivitas tidak ditulis setiap sentuhan; cukup sekali per jeda ini
+const TOUCH_THROTTLE_MS = 15000;
+
+export const getSessionPolicy = (): SessionPolicy =>
+  getSetting(SETTING_KEYS.SESSION_POLICY, DEFAULT_SESSION_POLICY);
+
+export const saveSessionPolicy = (policy: SessionPolicy) => saveSetting(SETTING_KEYS.SESSION_POLICY, policy);
+
+export const readAuthSession = (): AuthSession | null => {
+  const stored = localStorage.getItem(STORAGE_KEYS.AUTH);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return null;
+  }
+};
+
+const writeAuthSession = (session: AuthSession) => {
+  localStorage.setItem(STORAGE_KEYS.AUTH, JSON.stringify(session));
+};
+
+// Juga dipakai saat ganti petugas: dihitung login baru, batas umur sesi mulai dari awal
+export const startAuthSession = (username: string, role: UserRole, studentData?: Student, token?: string): AuthSession => {
+  const now = Date.now();
+  const session: AuthSession = { username, role, studentData, loginAt: now, lastActiveAt: now, token };
+  writeAuthSession(session);
+  return session;
+};
+
+export const clearAuthSession = () => localStorage.removeItem(STORAGE_KEYS.AUTH);
+
+export const touchAuthSession = (force = false) => {
+  const session = readAuthSession();
+  if (!session || session.locked) return;
+  const now = Date.now();
+  if (!force && now - session.lastActiveAt < TOUCH_THROTTLE_MS) return;
+  writeAuthSession({ ...session, lastActiveAt: now });
+};
+
+// Buka kunci memberi token sesi server baru; token lama dipakai bila tidak ada
+export const setSessionLocked = (locked: boolean, token?: string) => {
+  const session = readAuthSession();
+  if (!session) return;
+  writeAuthSession({ ...session, locked, lastActiveAt: Date.now(), token: token || session.token });
+};
+
+// Sesi lama (sebelum ada loginAt) dianggap habis supaya login permanen ikut berakhir
+export const isSessionExpired = (session: AuthSession, policy: SessionPolicy, now = Date.now()): boolean =>
+  !session.loginAt || (policy.maxHours > 0 && now - session.loginAt > policy.maxHours * 3600000);
+
+export const isSessionIdle = (session: AuthSession, policy: SessionPolicy, now = Date.now()): boolean =>
+  policy.idleMinutes > 0 && now - session.lastActiveAt > policy.idleMinutes * 60000;
@@ -0,0 +1,59 @@
+import { StorageBackend, MutationAction, ServerAction } from '../../types';
+import { GOOGLE_SCRIPT_URL } from '../../constants';
+import { fetchWithTimeout, confirmMutation } from '../http';
+
+// Protokol Google Apps Script: GET ?action=..., POST { action, payload, mutationId, token }.
+// Aksi rahasia (login, password, PIN) juga lewat POST { action, payload } tanpa mutationId.
+// Kode server ada di server/appsScript.gs; deploy ulang setiap protokol di sini berubah.
+// Aksi absensi selalu membawa record utuh beserta updatedAt, server menerapkan last-writer-wins.
+// Record hidup dengan idempotencyKey yang sudah dimiliki record hidup lain: scan pertama
+// (timestamp terkecil) dipertahankan, yang lain disimpan server sebagai tombstone.
+// POST dikirim sebagai text/plain agar tidak memicu preflight CORS.
+// GET tidak bisa membawa header, jadi token sesi ikut di query; penolakan = { status: 'error', message }.
+const getAction = async (action: string, params: Record<string, string | null | undefined> = {}) => {
+  const query = new URLSearchParams({ action });
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  const response = await fetchWithTimeout(`${GOOGLE_SCRIPT_URL}?${query}`);
+  const result = await response.json();
+  if (result?.status === 'error') throw new Error(result.message);
+  return result;
+};
+
+export const appsScriptBackend: StorageBackend = {
+  kind: 'apps-script',
+
+  getStudents: (token?: string) => getAction('getStudents', { token }),
+
+  getSettings: () => getAction('getSettings'),
+
+  // Server memberi nomor urut tiap perubahan; baris yang dihapus tetap ada sebagai
+  // tombstone (kolom deletedAt). cursor = nomor urut perubahan terakhir, serverTime = waktu server (ms).
+  getAttendanceChanges: (cursor: string | null, token?: string) =>
+    getAction('getAttendanceChanges', { since: cursor, token }),
+
+  // Sheet audit hanya ditambah baris; cursor = waktu server saat respons dibuat
+  getAuditChanges: (cursor: string | null, token?: string) =>
+    getAction('getAuditChanges', { since: cursor, token }),
+
+  // File foto disimpan server di Google Drive; cursor = nomor urut foto terakhir di halaman ini
+  getPhotoChanges: (cursor: string | null, token?: string) =>
+    getAction('getPhotoChanges', { since: cursor, token }),
+
+  async sendMutation(action: MutationAction, payload: any, mutationId: string, token?: string) {
+    const response = await fetchWithTimeout(GOOGLE_SCRIPT_URL, {
+      method: 'POST',
+      body: JSON.stringify({ action, payload, mutationId, token })
+    }, 15000);
+    await confirmMutation(response);
+  },
+
+  async callServer(action: ServerAction, payload: any) {
+    const response = await fetchWithTimeout(GOOGLE_SCRIPT_URL, {
+      method: 'POST',
+      body: JSON.stringify({ action, payload })
+    }, 15000);
+    return response.json();
+  }
+};
@@ -0,0 +1,20 @@
+import { StorageBackend } from '../../types';
+import { STORAGE_BACKEND } from '../../constants';
+import { appsScriptBackend } from './appsScriptBackend';
+import { indexedDbBackend } from './indexedDbBackend';
+import { restBackend } from './restBackend';
+
+const BACKENDS: Record<StorageBackend['kind'], StorageBackend> = {
+  'apps-script': appsScriptBackend,
+  'indexeddb': indexedDbBackend,
+  'rest': restBackend
+};
+
+export const getBackend = (): StorageBackend => {
+  const backend = BACKENDS[STORAGE_BACKEND];
+  if (!backend) {
+    console.warn(`Backend "${STORAGE_BACKEND}" tidak dikenal, memakai Apps Script.`);
+    return appsScriptBackend;
+  }
+  return backend;
+};
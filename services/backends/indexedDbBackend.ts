@@ -0,0 +1,241 @@
+import { StorageBackend, MutationAction, ServerAction, Student, AttendanceRecord, AttendanceDelta, AuditEntry, AuditDelta, StudentPhotoEntry, PhotoDelta } from '../../types';
+import { PRIVATE_SETTING_KEYS } from '../../constants';
+import { openDatabase, requestToPromise, transactionDone } from '../idb';
+import { shouldReplace, isLive, isCanonical, getIdempotencyKey } from '../attendanceMerge';
+import { MutationRejectedError } from '../http';
+import { callLocalServer, checkLocalMutation, readLocalScope } from './localServer';
+
+// Backend murni lokal: "server" berupa database IndexedDB di browser ini.
+// Cocok untuk demo & development tanpa menyentuh Google Sheet produksi.
+const DB_NAME = 'smpn3pacet_local_backend';
+const DB_VERSION = 8;
+const PHOTO_PAGE_SIZE = 50;
+
+// Setiap perubahan absensi diberi nomor urut (_seq); cursor = nomor urut terakhir
+interface StoredRecord extends AttendanceRecord {
+  _seq: number;
+}
+
+interface StoredAudit extends AuditEntry {
+  _seq: number;
+}
+
+interface StoredPhoto extends StudentPhotoEntry {
+  _seq: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+      if (!db.objectStoreNames.contains('students')) db.createObjectStore('students', { keyPath: 'id' });
+      if (!db.objectStoreNames.contains('attendance')) db.createObjectStore('attendance', { keyPath: 'id' });
+      if (oldVersion < 2) {
+        tx.objectStore('attendance').createIndex('seq', '_seq');
+        const meta = db.createObjectStore('meta');
+        // Record dari versi 1 belum punya nomor urut
+        let seq = 0;
+        const cursorRequest = tx.objectStore('attendance').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            cursor.update({ ...cursor.value, _seq: ++seq });
+            cursor.continue();
+          } else {
+            meta.put(seq, 'seq');
+          }
+        };
+      }
+      // Versi 3: penghapusan disimpan sebagai tombstone di store attendance
+      if (db.objectStoreNames.contains('deleted')) db.deleteObjectStore('deleted');
+      if (!db.objectStoreNames.contains('settings')) db.createObjectStore('settings');
+      // Versi 5: kredensial, penguncian & sesi server (lihat localServer.ts)
+      if (!db.objectStoreNames.contains('private')) db.createObjectStore('private');
+      // Versi 6: jejak audit, nomor urutnya terpisah dari absensi (meta 'auditSeq')
+      if (!db.objectStoreNames.contains('audit')) db.createObjectStore('audit', { keyPath: 'id' }).createIndex('seq', '_seq');
+      // Versi 7: cari record satu siswa per tanggal untuk menolak absen ganda
+      if (oldVersion < 7) tx.objectStore('attendance').createIndex('studentDate', ['studentId', 'date']);
+      // Versi 8: foto siswa, nomor urutnya di meta 'photoSeq'
+      if (!db.objectStoreNames.contains('photos')) db.createObjectStore('photos', { keyPath: 'studentId' }).createIndex('seq', '_seq');
+    });
+  }
+  return dbPromise;
+};
+
+const nextSeq = async (meta: IDBObjectStore, key = 'seq'): Promise<number> => {
+  const current: number | undefined = await requestToPromise(meta.get(key));
+  const seq = (current || 0) + 1;
+  meta.put(seq, key);
+  return seq;
+};
+
+const stripSeq = ({ _seq, ...record }: StoredRecord): AttendanceRecord => record;
+
+// Cursor sesi wali diberi awalan NIS, jadi cursor staf (atau wali siswa lain) tidak cocok dan
+// cache diunduh ulang penuh (sama dengan server/appsScript.gs)
+const cursorPrefix = (studentId?: string) => studentId ? `${studentId}:` : '';
+
+const readCursor = (cursor: string, studentId?: string) => {
+  const prefix = cursorPrefix(studentId);
+  return cursor.startsWith(prefix) ? Number(cursor.slice(prefix.length)) : NaN;
+};
+
+export const indexedDbBackend: StorageBackend = {
+  kind: 'indexeddb',
+
+  async getStudents(token?: string) {
+    const db = await getDb();
+    const { studentId } = await readLocalScope(db, token);
+    const students: Student[] = await requestToPromise(db.transaction('students').objectStore('students').getAll());
+    return students.filter(s => !studentId || s.id === studentId);
+  },
+
+  async getSettings() {
+    const db = await getDb();
+    const store = db.transaction('settings').objectStore('settings');
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ]);
+    return Object.fromEntries(keys.map((key, i) => [String(key), values[i]]).filter(([key]) => !PRIVATE_SETTING_KEYS.includes(key)));
+  },
+
+  async getAttendanceChanges(cursor: string | null, token?: string): Promise<AttendanceDelta> {
+    const db = await getDb();
+    const { studentId } = await readLocalScope(db, token);
+    const tx = db.transaction(['attendance', 'meta']);
+    const since = cursor ? readCursor(cursor, studentId) : 0;
+
+    const [changed, seq] = await Promise.all([
+      // Cursor tidak dikenal: isi diabaikan perangkat karena resyncRequired
+      requestToPromise(tx.objectStore('attendance').index('seq').getAll(IDBKeyRange.lowerBound(since || 0, true))) as Promise<StoredRecord[]>,
+      requestToPromise(tx.objectStore('meta').get('seq')) as Promise<number | undefined>
+    ]);
+
+    return {
+      changed: changed.filter(r => !studentId || r.studentId === studentId).map(stripSeq),
+      cursor: cursorPrefix(studentId) + (seq || 0),
+      resyncRequired: Number.isNaN(since) || since > (seq || 0),
+      serverTime: Date.now()
+    };
+  },
+
+  async getAuditChanges(cursor: string | null, token?: string): Promise<AuditDelta> {
+    const db = await getDb();
+    if ((await readLocalScope(db, token)).studentId) throw new Error('Jejak audit hanya untuk staf.');
+    const tx = db.transaction(['audit', 'meta']);
+    const since = cursor ? Number(cursor) || 0 : 0;
+
+    const [entries, seq] = await Promise.all([
+      requestToPromise(tx.objectStore('audit').index('seq').getAll(IDBKeyRange.lowerBound(since, true))) as Promise<StoredAudit[]>,
+      requestToPromise(tx.objectStore('meta').get('auditSeq')) as Promise<number | undefined>
+    ]);
+
+    return {
+      entries: entries.map(({ _seq, ...entry }) => entry),
+      cursor: String(seq || 0)
+    };
+  },
+
+  async getPhotoChanges(cursor: string | null, token?: string): Promise<PhotoDelta> {
+    const db = await getDb();
+    const { studentId } = await readLocalScope(db, token);
+    const since = cursor ? readCursor(cursor, studentId) || 0 : 0;
+    const index = db.transaction('photos').objectStore('photos').index('seq');
+    const photos: StoredPhoto[] = studentId
+      ? (await requestToPromise(index.getAll(IDBKeyRange.lowerBound(since, true)))).filter((p: StoredPhoto) => p.studentId === studentId)
+      : await requestToPromise(index.getAll(IDBKeyRange.lowerBound(since, true), PHOTO_PAGE_SIZE + 1));
+    const page = photos.slice(0, PHOTO_PAGE_SIZE);
+    return {
+      photos: page.map(({ _seq, ...photo }) => photo),
+      cursor: cursorPrefix(studentId) + (page.length > 0 ? page[page.length - 1]._seq : since),
+      hasMore: photos.length > PHOTO_PAGE_SIZE
+    };
+  },
+
+  async sendMutation(action: MutationAction, payload: any, _mutationId: string, token?: string) {
+    const db = await getDb();
+    const rejection = await checkLocalMutation(db, action, payload, token);
+    if (rejection) throw new MutationRejectedError(rejection);
+
+    if (action === 'saveStudents') {
+      const tx = db.transaction('students', 'readwrite');
+      const store = tx.objectStore('students');
+      store.clear();
+      (payload as Student[]).forEach(s => store.put(s));
+      await transactionDone(tx);
+      return;
+    }
+
+    if (action === 'saveSetting') {
+      const tx = db.transaction('settings', 'readwrite');
+      tx.objectStore('settings').put(payload.value, payload.key);
+      await transactionDone(tx);
+      return;
+    }
+
+    if (action === 'saveSettingEntries') {
+      const tx = db.transaction('settings', 'readwrite');
+      const store = tx.objectStore('settings');
+      const current = await requestToPromise(store.get(payload.key));
+      store.put({ ...current, ...payload.entries }, payload.key);
+      await transactionDone(tx);
+      return;
+    }
+
+    // Foto yang lebih baru menang (updatedAt)
+    if (action === 'savePhoto') {
+      const tx = db.transaction(['photos', 'meta'], 'readwrite');
+      const store = tx.objectStore('photos');
+      const existing: StoredPhoto | undefined = await requestToPromise(store.get(payload.studentId));
+      if (!existing || existing.updatedAt < payload.updatedAt) {
+        store.put({ ...payload, _seq: await nextSeq(tx.objectStore('meta'), 'photoSeq') });
+      }
+      await transactionDone(tx);
+      return;
+    }
+
+    // Entri audit tidak pernah ditimpa; kiriman ulang dengan id yang sama diabaikan
+    if (action === 'appendAudit') {
+      const tx = db.transaction(['audit', 'meta'], 'readwrite');
+      const store = tx.objectStore('audit');
+      const existing = await requestToPromise(store.get(payload.id));
+      if (!existing) {
+        const seq = await nextSeq(tx.objectStore('meta'), 'auditSeq');
+        store.put({ ...payload, _seq: seq });
+      }
+      await transactionDone(tx);
+      return;
+    }
+
+    // addAttendance, updateAttendance & deleteAttendance sama-sama membawa record utuh
+    // (delete = tombstone); yang lebih baru menang.
+    const tx = db.transaction(['attendance', 'meta'], 'readwrite');
+    const store = tx.objectStore('attendance');
+    const meta = tx.objectStore('meta');
+    const existing: StoredRecord | undefined = await requestToPromise(store.get(payload.id));
+    if (shouldReplace(existing, payload)) {
+      let record: AttendanceRecord = payload;
+      // Absen ganda (kunci idempotensi sama, id beda, mis. dua gerbang): scan pertama
+      // dipertahankan, sisanya disimpan sebagai tombstone agar ikut terhapus di perangkat pengirim.
+      if (isLive(record)) {
+        const key = getIdempotencyKey(record);
+        const sameDay: StoredRecord[] = await requestToPromise(store.index('studentDate').getAll([record.studentId, record.date]));
+        const rivals = sameDay.filter(r => r.id !== record.id && isLive(r) && getIdempotencyKey(r) === key);
+        const now = Date.now();
+        if (rivals.some(r => isCanonical(r, record))) {
+          record = { ...record, deletedAt: now, updatedAt: now };
+        } else {
+          for (const rival of rivals) store.put({ ...rival, deletedAt: now, updatedAt: now, _seq: await nextSeq(meta) });
+        }
+      }
+      store.put({ ...record, _seq: await nextSeq(meta) });
+    }
+    await transactionDone(tx);
+  },
+
+  async callServer(action: ServerAction, payload: any) {
+    return callLocalServer(await getDb(), action, payload);
+  }
+};
@@ -0,0 +1,348 @@
+import { CredentialStatus, CredentialStore, HashedSecret, MutationAction, ParentAccess, ParentAccessStore, SecretProof, ServerAction, SessionPolicy, StaffCredential, StaffMember, StaffRole, Student } from '../../types';
+import { ADMIN_SETTING_LABELS, ADMIN_USERNAME, DEFAULT_SESSION_POLICY, LOCAL_ADMIN_SETUP_CODE, LOGIN_LOCKOUT_MINUTES, MAX_LOGIN_ATTEMPTS, PRIVATE_SETTING_KEYS, SERVER_SETTING_KEYS, SETTING_KEYS } from '../../constants';
+import { requestToPromise, transactionDone } from '../idb';
+
+// Sisi "server" untuk backend indexeddb: aturan yang sama dengan server/mockServer.js dan
+// server/appsScript.gs. Rahasia disimpan di store 'private', tidak pernah ikut getSettings.
+
+interface AttemptState {
+  failures: number;
+  lockedUntil?: number; // Epoch ms
+}
+
+// staffId untuk sesi staf, studentId untuk sesi wali murid
+interface ServerSession {
+  staffId?: string;
+  studentId?: string;
+  expiresAt: number; // Epoch ms
+}
+
+interface PrivateData {
+  credentials: CredentialStore;
+  parentAccess: ParentAccessStore;
+  attempts: Record<string, AttemptState>;
+  sessions: Record<string, ServerSession>;
+  cardKey: JsonWebKey; // Kunci privat tanda tangan kartu; {} = belum dibuat
+}
+
+const PRIVATE_KEYS: (keyof PrivateData)[] = ['credentials', 'parentAccess', 'attempts', 'sessions', 'cardKey'];
+
+type Result = { success: boolean; message: string; [key: string]: unknown };
+
+const ADMIN_ONLY_MESSAGE = 'Hanya Administrator. Bila sudah login sebagai Administrator, sesi server berakhir: silakan login ulang.';
+const STAFF_ONLY_MESSAGE = 'Sesi server berakhir. Silakan login ulang.';
+const NO_PARENT_ACCESS_MESSAGE = 'Kode akses siswa ini belum dibuat. Hubungi wali kelas atau admin sekolah.';
+// Daftar staf yang belum pernah disimpan berarti daftar bawaan: semuanya guru
+const DEFAULT_ROLE: StaffRole = 'TEACHER';
+
+const fail = (message: string): Result => ({ success: false, message });
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const digest = async (proof: string): Promise<string> =>
+  toBase64(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(proof)));
+
+const toStored = async (secret: SecretProof): Promise<HashedSecret> =>
+  ({ salt: secret.salt, iterations: secret.iterations, hash: await digest(secret.proof) });
+
+const matches = async (proof: unknown, stored: HashedSecret) =>
+  typeof proof === 'string' && (await digest(proof)) === stored.hash;
+
+const readSetting = async <T>(db: IDBDatabase, key: string): Promise<T | undefined> =>
+  requestToPromise(db.transaction('settings').objectStore('settings').get(key));
+
+const writeSetting = async (db: IDBDatabase, key: string, value: unknown) => {
+  const tx = db.transaction('settings', 'readwrite');
+  tx.objectStore('settings').put(value, key);
+  await transactionDone(tx);
+};
+
+const writePrivate = async (db: IDBDatabase, data: PrivateData) => {
+  const tx = db.transaction('private', 'readwrite');
+  const store = tx.objectStore('private');
+  Object.entries(data).forEach(([key, value]) => store.put(value, key));
+  await transactionDone(tx);
+};
+
+// Rahasia lama dari pengaturan bersama berisi hash PBKDF2 = proof, jadi cukup di-SHA-256.
+// Token link wali lama tidak bisa dikonversi dan dibuang; wali tetap bisa masuk dengan kode.
+const migrateSecret = async <T extends HashedSecret>(secret: T): Promise<T> => ({ ...secret, hash: await digest(secret.hash) });
+
+const migrateLegacy = async (db: IDBDatabase, data: PrivateData) => {
+  const [credentials, parentAccess] = await Promise.all([
+    readSetting<CredentialStore>(db, SETTING_KEYS.CREDENTIALS),
+    readSetting<Record<string, Omit<ParentAccess, 'link'>>>(db, SETTING_KEYS.PARENT_ACCESS)
+  ]);
+  if (!credentials && !parentAccess) return;
+  for (const credential of Object.values(credentials || {})) {
+    data.credentials[credential.staffId] = { ...(await migrateSecret(credential)), pin: credential.pin && await migrateSecret(credential.pin) };
+  }
+  for (const { studentId, salt, hash, iterations, updatedAt } of Object.values(parentAccess || {})) {
+    data.parentAccess[studentId] = await migrateSecret({ studentId, salt, hash, iterations, updatedAt });
+  }
+  await writePrivate(db, data);
+  const tx = db.transaction('settings', 'readwrite');
+  PRIVATE_SETTING_KEYS.forEach(key => tx.objectStore('settings').delete(key));
+  await transactionDone(tx);
+};
+
+const readPrivate = async (db: IDBDatabase): Promise<PrivateData> => {
+  const store = db.transaction('private').objectStore('private');
+  const values = await Promise.all(PRIVATE_KEYS.map(key => requestToPromise(store.get(key))));
+  const data = Object.fromEntries(PRIVATE_KEYS.map((key, i) => [key, values[i] || {}])) as unknown as PrivateData;
+  await migrateLegacy(db, data);
+  return data;
+};
+
+// Administrator bawaan selalu ADMIN; staf lain mengikuti daftar staf. null = tidak boleh login
+const roleOf = async (db: IDBDatabase, staffId: string): Promise<StaffRole | null> => {
+  if (staffId === ADMIN_USERNAME) return 'ADMIN';
+  const staff = await readSetting<StaffMember[]>(db, SETTING_KEYS.STAFF);
+  if (!staff) return DEFAULT_ROLE;
+  const member = staff.find(s => s.id === staffId);
+  return member?.active ? member.role : null;
+};
+
+// --- Penguncian (kunci = staffId, `kiosk:<staffId>`, `parent:<NIS>` atau 'setup') ---
+
+const lockoutMessage = (remaining: number) =>
+  `Terlalu banyak percobaan. Coba lagi dalam ${Math.ceil(remaining / 60000)} menit.`;
+
+// null = cocok; selain itu pesan error untuk form. Saat terkunci rahasia yang benar pun ditolak.
+const checkAttempt = (data: PrivateData, key: string, matched: boolean, label: string): string | null => {
+  const remaining = Math.max(0, (data.attempts[key]?.lockedUntil || 0) - Date.now());
+  if (remaining > 0) return lockoutMessage(remaining);
+  if (matched) {
+    delete data.attempts[key];
+    return null;
+  }
+  const failures = (data.attempts[key]?.failures || 0) + 1;
+  if (failures >= MAX_LOGIN_ATTEMPTS) {
+    data.attempts[key] = { failures: 0, lockedUntil: Date.now() + LOGIN_LOCKOUT_MINUTES * 60000 };
+    return lockoutMessage(LOGIN_LOCKOUT_MINUTES * 60000);
+  }
+  data.attempts[key] = { failures };
+  return `${label} salah! Sisa percobaan: ${MAX_LOGIN_ATTEMPTS - failures}.`;
+};
+
+// --- Sesi server ---
+
+// Umur token mengikuti batas sesi; tanpa batas tetap berakhir setelah 7 hari
+const sessionHours = async (db: IDBDatabase) => {
+  const policy = await readSetting<SessionPolicy>(db, SETTING_KEYS.SESSION_POLICY) || DEFAULT_SESSION_POLICY;
+  return policy.maxHours > 0 ? policy.maxHours : 7 * 24;
+};
+
+const createSession = async (db: IDBDatabase, data: PrivateData, owner: Omit<ServerSession, 'expiresAt'>): Promise<string> => {
+  const now = Date.now();
+  Object.keys(data.sessions).forEach(token => {
+    if (data.sessions[token].expiresAt < now) delete data.sessions[token];
+  });
+  const token = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+  data.sessions[token] = { ...owner, expiresAt: now + (await sessionHours(db)) * 3600000 };
+  return token;
+};
+
+const readSession = (data: PrivateData, token: unknown): ServerSession | null => {
+  const session = typeof token === 'string' ? data.sessions[token] : undefined;
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+const isStaffSession = async (db: IDBDatabase, data: PrivateData, token: unknown): Promise<boolean> => {
+  const session = readSession(data, token);
+  return !!session?.staffId && !!(await roleOf(db, session.staffId));
+};
+
+const isAdminSession = async (db: IDBDatabase, data: PrivateData, token: unknown): Promise<boolean> => {
+  const session = readSession(data, token);
+  return !!session?.staffId && (await roleOf(db, session.staffId)) === 'ADMIN';
+};
+
+// Password sementara belum diganti: belum diberi token, form login meminta password baru
+const loginResult = async (db: IDBDatabase, data: PrivateData, credential: StaffCredential, role: StaffRole, message: string): Promise<Result> => {
+  const mustChangePassword = !!credential.mustChangePassword;
+  const token = mustChangePassword ? undefined : await createSession(db, data, { staffId: credential.staffId });
+  return { success: true, message, role, mustChangePassword, token };
+};
+
+// Wali murid menerima data siswanya (daftar siswa tidak terbuka sebelum login) dan token sesi
+const parentLoginResult = async (db: IDBDatabase, data: PrivateData, studentId: string, message: string): Promise<Result> => {
+  const student: Student | undefined = await requestToPromise(db.transaction('students').objectStore('students').get(studentId));
+  if (!student) return fail('Data siswa tidak ditemukan. Hubungi wali kelas atau admin sekolah.');
+  return { success: true, message, student, token: await createSession(db, data, { studentId }) };
+};
+
+const NOT_ACTIVATED_MESSAGE = 'Akun belum diaktifkan. Minta Administrator mengatur password anda.';
+
+// Akun aktif yang sudah punya password; selain itu pesan error
+const findAccount = async (db: IDBDatabase, data: PrivateData, staffId: string) => {
+  const role = await roleOf(db, staffId);
+  if (!role) return 'Akun staf tidak aktif.';
+  const credential = data.credentials[staffId];
+  return credential ? { role, credential } : NOT_ACTIVATED_MESSAGE;
+};
+
+const HANDLERS: Record<ServerAction, (db: IDBDatabase, data: PrivateData, payload: any) => Promise<Result>> = {
+  async getSecretParams(db, data, { staffId, unlock }) {
+    const credential = data.credentials[staffId];
+    if (!credential) {
+      return staffId === ADMIN_USERNAME
+        ? { success: false, setupRequired: true, message: 'Password Administrator belum diatur. Masukkan kode setup dari pengelola server.' }
+        : fail(NOT_ACTIVATED_MESSAGE);
+    }
+    const usesPin = !!unlock && !!credential.pin;
+    const secret = usesPin ? credential.pin! : credential;
+    return { success: true, message: '', salt: secret.salt, iterations: secret.iterations, usesPin };
+  },
+
+  async login(db, data, { staffId, proof }) {
+    const account = await findAccount(db, data, staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(data, staffId, await matches(proof, account.credential), 'Password');
+    return error ? fail(error) : loginResult(db, data, account.credential, account.role, 'Login berhasil.');
+  },
+
+  // Keluar mode kiosk dihitung terpisah (kiosk:<staffId>) supaya siswa yang iseng mencoba
+  // tidak mengunci akun petugas; tidak memberi token sesi baru
+  async unlock(db, data, { staffId, proof, kiosk }) {
+    const account = await findAccount(db, data, staffId);
+    if (typeof account === 'string') return fail(account);
+    const { pin } = account.credential;
+    const error = checkAttempt(data, kiosk ? `kiosk:${staffId}` : staffId, await matches(proof, pin || account.credential), pin ? 'PIN' : 'Password');
+    if (error) return fail(error);
+    return kiosk ? { success: true, message: 'Mode kiosk ditutup.' } : loginResult(db, data, account.credential, account.role, 'Layar terbuka.');
+  },
+
+  // Percobaan kode setup ikut dikunci supaya tidak bisa ditebak tanpa batas
+  async setupAdmin(db, data, { setupCode, secret }) {
+    if (data.credentials[ADMIN_USERNAME]) return fail('Password Administrator sudah diatur. Silakan login.');
+    if (!LOCAL_ADMIN_SETUP_CODE) return fail('Kode setup belum diatur (VITE_ADMIN_SETUP_CODE di .env.local).');
+    const error = checkAttempt(data, 'setup', setupCode === LOCAL_ADMIN_SETUP_CODE, 'Kode setup');
+    if (error) return fail(error);
+    const credential: StaffCredential = { staffId: ADMIN_USERNAME, ...(await toStored(secret)), updatedAt: Date.now() };
+    data.credentials[ADMIN_USERNAME] = credential;
+    return loginResult(db, data, credential, 'ADMIN', 'Password Administrator tersimpan.');
+  },
+
+  // PIN layar kunci tetap berlaku setelah ganti password
+  async changePassword(db, data, { staffId, proof, secret }) {
+    const account = await findAccount(db, data, staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(data, staffId, await matches(proof, account.credential), 'Password');
+    if (error) return fail(error);
+    const credential: StaffCredential = { staffId, ...(await toStored(secret)), pin: account.credential.pin, updatedAt: Date.now() };
+    data.credentials[staffId] = credential;
+    return loginResult(db, data, credential, account.role, 'Password berhasil diganti.');
+  },
+
+  async setPin(db, data, { staffId, proof, pin }) {
+    const account = await findAccount(db, data, staffId);
+    if (typeof account === 'string') return fail(account);
+    const error = checkAttempt(data, staffId, await matches(proof, account.credential), 'Password');
+    if (error) return fail(error);
+    data.credentials[staffId] = { ...account.credential, pin: await toStored(pin), updatedAt: Date.now() };
+    return { success: true, message: 'PIN layar kunci tersimpan.' };
+  },
+
+  // Password sementara wajib diganti saat login berikutnya; PIN lama ikut dihapus
+  async resetPassword(db, data, { token, staffId, secret }) {
+    if (!(await isAdminSession(db, data, token))) return fail(ADMIN_ONLY_MESSAGE);
+    data.credentials[staffId] = { staffId, ...(await toStored(secret)), mustChangePassword: true, updatedAt: Date.now() };
+    delete data.attempts[staffId];
+    return { success: true, message: 'Password sementara dibuat.' };
+  },
+
+  async getCredentialStatus(db, data, { token }) {
+    if (!(await isAdminSession(db, data, token))) return fail(ADMIN_ONLY_MESSAGE);
+    const credentials: Record<string, CredentialStatus> = {};
+    Object.values(data.credentials).forEach(c => {
+      credentials[c.staffId] = { mustChangePassword: !!c.mustChangePassword, hasPin: !!c.pin };
+    });
+    return { success: true, message: '', credentials };
+  },
+
+  // --- Kode akses wali murid (penguncian per siswa: parent:<NIS>) ---
+
+  async setParentAccess(db, data, { token, studentId, code, link }) {
+    if (!(await isStaffSession(db, data, token))) return fail(STAFF_ONLY_MESSAGE);
+    data.parentAccess[studentId] = { studentId, ...(await toStored(code)), link: await digest(link), updatedAt: Date.now() };
+    delete data.attempts[`parent:${studentId}`];
+    return { success: true, message: 'Kode akses tersimpan.' };
+  },
+
+  async getParentAccessStatus(db, data, { token, studentId }) {
+    if (!(await isStaffSession(db, data, token))) return fail(STAFF_ONLY_MESSAGE);
+    return { success: true, message: '', exists: !!data.parentAccess[studentId] };
+  },
+
+  async getParentParams(_db, data, { studentId }) {
+    const access = data.parentAccess[studentId];
+    if (!access) return fail(NO_PARENT_ACCESS_MESSAGE);
+    return { success: true, message: '', salt: access.salt, iterations: access.iterations };
+  },
+
+  async verifyParentCode(db, data, { studentId, proof }) {
+    const access = data.parentAccess[studentId];
+    if (!access) return fail(NO_PARENT_ACCESS_MESSAGE);
+    const error = checkAttempt(data, `parent:${studentId}`, await matches(proof, access), 'Kode akses');
+    return error ? fail(error) : parentLoginResult(db, data, studentId, 'Kode akses benar.');
+  },
+
+  // Token link hanya berlaku sekali: dihapus dari data siswa itu begitu dipakai
+  async redeemParentLink(db, data, { studentId, token }) {
+    const access = data.parentAccess[studentId];
+    if (!access?.link || typeof token !== 'string' || (await digest(token)) !== access.link) {
+      return fail('Link sudah pernah dipakai atau tidak berlaku. Silakan masuk dengan kode akses.');
+    }
+    const { link: _used, ...rest } = access;
+    data.parentAccess[studentId] = { ...rest, updatedAt: Date.now() };
+    return parentLoginResult(db, data, studentId, 'Link valid.');
+  },
+
+  // --- Kunci tanda tangan kartu siswa ---
+
+  // Kunci privat hanya untuk sesi Administrator yang mencetak kartu. Dibuat "server" saat pertama
+  // diminta; kunci publiknya diterbitkan lewat pengaturan cardPublicKey.
+  async getCardSigningKey(db, data, { token }) {
+    if (!(await isAdminSession(db, data, token))) return fail(ADMIN_ONLY_MESSAGE);
+    if (data.cardKey.d) return { success: true, message: '', key: data.cardKey, created: false };
+    const generated = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const { kty, crv, x, y, d } = await crypto.subtle.exportKey('jwk', generated.privateKey);
+    data.cardKey = { kty, crv, x, y, d };
+    await writeSetting(db, SETTING_KEYS.CARD_PUBLIC_KEY, { kty, crv, x, y });
+    return { success: true, message: 'Kunci kartu dibuat.', key: data.cardKey, created: true };
+  }
+};
+
+export const callLocalServer = async (db: IDBDatabase, action: ServerAction, payload: any): Promise<Result> => {
+  const handler = HANDLERS[action];
+  if (!handler) return fail(`Aksi tidak dikenal: ${action}`);
+  const data = await readPrivate(db);
+  const result = await handler(db, data, payload || {});
+  await writePrivate(db, data);
+  return result;
+};
+
+// Cakupan baca data: {} = staf (semua), { studentId } = wali murid. Tanpa sesi melempar error.
+export const readLocalScope = async (db: IDBDatabase, token?: string): Promise<{ studentId?: string }> => {
+  const data = await readPrivate(db);
+  const session = readSession(data, token);
+  if (session?.studentId) return { studentId: session.studentId };
+  if (!(await isStaffSession(db, data, token))) throw new Error(STAFF_ONLY_MESSAGE);
+  return {};
+};
+
+// Alasan penolakan mutasi, atau null bila boleh diterapkan. Semua mutasi butuh sesi staf;
+// tanpa sesi melempar error biasa supaya outbox mengirim ulang setelah petugas login ulang.
+export const checkLocalMutation = async (db: IDBDatabase, action: MutationAction, payload: any, token?: string): Promise<string | null> => {
+  const data = await readPrivate(db);
+  if (!readSession(data, token)) throw new Error(STAFF_ONLY_MESSAGE);
+  if (!(await isStaffSession(db, data, token))) return 'Perubahan data hanya diterima dari sesi staf.';
+  if (action !== 'saveSetting' && action !== 'saveSettingEntries') return null;
+  if ([...PRIVATE_SETTING_KEYS, ...SERVER_SETTING_KEYS].includes(payload.key)) return `Pengaturan ${payload.key} hanya bisa diubah lewat server.`;
+  if (ADMIN_SETTING_LABELS[payload.key] && !(await isAdminSession(db, data, token))) {
+    return `${ADMIN_SETTING_LABELS[payload.key]} hanya bisa diubah Administrator. Login ulang lalu kirim ulang perubahan.`;
+  }
+  return null;
+};
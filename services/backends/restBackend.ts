@@ -0,0 +1,53 @@
+import { StorageBackend, MutationAction, ServerAction } from '../../types';
+import { REST_API_URL } from '../../constants';
+import { fetchWithTimeout, confirmMutation } from '../http';
+
+// REST sederhana, dipasangkan dengan server/mockServer.js untuk development & demo.
+// Token sesi ikut di query seperti backend Apps Script; tanpa sesi server menjawab HTTP 401.
+const getJson = async (path: string, params: Record<string, string | null | undefined> = {}) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  const search = query.toString();
+  const response = await fetchWithTimeout(`${REST_API_URL}${path}${search ? `?${search}` : ''}`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+};
+
+export const restBackend: StorageBackend = {
+  kind: 'rest',
+
+  getStudents: (token?: string) => getJson('/students', { token }),
+
+  getSettings: () => getJson('/settings'),
+
+  getAttendanceChanges: (cursor: string | null, token?: string) =>
+    getJson('/attendance/changes', { since: cursor, token }),
+
+  getAuditChanges: (cursor: string | null, token?: string) =>
+    getJson('/audit/changes', { since: cursor, token }),
+
+  getPhotoChanges: (cursor: string | null, token?: string) =>
+    getJson('/photos/changes', { since: cursor, token }),
+
+  async sendMutation(action: MutationAction, payload: any, mutationId: string, token?: string) {
+    const response = await fetchWithTimeout(`${REST_API_URL}/mutations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, payload, mutationId, token })
+    }, 15000);
+    await confirmMutation(response);
+  },
+
+  // Penolakan (password salah, dll.) tetap HTTP 200 dengan success: false
+  async callServer(action: ServerAction, payload: any) {
+    const response = await fetchWithTimeout(`${REST_API_URL}/server`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, payload })
+    }, 15000);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.json();
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SchoolCalendar } from '../types';
+import { DEFAULT_PRAYER_SESSIONS } from '../constants';
+import { getEffectiveDates, getNonEffectiveReason, isEffectiveDay, parseHolidayRows } from './calendarService';
+
+const dhuhur = DEFAULT_PRAYER_SESSIONS.find(s => s.id === 'DHUHUR')!;
+
+// Senin-Sabtu sekolah; 7 Januari 2026 (Rabu) libur nasional, 12-14 Januari ujian
+const calendar: SchoolCalendar = {
+  schoolDays: [1, 2, 3, 4, 5, 6],
+  entries: [
+    { id: 'h1', name: 'Isra Mikraj', kind: 'HOLIDAY', start: '2026-01-07', end: '2026-01-07' },
+    { id: 'e1', name: '', kind: 'EXAM', start: '2026-01-12', end: '2026-01-14' }
+  ]
+};
+
+describe('getNonEffectiveReason', () => {
+  it('hari sekolah biasa efektif', () => {
+    expect(getNonEffectiveReason(calendar, '2026-01-05')).toBeNull();
+    expect(isEffectiveDay(calendar, new Date(2026, 0, 5))).toBe(true);
+  });
+
+  it('hari di luar hari sekolah tidak efektif', () => {
+    expect(getNonEffectiveReason(calendar, '2026-01-04')).toBe('Bukan hari sekolah');
+  });
+
+  it('entri kalender memakai nama, atau label jenisnya bila nama kosong', () => {
+    expect(getNonEffectiveReason(calendar, '2026-01-07')).toBe('Isra Mikraj');
+    expect(getNonEffectiveReason(calendar, '2026-01-13')).toBe('Ujian');
+    expect(getNonEffectiveReason(calendar, '2026-01-14')).toBe('Ujian');
+  });
+
+  it('hari tanpa jadwal sesi tidak efektif untuk sesi itu saja', () => {
+    expect(getNonEffectiveReason(calendar, '2026-01-09', dhuhur)).toBe('Tidak ada sesi Dhuhur');
+    expect(getNonEffectiveReason(calendar, '2026-01-09')).toBeNull();
+  });
+});
+
+describe('getEffectiveDates', () => {
+  it('rentang inklusif tanpa Minggu, libur & hari tanpa sesi', () => {
+    expect(getEffectiveDates(calendar, '2026-01-04', '2026-01-10', dhuhur))
+      .toEqual(['2026-01-05', '2026-01-06', '2026-01-08', '2026-01-10']);
+  });
+
+  it('rentang terbalik kosong', () => {
+    expect(getEffectiveDates(calendar, '2026-01-10', '2026-01-05')).toEqual([]);
+  });
+});
+
+describe('parseHolidayRows', () => {
+  it('mengenali format tanggal Indonesia, jenis & rentang', () => {
+    const [entry] = parseHolidayRows([{ Tanggal: '1/6/2026', Selesai: '03-06-2026', Keterangan: ' Libur Semester ', Jenis: 'Libur Sekolah' }]);
+    expect(entry).toMatchObject({ name: 'Libur Semester', kind: 'BREAK', start: '2026-06-01', end: '2026-06-03' });
+  });
+
+  it('baris tanpa tanggal dilewati, selesai sebelum mulai dianggap satu hari', () => {
+    const entries = parseHolidayRows([{ Keterangan: 'Tanpa tanggal' }, { Mulai: '2026-8-17', Selesai: '2026-08-01', Nama: 'HUT RI' }]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ name: 'HUT RI', kind: 'HOLIDAY', start: '2026-08-17', end: '2026-08-17' });
+  });
+});
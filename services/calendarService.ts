@@ -0,0 +1,81 @@
+import { format, eachDayOfInterval, parseISO } from 'date-fns';
+import { CalendarEntry, CalendarEntryKind, PrayerSession, SchoolCalendar } from '../types';
+import { CALENDAR_ENTRY_LABELS, DEFAULT_SCHOOL_CALENDAR, SETTING_KEYS } from '../constants';
+import { getSetting, saveSetting } from './settingsService';
+
+export const getSchoolCalendar = (): SchoolCalendar =>
+  getSetting(SETTING_KEYS.SCHOOL_CALENDAR, DEFAULT_SCHOOL_CALENDAR);
+
+export const saveSchoolCalendar = (calendar: SchoolCalendar) =>
+  saveSetting(SETTING_KEYS.SCHOOL_CALENDAR, calendar);
+
+const toDateStr = (date: Date | string) => typeof date === 'string' ? date : format(date, 'yyyy-MM-dd');
+
+export const findCalendarEntry = (calendar: SchoolCalendar, date: Date | string): CalendarEntry | undefined => {
+  const dateStr = toDateStr(date);
+  return calendar.entries.find(e => dateStr >= e.start && dateStr <= e.end);
+};
+
+// Alasan sebuah hari tidak efektif, atau null bila hari efektif. Bila sesi diberikan,
+// hari di luar jadwal sesi (misalnya Jumat untuk Dhuhur) juga tidak efektif.
+export const getNonEffectiveReason = (calendar: SchoolCalendar, date: Date | string, session?: PrayerSession): string | null => {
+  const day = typeof date === 'string' ? parseISO(date) : date;
+  if (!calendar.schoolDays.includes(day.getDay())) return 'Bukan hari sekolah';
+  const entry = findCalendarEntry(calendar, day);
+  if (entry) return entry.name || CALENDAR_ENTRY_LABELS[entry.kind];
+  if (session && !session.days.includes(day.getDay())) return `Tidak ada sesi ${session.name}`;
+  return null;
+};
+
+export const isEffectiveDay = (calendar: SchoolCalendar, date: Date | string, session?: PrayerSession): boolean =>
+  getNonEffectiveReason(calendar, date, session) === null;
+
+// Tanggal efektif (YYYY-MM-DD) dalam rentang inklusif
+export const getEffectiveDates = (calendar: SchoolCalendar, start: string, end: string, session?: PrayerSession): string[] => {
+  if (start > end) return [];
+  return eachDayOfInterval({ start: parseISO(start), end: parseISO(end) })
+    .filter(day => isEffectiveDay(calendar, day, session))
+    .map(day => format(day, 'yyyy-MM-dd'));
+};
+
+// Dicocokkan berurutan: kata umum "LIBUR" paling akhir supaya "Libur Sekolah" tetap BREAK
+const KIND_ALIASES: Record<string, CalendarEntryKind> = {
+  NASIONAL: 'HOLIDAY', HOLIDAY: 'HOLIDAY',
+  SEKOLAH: 'BREAK', SEMESTER: 'BREAK', BREAK: 'BREAK',
+  UJIAN: 'EXAM', EXAM: 'EXAM',
+  'TANPA SHOLAT': 'NO_PRAYER', NO_PRAYER: 'NO_PRAYER',
+  LIBUR: 'HOLIDAY'
+};
+
+const parseKind = (raw: unknown): CalendarEntryKind => {
+  const text = String(raw || '').toUpperCase();
+  const key = Object.keys(KIND_ALIASES).find(k => text.includes(k));
+  return key ? KIND_ALIASES[key] : 'HOLIDAY';
+};
+
+const parseDateCell = (raw: unknown): string | null => {
+  if (raw instanceof Date) return format(raw, 'yyyy-MM-dd');
+  const text = String(raw || '').trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  // Format Indonesia: DD/MM/YYYY atau DD-MM-YYYY
+  const local = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (local) return `${local[3]}-${local[2].padStart(2, '0')}-${local[1].padStart(2, '0')}`;
+  return null;
+};
+
+// Baris hasil sheet_to_json dari file libur. Kolom yang dikenali: Tanggal/Mulai,
+// Selesai (opsional), Keterangan/Nama, Jenis (opsional). Baris tanpa tanggal valid dilewati.
+export const parseHolidayRows = (rows: Record<string, unknown>[]): CalendarEntry[] =>
+  rows.flatMap(row => {
+    const start = parseDateCell(row['Tanggal'] ?? row['Mulai']);
+    if (!start) return [];
+    const end = parseDateCell(row['Selesai']) || start;
+    return [{
+      id: crypto.randomUUID(),
+      name: String(row['Keterangan'] || row['Nama'] || '').trim(),
+      kind: parseKind(row['Jenis']),
+      start,
+      end: end < start ? start : end
+    }];
+  });
@@ -0,0 +1,39 @@
+import { CameraPreference } from '../types';
+import { STORAGE_KEYS } from '../constants';
+
+// Kamera & lampu kilat scanner. Pilihan disimpan per perangkat karena deviceId kamera
+// berbeda di setiap HP/tablet.
+export const getCameraPreference = (): CameraPreference => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.CAMERA_PREFERENCE) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveCameraPreference = (preference: CameraPreference) => {
+  localStorage.setItem(STORAGE_KEYS.CAMERA_PREFERENCE, JSON.stringify(preference));
+};
+
+// Label kamera baru terisi setelah izin kamera diberikan; panggil ulang setelah video berjalan
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+export const getCameraConstraints = (deviceId?: string): MediaTrackConstraints =>
+  deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' };
+
+export const getVideoTrack = (videoId: string): MediaStreamTrack | undefined => {
+  const video = document.getElementById(videoId) as HTMLVideoElement | null;
+  const stream = video?.srcObject as MediaStream | null | undefined;
+  return stream?.getVideoTracks()[0];
+};
+
+// torch belum ada di tipe DOM standar; hanya Chrome Android yang umumnya mendukung
+export const isTorchSupported = (track: MediaStreamTrack): boolean =>
+  !!(track.getCapabilities?.() as { torch?: boolean } | undefined)?.torch;
+
+export const setTorch = (track: MediaStreamTrack, on: boolean): Promise<void> =>
+  track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
@@ -0,0 +1,148 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { format, addDays } from 'date-fns';
+import { Student } from '../types';
+import { LEGACY_CARD_GRACE_DAYS, SETTING_KEYS } from '../constants';
+
+// Pengaturan bersama di memori; kunci publik baru muncul setelah sync, seperti dari server
+const mocks = vi.hoisted(() => ({
+  settings: {} as Record<string, any>,
+  serverSettings: {} as Record<string, any>,
+  callServer: vi.fn()
+}));
+
+vi.mock('./settingsService', () => ({
+  getSetting: (key: string, fallback: unknown) => key in mocks.settings ? mocks.settings[key] : fallback,
+  saveSetting: (key: string, value: unknown) => { mocks.settings[key] = value; },
+  saveSettingEntries: (key: string, entries: Record<string, unknown>) => { mocks.settings[key] = { ...mocks.settings[key], ...entries }; },
+  syncSettings: async () => { Object.assign(mocks.settings, mocks.serverSettings); }
+}));
+
+vi.mock('./authService', async importOriginal => ({
+  ...await importOriginal<typeof import('./authService')>(),
+  callServer: mocks.callServer,
+  getSessionToken: () => 'admin-token'
+}));
+
+const students: Student[] = [
+  { id: '1001', name: 'Ahmad', className: '7A' },
+  { id: '1002', name: 'Budi', className: '7A' }
+];
+
+let privateKey: JsonWebKey;
+let publicKey: JsonWebKey;
+
+// Modul dimuat ulang per tes supaya kunci tanda tangan yang di-cache tidak terbawa
+const loadCardService = () => import('./cardService');
+
+const printCards = async (list: Student[]) => {
+  const cards = await loadCardService();
+  const job = await cards.prepareCardPrint(list);
+  cards.recordCardPrints(list.map(s => s.id), job.pending);
+  return job.tokens;
+};
+
+describe('cardService', () => {
+  beforeAll(async () => {
+    const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    privateKey = await crypto.subtle.exportKey('jwk', pair.privateKey);
+    publicKey = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  });
+
+  beforeEach(() => {
+    vi.resetModules();
+    mocks.settings = {};
+    mocks.serverSettings = { [SETTING_KEYS.CARD_PUBLIC_KEY]: publicKey };
+    mocks.callServer.mockReset().mockResolvedValue({ success: true, key: privateKey, created: true });
+  });
+
+  it('kunci pertama dari server membuka masa berlaku kartu lama', async () => {
+    const { prepareCardPrint } = await loadCardService();
+    await prepareCardPrint(students);
+
+    expect(mocks.callServer).toHaveBeenCalledWith('getCardSigningKey', { token: 'admin-token' });
+    expect(mocks.settings[SETTING_KEYS.CARD_SETTINGS]).toEqual({
+      legacyUntil: format(addDays(new Date(), LEGACY_CARD_GRACE_DAYS), 'yyyy-MM-dd')
+    });
+  });
+
+  it('kegagalan mengambil kunci dicoba ulang pada cetak berikutnya', async () => {
+    mocks.callServer.mockResolvedValueOnce({ success: false, message: 'Hanya Administrator.' });
+    const { prepareCardPrint } = await loadCardService();
+
+    await expect(prepareCardPrint(students)).rejects.toThrow('Hanya Administrator.');
+    await expect(prepareCardPrint(students)).resolves.toBeDefined();
+  });
+
+  it('kartu baru baru tercatat setelah dicetak', async () => {
+    const { prepareCardPrint, recordCardPrints, getCardRegistry, verifyCardScan } = await loadCardService();
+    const job = await prepareCardPrint(students);
+
+    expect(job.tokens['1001']).toMatch(/^SP3\.1001\.1\.[\w-]+$/);
+    expect(getCardRegistry()).toEqual({});
+    expect(await verifyCardScan(job.tokens['1001'], students)).toEqual({ reason: 'Kartu Ahmad #1 tidak terdaftar.' });
+
+    recordCardPrints(['1001'], job.pending);
+    const [card] = getCardRegistry()['1001'];
+    expect(card).toMatchObject({ serial: 1, status: 'ACTIVE' });
+    expect(card.printedAt).toHaveLength(1);
+    expect(getCardRegistry()['1002']).toBeUndefined();
+    expect(await verifyCardScan(job.tokens['1001'], students)).toEqual({ student: students[0] });
+  });
+
+  it('cetak ulang kartu aktif memakai serial yang sama', async () => {
+    const first = await printCards(students);
+    const second = await printCards(students);
+    const { getCardRegistry, verifyCardScan } = await loadCardService();
+
+    expect(second['1001']).toMatch(/^SP3\.1001\.1\./);
+    // Tanda tangan ECDSA acak per cetak; kartu cetakan pertama tetap berlaku
+    expect(await verifyCardScan(first['1001'], students)).toEqual({ student: students[0] });
+    expect(getCardRegistry()['1001']).toHaveLength(1);
+    expect(getCardRegistry()['1001'][0].printedAt).toHaveLength(2);
+  });
+
+  it('menolak QR palsu dan tanda tangan yang dipindah ke NIS lain', async () => {
+    const tokens = await printCards(students);
+    const { verifyCardScan } = await loadCardService();
+    const signature = tokens['1001'].split('.')[3];
+    const invalid = { reason: 'Kartu tidak sah. QR bukan kartu resmi sekolah.' };
+
+    expect(await verifyCardScan(`SP3.1002.1.${signature}`, students)).toEqual(invalid);
+    expect(await verifyCardScan(`SP3.1001.2.${signature}`, students)).toEqual(invalid);
+    expect(await verifyCardScan(`${tokens['1001']}x`, students)).toEqual(invalid);
+    expect(await verifyCardScan('SP3.1001.1.aaaaaaaaaaaaaaaa', students)).toEqual(invalid);
+  });
+
+  it('kartu hilang ditolak, kartu pengganti mendapat serial baru', async () => {
+    const tokens = await printCards(students);
+    const { deactivateCard, replaceCards, verifyCardScan, getActiveCard, getCardRegistry } = await loadCardService();
+
+    deactivateCard('1001', 'LOST');
+    expect((await verifyCardScan(tokens['1001'], students) as { reason: string }).reason).toMatch(/dilaporkan HILANG/);
+
+    replaceCards(['1002']);
+    expect(getActiveCard(getCardRegistry(), '1002')?.serial).toBe(2);
+    expect((await verifyCardScan(tokens['1002'], students) as { reason: string }).reason).toMatch(/sudah DICABUT/);
+
+    const replacement = await printCards([students[1]]);
+    expect(replacement['1002']).toMatch(/^SP3\.1002\.2\./);
+    expect(await verifyCardScan(replacement['1002'], students)).toEqual({ student: students[1] });
+  });
+
+  it('QR NIS polos diterima sampai batas kartu lama', async () => {
+    const { verifyCardScan, isLegacyCardAccepted } = await loadCardService();
+    expect(await verifyCardScan('1001', students)).toEqual({ student: students[0] });
+
+    await printCards(students);
+    expect(await verifyCardScan('1001', students)).toEqual({ student: students[0] });
+
+    mocks.settings[SETTING_KEYS.CARD_SETTINGS] = { legacyUntil: '2000-01-01' };
+    expect(await verifyCardScan('1001', students)).toEqual({ reason: 'Kartu lama Ahmad sudah tidak berlaku. Minta kartu baru ke admin.' });
+    expect(await verifyCardScan('9999', students)).toEqual({ reason: 'Target tidak ditemukan: 9999' });
+
+    expect(isLegacyCardAccepted({}, false)).toBe(true);
+    expect(isLegacyCardAccepted({}, true)).toBe(false);
+    expect(isLegacyCardAccepted({ legacyUntil: '2026-01-31' }, true, '2026-01-31')).toBe(true);
+    expect(isLegacyCardAccepted({ legacyUntil: '2026-01-31' }, true, '2026-02-01')).toBe(false);
+  });
+});
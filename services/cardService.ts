@@ -0,0 +1,178 @@
+import { format, addDays } from 'date-fns';
+import { CardRegistry, CardSettings, CardStatus, Student, StudentCard } from '../types';
+import { LEGACY_CARD_GRACE_DAYS, SETTING_KEYS } from '../constants';
+import { getSetting, saveSetting, saveSettingEntries, syncSettings } from './settingsService';
+import { callServer, fromBase64, getSessionToken, ServerResult, toBase64 } from './authService';
+
+// QR kartu siswa: SP3.<NIS>.<serial>.<tanda tangan>. Tanda tangan = ECDSA P-256 atas
+// "<NIS>.<serial>" (base64url) supaya QR buatan sendiri dari NIS teman ditolak. Kunci privat
+// dibuat/dipasang di server dan hanya dipinjamkan ke perangkat Administrator yang mencetak
+// (di memori saja); scanner memverifikasi dengan kunci publik dari pengaturan cardPublicKey
+// yang hanya diisi server.
+const TOKEN_PREFIX = 'SP3';
+const ECDSA_KEY = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN = { name: 'ECDSA', hash: 'SHA-256' };
+
+export type CardScanResult = { student: Student } | { reason: string };
+
+export const getCardSettings = (): CardSettings => getSetting<CardSettings>(SETTING_KEYS.CARD_SETTINGS, {});
+
+export const saveCardSettings = (settings: CardSettings) => saveSetting(SETTING_KEYS.CARD_SETTINGS, settings);
+
+export const getCardPublicKey = (): JsonWebKey | null => getSetting<JsonWebKey | null>(SETTING_KEYS.CARD_PUBLIC_KEY, null);
+
+export const getCardRegistry = (): CardRegistry => getSetting<CardRegistry>(SETTING_KEYS.CARDS, {});
+
+// Hanya riwayat siswa yang berubah yang dikirim, supaya perubahan perangkat lain pada kartu
+// siswa lain tidak tertimpa
+const saveCardHistories = (histories: CardRegistry) => {
+  if (Object.keys(histories).length > 0) saveSettingEntries(SETTING_KEYS.CARDS, histories);
+};
+
+const toBase64Url = (bytes: ArrayBuffer) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => fromBase64(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+const cardMessage = (studentId: string, serial: number) => new TextEncoder().encode(`${studentId}.${serial}`);
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+// created = kunci publik baru saja diterbitkan server (kartu bertanda tangan pertama)
+const fetchSigningKey = async (): Promise<CryptoKey> => {
+  const result = await callServer<ServerResult & { key?: JsonWebKey; created?: boolean }>('getCardSigningKey', { token: getSessionToken() });
+  if (!result.success || !result.key) throw new Error(result.message);
+  if (result.created && !getCardSettings().legacyUntil) {
+    saveCardSettings({ legacyUntil: format(addDays(new Date(), LEGACY_CARD_GRACE_DAYS), 'yyyy-MM-dd') });
+  }
+  await syncSettings();
+  return crypto.subtle.importKey('jwk', result.key, ECDSA_KEY, false, ['sign']);
+};
+
+const getSigningKey = () => {
+  if (!signingKey) {
+    signingKey = fetchSigningKey().catch(error => {
+      signingKey = null;
+      throw error;
+    });
+  }
+  return signingKey;
+};
+
+const sign = async (key: CryptoKey, studentId: string, serial: number): Promise<string> =>
+  toBase64Url(await crypto.subtle.sign(ECDSA_SIGN, key, cardMessage(studentId, serial)));
+
+const verifyKeys = new Map<string, Promise<CryptoKey>>();
+
+const importPublicKey = ({ kty, crv, x, y }: JsonWebKey) => {
+  const id = `${x}.${y}`;
+  if (!verifyKeys.has(id)) verifyKeys.set(id, crypto.subtle.importKey('jwk', { kty, crv, x, y }, ECDSA_KEY, false, ['verify']));
+  return verifyKeys.get(id)!;
+};
+
+const verifySignature = async (publicKey: JsonWebKey, studentId: string, serial: number, signature: string): Promise<boolean> => {
+  try {
+    return await crypto.subtle.verify(ECDSA_SIGN, await importPublicKey(publicKey), fromBase64Url(signature), cardMessage(studentId, serial));
+  } catch {
+    return false;
+  }
+};
+
+export const getActiveCard = (registry: CardRegistry, studentId: string): StudentCard | undefined =>
+  (registry[studentId] || []).find(c => c.status === 'ACTIVE');
+
+const newCard = (history: StudentCard[]): StudentCard =>
+  ({ serial: Math.max(0, ...history.map(c => c.serial)) + 1, issuedAt: Date.now(), status: 'ACTIVE' });
+
+const closeActiveCard = (history: StudentCard[], status: Exclude<CardStatus, 'ACTIVE'>): StudentCard[] =>
+  history.map(c => c.status === 'ACTIVE' ? { ...c, status, statusChangedAt: Date.now() } : c);
+
+// Kartu hilang/dicabut langsung ditolak scanner; siswa mendapat kartu baru saat dicetak berikutnya
+export const deactivateCard = (studentId: string, status: Exclude<CardStatus, 'ACTIVE'>) => {
+  saveCardHistories({ [studentId]: closeActiveCard(getCardRegistry()[studentId] || [], status) });
+};
+
+// Kartu pengganti: kartu aktif dicabut dan serial baru disiapkan untuk dicetak
+export const replaceCards = (studentIds: string[]) => {
+  const registry = getCardRegistry();
+  const changed: CardRegistry = {};
+  studentIds.forEach(id => {
+    const history = closeActiveCard(registry[id] || [], 'REVOKED');
+    changed[id] = [...history, newCard(history)];
+  });
+  saveCardHistories(changed);
+};
+
+export interface CardPrintJob {
+  tokens: Record<string, string>;
+  // Kartu baru yang belum tercatat; baru aktif saat dicetak/diunduh (recordCardPrints)
+  pending: Record<string, StudentCard>;
+}
+
+// Dipanggil saat cetak / unduh PDF. Kartu baru dari prepareCardPrint dicatat aktif pada cetakan
+// pertama; cetakan berikutnya hanya menambah waktu cetak kartu aktif.
+export const recordCardPrints = (studentIds: string[], pending: CardPrintJob['pending'] = {}) => {
+  const registry = getCardRegistry();
+  const changed: CardRegistry = {};
+  const now = Date.now();
+  studentIds.forEach(id => {
+    const history = getActiveCard(registry, id)
+      ? registry[id]
+      : pending[id] && [...(registry[id] || []), { ...pending[id], issuedAt: now }];
+    if (!history) return;
+    changed[id] = history.map(c => c.status === 'ACTIVE' ? { ...c, printedAt: [...(c.printedAt || []), now] } : c);
+  });
+  saveCardHistories(changed);
+};
+
+// Token QR per NIS untuk pratinjau & cetak. Siswa yang sudah punya kartu aktif memakai serial
+// yang sama (cetak ulang kartu yang sama); yang belum punya disiapkan kartu baru, tapi registry
+// belum diubah sampai kartu benar-benar dicetak.
+export const prepareCardPrint = async (students: Student[]): Promise<CardPrintJob> => {
+  const key = await getSigningKey();
+  const registry = getCardRegistry();
+  const job: CardPrintJob = { tokens: {}, pending: {} };
+  for (const student of students) {
+    let card = getActiveCard(registry, student.id);
+    if (!card) {
+      card = newCard(registry[student.id] || []);
+      job.pending[student.id] = card;
+    }
+    job.tokens[student.id] = `${TOKEN_PREFIX}.${student.id}.${card.serial}.${await sign(key, student.id, card.serial)}`;
+  }
+  return job;
+};
+
+// Sebelum kartu bertanda tangan pertama dicetak (belum ada kunci publik) kartu lama selalu diterima
+export const isLegacyCardAccepted = (settings: CardSettings, hasCardKey: boolean, today = format(new Date(), 'yyyy-MM-dd')): boolean =>
+  !hasCardKey || (!!settings.legacyUntil && today <= settings.legacyUntil);
+
+// Hasil scan kamera/USB -> siswa, atau alasan penolakan untuk ditampilkan ke petugas
+export const verifyCardScan = async (code: string, students: Student[]): Promise<CardScanResult> => {
+  const text = code.trim();
+  const settings = getCardSettings();
+  const publicKey = getCardPublicKey();
+
+  if (text.startsWith(`${TOKEN_PREFIX}.`)) {
+    const parts = text.split('.');
+    const signature = parts.pop()!;
+    const serial = Number(parts.pop());
+    const studentId = parts.slice(1).join('.');
+    if (!publicKey || !studentId || !Number.isInteger(serial) || !(await verifySignature(publicKey, studentId, serial, signature))) {
+      return { reason: 'Kartu tidak sah. QR bukan kartu resmi sekolah.' };
+    }
+    const student = students.find(s => s.id === studentId);
+    if (!student) return { reason: `Siswa dengan NIS ${studentId} tidak ditemukan.` };
+    const card = (getCardRegistry()[studentId] || []).find(c => c.serial === serial);
+    if (!card) return { reason: `Kartu ${student.name} #${serial} tidak terdaftar.` };
+    if (card.status === 'LOST') return { reason: `DITOLAK: kartu ${student.name} #${serial} dilaporkan HILANG. Tahan kartu & laporkan ke admin.` };
+    if (card.status === 'REVOKED') return { reason: `DITOLAK: kartu ${student.name} #${serial} sudah DICABUT/diganti. Gunakan kartu terbaru.` };
+    return { student };
+  }
+
+  const student = students.find(s => s.id === text);
+  if (!student) return { reason: `Target tidak ditemukan: ${text}` };
+  if (!isLegacyCardAccepted(settings, !!publicKey)) {
+    return { reason: `Kartu lama ${student.name} sudah tidak berlaku. Minta kartu baru ke admin.` };
+  }
+  return { student };
+};
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calibrateClock, getClockOffset, trustedNow } from './clockService';
+
+describe('clockService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(100000);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('tanpa kalibrasi memakai jam perangkat', () => {
+    expect(getClockOffset()).toBeNull();
+    expect(trustedNow()).toBe(100000);
+  });
+
+  it('selisih diukur terhadap titik tengah request', () => {
+    // Request 99000..101000, server menjawab 160000 => jam perangkat telat 60 detik
+    calibrateClock(160000, 99000, 101000);
+    expect(getClockOffset()).toBe(60000);
+    expect(trustedNow()).toBe(160000);
+  });
+
+  it('jam perangkat yang terlalu cepat dikoreksi mundur', () => {
+    calibrateClock(40000, 100000, 100000);
+    vi.advanceTimersByTime(5000);
+    expect(trustedNow()).toBe(45000);
+  });
+});
@@ -0,0 +1,22 @@
+import { STORAGE_KEYS } from '../constants';
+
+// Jam terpercaya: jam perangkat dikoreksi dengan selisih terhadap jam server
+// yang diukur setiap sync. HP petugas sering salah jam / zona waktu.
+
+const readOffset = (): number | null => {
+  const stored = localStorage.getItem(STORAGE_KEYS.CLOCK_OFFSET);
+  return stored === null ? null : Number(stored);
+};
+
+// requestStart & requestEnd = Date.now() sebelum dan sesudah request yang membawa serverTime
+export const calibrateClock = (serverTime: number, requestStart: number, requestEnd: number) => {
+  const offset = Math.round(serverTime - (requestStart + requestEnd) / 2);
+  localStorage.setItem(STORAGE_KEYS.CLOCK_OFFSET, String(offset));
+};
+
+// null = belum pernah dikalibrasi
+export const getClockOffset = (): number | null => readOffset();
+
+export const trustedNow = (): number => Date.now() + (readOffset() || 0);
+
+export const trustedDate = (): Date => new Date(trustedNow());
@@ -0,0 +1,34 @@
+export const fetchWithTimeout = async (url: string, options: any = {}, timeout = 8000) => {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetch(url, { 
+      ...options, 
+      signal: controller.signal,
+      redirect: 'follow' 
+    });
+    clearTimeout(id);
+    return response;
+  } catch (error) {
+    clearTimeout(id);
+    throw error;
+  }
+};
+
+// Server menjawab tapi menolak mutasi (HTTP 4xx / status error): mengirim ulang
+// tidak akan menolong, berbeda dengan jaringan putus atau server sedang gangguan.
+export class MutationRejectedError extends Error {}
+
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+// Balasan sendMutation: { status: 'success' }, { status: 'error', message } (ditolak) atau
+// { status: 'retry', message } (server gangguan). Balasan yang tidak bisa dibaca (halaman error,
+// koneksi terputus) juga dianggap gangguan sementara.
+export const confirmMutation = async (response: Response): Promise<void> => {
+  const result = await response.json().catch(() => null);
+  if (response.ok && (result?.status === 'success' || result?.success === true)) return;
+  if (result?.status === 'retry') throw new Error(result.message || 'Server sedang gangguan');
+  if (!response.ok && isRetryableStatus(response.status)) throw new Error(`HTTP ${response.status}`);
+  if (!result) throw new Error(response.ok ? 'Balasan server tidak dikenali' : `HTTP ${response.status}`);
+  throw new MutationRejectedError(result.message || `HTTP ${response.status}`);
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MutationRejectedError } from './http';
+import { enqueueMutation, flushOutbox, getFailedMutations, getPendingCount, getPendingMutations, retryFailedMutations } from './outboxService';
+
+const sendMutation = vi.fn();
+
+vi.mock('./backends', () => ({ getBackend: () => ({ sendMutation }) }));
+
+// Biarkan flush yang dipicu enqueue/timer selesai
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('outboxService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T12:00:00'));
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.clear();
+    sendMutation.mockReset();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('menghapus entri setelah server mengonfirmasi', async () => {
+    sendMutation.mockResolvedValue(undefined);
+    enqueueMutation('addAttendance', { id: 'r1' });
+    await settle();
+
+    expect(sendMutation).toHaveBeenCalledWith('addAttendance', { id: 'r1' }, expect.any(String), undefined);
+    expect(getPendingCount()).toBe(0);
+  });
+
+  it('mencoba ulang gangguan sementara dengan backoff berlipat', async () => {
+    sendMutation.mockRejectedValue(new Error('offline'));
+    enqueueMutation('addAttendance', { id: 'r1' });
+    await settle();
+
+    const [entry] = getPendingMutations();
+    expect(entry.attempts).toBe(1);
+    expect(entry.nextAttemptAt - Date.now()).toBe(5000);
+
+    // Belum waktunya: flush biasa tidak mengirim
+    await flushOutbox();
+    expect(sendMutation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(sendMutation).toHaveBeenCalledTimes(2);
+    expect(getPendingMutations()[0].nextAttemptAt - Date.now()).toBe(10000);
+    expect(getFailedMutations()).toHaveLength(0);
+  });
+
+  it('membatasi jeda percobaan ulang 5 menit', async () => {
+    sendMutation.mockRejectedValue(new Error('offline'));
+    enqueueMutation('addAttendance', { id: 'r1' });
+    await settle();
+    for (let i = 0; i < 8; i++) await flushOutbox(true);
+
+    expect(getPendingMutations()[0].nextAttemptAt - Date.now()).toBe(5 * 60 * 1000);
+  });
+
+  it('memisahkan perubahan yang ditolak 3x tanpa menahan antrian', async () => {
+    sendMutation.mockImplementation(async (_action, payload) => {
+      if (payload.id === 'bad') throw new MutationRejectedError('Data tidak valid');
+    });
+    enqueueMutation('addAttendance', { id: 'bad' });
+    enqueueMutation('addAttendance', { id: 'good' });
+    await settle();
+    expect(getPendingCount()).toBe(2);
+
+    await flushOutbox(true);
+    await flushOutbox(true);
+
+    const [failed] = getFailedMutations();
+    expect(failed.payload).toEqual({ id: 'bad' });
+    expect(failed.rejections).toBe(3);
+    expect(failed.lastError).toBe('Data tidak valid');
+    expect(getPendingCount()).toBe(0);
+    expect(sendMutation).toHaveBeenLastCalledWith('addAttendance', { id: 'good' }, expect.any(String), undefined);
+  });
+
+  it('gangguan sementara tidak dihitung sebagai penolakan', async () => {
+    sendMutation.mockRejectedValueOnce(new MutationRejectedError('ditolak')).mockRejectedValue(new Error('offline'));
+    enqueueMutation('addAttendance', { id: 'r1' });
+    await settle();
+    for (let i = 0; i < 4; i++) await flushOutbox(true);
+
+    expect(getFailedMutations()).toHaveLength(0);
+    expect(getPendingMutations()[0].rejections).toBe(1);
+  });
+
+  it('retryFailedMutations mengembalikan entri gagal ke antrian', async () => {
+    sendMutation.mockRejectedValue(new MutationRejectedError('ditolak'));
+    enqueueMutation('addAttendance', { id: 'r1' });
+    await settle();
+    await flushOutbox(true);
+    await flushOutbox(true);
+    expect(getFailedMutations()).toHaveLength(1);
+
+    sendMutation.mockResolvedValue(undefined);
+    retryFailedMutations();
+    await settle();
+
+    expect(getFailedMutations()).toHaveLength(0);
+    expect(getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+import { OutboxEntry, MutationAction } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { getBackend } from './backends';
+import { MutationRejectedError } from './http';
+import { readAuthSession } from './authSessionService';
+
+// Antrian tulis yang persisten: setiap perubahan disimpan dulu di sini,
+// lalu dikirim ulang dengan backoff sampai server benar-benar mengonfirmasi.
+// Perubahan yang terus ditolak server dipisahkan (failedAt) supaya tidak menahan antrian di belakangnya.
+
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const MAX_REJECTIONS = 3;
+
+type OutboxListener = (pendingCount: number, failedCount: number) => void;
+
+const listeners = new Set<OutboxListener>();
+let isFlushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const readOutbox = (): OutboxEntry[] => {
+  const stored = localStorage.getItem(STORAGE_KEYS.OUTBOX);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Outbox rusak, antrian dikosongkan.");
+    return [];
+  }
+};
+
+const isFailed = (entry: OutboxEntry) => !!entry.failedAt;
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  localStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(entries));
+  const failedCount = entries.filter(isFailed).length;
+  listeners.forEach(listener => listener(entries.length - failedCount, failedCount));
+};
+
+const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+  // Sedikit jitter supaya beberapa HP tidak menyerbu server bersamaan
+  return delay + Math.floor(Math.random() * 1000);
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const entries = readOutbox().filter(e => !isFailed(e));
+  if (entries.length === 0) return;
+  const nextAt = Math.min(...entries.map(e => e.nextAttemptAt));
+  retryTimer = setTimeout(() => { flushOutbox(); }, Math.max(nextAt - Date.now(), 0));
+};
+
+export const getPendingCount = (): number => readOutbox().filter(e => !isFailed(e)).length;
+
+// Yang sudah gagal permanen tidak dihitung: nilainya tidak akan pernah sampai ke server
+export const getPendingMutations = (action?: MutationAction): OutboxEntry[] =>
+  readOutbox().filter(e => !isFailed(e) && (!action || e.action === action));
+
+export const getFailedMutations = (): OutboxEntry[] => readOutbox().filter(isFailed);
+
+// Kirim ulang perubahan yang ditolak (mis. setelah server diperbaiki)
+export const retryFailedMutations = () => {
+  const now = Date.now();
+  writeOutbox(readOutbox().map(e => isFailed(e) ? { ...e, failedAt: undefined, rejections: 0, nextAttemptAt: now } : e));
+  flushOutbox(true);
+};
+
+export const discardFailedMutations = () => writeOutbox(readOutbox().filter(e => !isFailed(e)));
+
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const enqueueMutation = (action: MutationAction, payload: any) => {
+  let entries = readOutbox();
+  // Simpan daftar siswa selalu mengirim list lengkap, cukup yang terbaru saja
+  if (action === 'saveStudents') {
+    entries = entries.filter(e => e.action !== 'saveStudents');
+  }
+  const now = Date.now();
+  entries.push({ id: crypto.randomUUID(), action, payload, createdAt: now, attempts: 0, nextAttemptAt: now });
+  writeOutbox(entries);
+  flushOutbox();
+};
+
+// Kirim antrian berurutan. Berhenti di kegagalan pertama supaya urutan
+// (mis. tambah lalu hapus record yang sama) tetap terjaga di server.
+export const flushOutbox = async (force = false): Promise<void> => {
+  if (isFlushing) return;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+  isFlushing = true;
+  try {
+    while (true) {
+      const entry = readOutbox().find(e => !isFailed(e));
+      if (!entry) break;
+      if (!force && entry.nextAttemptAt > Date.now()) break;
+
+      try {
+        await getBackend().sendMutation(entry.action, entry.payload, entry.id, readAuthSession()?.token);
+        writeOutbox(readOutbox().filter(e => e.id !== entry.id));
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const rejections = (entry.rejections || 0) + (error instanceof MutationRejectedError ? 1 : 0);
+        const failed = rejections >= MAX_REJECTIONS;
+        writeOutbox(readOutbox().map(e => e.id === entry.id ? {
+          ...e,
+          attempts,
+          rejections,
+          failedAt: failed ? Date.now() : undefined,
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          lastError: error instanceof Error ? error.message : String(error)
+        } : e));
+        if (failed) {
+          console.error(`${entry.action} ditolak server ${rejections}x, dipisahkan dari antrian.`, error);
+          continue;
+        }
+        console.warn(`Gagal kirim ${entry.action}, dicoba ulang nanti.`);
+        break;
+      }
+    }
+  } finally {
+    isFlushing = false;
+    scheduleRetry();
+  }
+};
+
+export const startOutbox = (): (() => void) => {
+  const handleOnline = () => { flushOutbox(true); };
+  window.addEventListener('online', handleOnline);
+  flushOutbox(true);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+};
@@ -0,0 +1,67 @@
+import { Student } from '../types';
+import { callServer, createProof, deriveProof, generateCode, getSessionToken, ServerResult } from './authService';
+
+// Kode akses wali murid: 6 karakter, tidak peka huruf besar/kecil. Server hanya menyimpan hash,
+// jadi kode hanya bisa dilihat sekali saat dibuat; lupa kode = admin membuat ulang.
+// Pengecekan kode, penguncian (per siswa) dan pemakaian link sekali pakai dilakukan server.
+// Login berhasil memberi token sesi wali: server hanya membuka data siswa itu sendiri.
+
+const CODE_LENGTH = 6;
+const LINK_PARAM_STUDENT = 'wali';
+const LINK_PARAM_TOKEN = 'token';
+
+const normalizeCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+// Sudah ada kode akses untuk siswa ini? Butuh sesi staf
+export const getParentAccessStatus = (studentId: string) =>
+  callServer<ServerResult & { exists?: boolean }>('getParentAccessStatus', { token: getSessionToken(), studentId });
+
+// Buat (atau ganti) kode akses dan token link sekali pakai. Kode lama langsung tidak berlaku.
+export const generateParentAccess = async (studentId: string): Promise<ServerResult & { code?: string; link?: string }> => {
+  const code = generateCode(CODE_LENGTH);
+  const linkToken = generateCode(24);
+  const result = await callServer<ServerResult>('setParentAccess', {
+    token: getSessionToken(),
+    studentId,
+    code: await createProof(code),
+    link: linkToken
+  });
+  return result.success ? { ...result, code, link: buildParentLink(studentId, linkToken) } : result;
+};
+
+export type ParentLoginResult = ServerResult & { token?: string; student?: Student };
+
+export const verifyParentCode = async (studentId: string, code: string): Promise<ParentLoginResult> => {
+  const params = await callServer<ServerResult & { salt?: string; iterations?: number }>('getParentParams', { studentId });
+  if (!params.success) return params;
+  const proof = await deriveProof(normalizeCode(code), { salt: params.salt!, iterations: params.iterations! });
+  return callServer<ParentLoginResult>('verifyParentCode', { studentId, proof });
+};
+
+// Link/QR: server menghapus token begitu dipakai; login berikutnya memakai kode akses
+export const redeemParentLink = (studentId: string, token: string): Promise<ParentLoginResult> =>
+  callServer<ParentLoginResult>('redeemParentLink', { studentId, token });
+
+export const buildParentLink = (studentId: string, token: string): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(LINK_PARAM_STUDENT, studentId);
+  url.searchParams.set(LINK_PARAM_TOKEN, token);
+  return url.toString();
+};
+
+export const readParentLink = (): { studentId: string; token: string } | null => {
+  const params = new URLSearchParams(window.location.search);
+  const studentId = params.get(LINK_PARAM_STUDENT);
+  const token = params.get(LINK_PARAM_TOKEN);
+  return studentId && token ? { studentId, token } : null;
+};
+
+// Hapus token dari address bar supaya tidak tersimpan di riwayat/bookmark
+export const clearParentLink = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(LINK_PARAM_STUDENT);
+  url.searchParams.delete(LINK_PARAM_TOKEN);
+  window.history.replaceState(null, '', url.toString());
+};
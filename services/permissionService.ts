@@ -0,0 +1,19 @@
+import { Permission, PermissionMatrix, UserRole } from '../types';
+import { DEFAULT_PERMISSIONS, PERMISSIONS, SETTING_KEYS } from '../constants';
+import { getSetting, saveSetting } from './settingsService';
+
+export const getPermissions = (): PermissionMatrix => getSetting(SETTING_KEYS.PERMISSIONS, DEFAULT_PERMISSIONS);
+
+export const savePermissions = (matrix: PermissionMatrix) => saveSetting(SETTING_KEYS.PERMISSIONS, matrix);
+
+// Aturan tetap menang atas isi matriks: izin admin terkunci selalu ada,
+// wali murid tidak pernah mendapat izin di luar parentAllowed
+export const isPermissionLocked = (role: UserRole, permission: Permission): boolean => {
+  const info = PERMISSIONS.find(p => p.id === permission);
+  return (role === 'ADMIN' && !!info?.adminLocked) || (role === 'PARENT' && !info?.parentAllowed);
+};
+
+export const hasPermission = (matrix: PermissionMatrix, role: UserRole, permission: Permission): boolean => {
+  if (isPermissionLocked(role, permission)) return role === 'ADMIN';
+  return (matrix[role] || DEFAULT_PERMISSIONS[role] || []).includes(permission);
+};
@@ -0,0 +1,175 @@
+import JSZip from 'jszip';
+import { PhotoDelta, Student } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { getBackend } from './backends';
+import { readAuthSession } from './authSessionService';
+
+// Foto siswa di-cache per perangkat (IndexedDB, kunci = NIS) dan disinkronkan lewat server.
+// Foto dikecilkan dulu supaya ratusan siswa tetap ringan. Tidak lewat outbox karena
+// localStorage terlalu kecil: antrean kirim ada di store 'pending' (NIS -> updatedAt).
+const DB_NAME = 'smpn3pacet_photos';
+const DB_VERSION = 2;
+const STORE = 'photos';
+const PENDING_STORE = 'pending';
+const META_STORE = 'meta'; // 'cursor' = cursor getPhotoChanges terakhir
+const MAX_PHOTO_SIZE = 400; // px, sisi terpanjang
+const PHOTO_QUALITY = 0.8;
+const IMAGE_FILE = /\.(jpe?g|png|webp)$/i;
+
+type PhotoListener = () => void;
+const listeners = new Set<PhotoListener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+      // Versi 2: sinkronisasi lewat server. Foto versi 1 hanya ada di perangkat ini, jadi ikut antre dikirim.
+      if (!db.objectStoreNames.contains(PENDING_STORE)) db.createObjectStore(PENDING_STORE);
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (oldVersion === 1) {
+        const now = Date.now();
+        const request = tx.objectStore(STORE).getAllKeys();
+        request.onsuccess = () => request.result.forEach(key => tx.objectStore(PENDING_STORE).put(now, key));
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribePhotos = (listener: PhotoListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Data URL JPEG, atau undefined bila siswa belum punya foto
+export const getStudentPhoto = async (studentId: string): Promise<string | undefined> => {
+  const db = await getDb();
+  return requestToPromise(db.transaction(STORE).objectStore(STORE).get(studentId));
+};
+
+const resizePhoto = async (file: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+};
+
+// Perubahan lokal: langsung tampil, lalu antre dikirim ke server. photo null = hapus.
+const changePhotos = async (photos: [string, string | null][]): Promise<void> => {
+  if (photos.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction([STORE, PENDING_STORE], 'readwrite');
+  const store = tx.objectStore(STORE);
+  const now = Date.now();
+  photos.forEach(([studentId, photo]) => {
+    if (photo) store.put(photo, studentId);
+    else store.delete(studentId);
+    tx.objectStore(PENDING_STORE).put(now, studentId);
+  });
+  await transactionDone(tx);
+  notify();
+  syncPhotos().catch(e => console.warn('Foto belum terkirim, dicoba lagi saat sinkron berikutnya.', e));
+};
+
+export const saveStudentPhoto = async (studentId: string, file: Blob): Promise<void> => {
+  await changePhotos([[studentId, await resizePhoto(file)]]);
+};
+
+export const deleteStudentPhoto = async (studentId: string): Promise<void> => {
+  await changePhotos([[studentId, null]]);
+};
+
+// Kirim antrean satu per satu. Gagal (offline, sesi berakhir) berhenti dan tetap antre.
+// Antrean hanya dihapus bila fotonya tidak diubah lagi selama dikirim.
+const pushPending = async (): Promise<void> => {
+  const db = await getDb();
+  const store = db.transaction(PENDING_STORE).objectStore(PENDING_STORE);
+  const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+  for (let i = 0; i < keys.length; i++) {
+    const studentId = String(keys[i]);
+    const updatedAt: number = values[i];
+    const photo = await getStudentPhoto(studentId);
+    await getBackend().sendMutation('savePhoto', { studentId, photo: photo || null, updatedAt }, `photo:${studentId}:${updatedAt}`, readAuthSession()?.token);
+    const tx = db.transaction(PENDING_STORE, 'readwrite');
+    const pending = tx.objectStore(PENDING_STORE);
+    if ((await requestToPromise(pending.get(studentId))) === updatedAt) pending.delete(studentId);
+    await transactionDone(tx);
+  }
+};
+
+// Foto yang masih antre dikirim tidak ditimpa; foto itu menang di server karena lebih baru
+const applyDelta = async (delta: PhotoDelta): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction([STORE, PENDING_STORE, META_STORE], 'readwrite');
+  const pending = new Set((await requestToPromise(tx.objectStore(PENDING_STORE).getAllKeys())).map(String));
+  const store = tx.objectStore(STORE);
+  delta.photos.filter(p => !pending.has(p.studentId)).forEach(p => {
+    if (p.photo) store.put(p.photo, p.studentId);
+    else store.delete(p.studentId);
+  });
+  tx.objectStore(META_STORE).put(delta.cursor, 'cursor');
+  await transactionDone(tx);
+};
+
+let syncing: Promise<void> | null = null;
+
+// Kirim foto yang belum terkirim, lalu unduh foto dari perangkat lain per halaman.
+// Melempar error bila server tidak bisa dihubungi; foto yang sudah di-cache tetap tampil.
+export const syncPhotos = (): Promise<void> => {
+  if (!syncing) {
+    syncing = (async () => {
+      await pushPending().catch(e => console.warn('Sebagian foto belum terkirim.', e));
+      const db = await getDb();
+      let cursor: string | null = (await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get('cursor'))) ?? null;
+      let delta: PhotoDelta;
+      do {
+        delta = await getBackend().getPhotoChanges(cursor, readAuthSession()?.token);
+        await applyDelta(delta);
+        cursor = delta.cursor;
+        if (delta.photos.length > 0) notify();
+      } while (delta.hasMore);
+    })().finally(() => { syncing = null; });
+  }
+  return syncing;
+};
+
+export interface PhotoImportResult {
+  imported: number;
+  unknown: string[]; // Nama file yang NIS-nya tidak ada di daftar siswa
+  failed: string[]; // Gambar rusak / format tidak didukung browser
+}
+
+// ZIP berisi foto bernama NIS (mis. 2024001.jpg); folder di dalam ZIP diabaikan
+export const importPhotosFromZip = async (file: File, students: Student[]): Promise<PhotoImportResult> => {
+  const zip = await JSZip.loadAsync(file);
+  const studentIds = new Set(students.map(s => s.id));
+  const result: PhotoImportResult = { imported: 0, unknown: [], failed: [] };
+  const photos: [string, string][] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    const fileName = entry.name.split('/').pop() || '';
+    if (entry.dir || !IMAGE_FILE.test(fileName) || fileName.startsWith('.')) continue;
+    const studentId = fileName.replace(IMAGE_FILE, '').trim();
+    if (!studentIds.has(studentId)) {
+      result.unknown.push(fileName);
+      continue;
+    }
+    try {
+      photos.push([studentId, await resizePhoto(await entry.async('blob'))]);
+    } catch (e) {
+      result.failed.push(fileName);
+    }
+  }
+
+  await changePhotos(photos);
+  result.imported = photos.length;
+  return result;
+};
@@ -0,0 +1,46 @@
+import { Student, ClassMapping, PromotionChange } from '../types';
+
+const GRADES = ['VII', 'VIII', 'IX'];
+const NUMERIC_GRADES: Record<string, string> = { '7': 'VII', '8': 'VIII', '9': 'IX' };
+
+export const isActiveStudent = (student: Student): boolean => student.status !== 'GRADUATED';
+
+// Alumni tetap muncul di laporan periode sebelum tanggal kelulusannya
+export const wasEnrolledOn = (student: Student, date: string): boolean =>
+  isActiveStudent(student) || !student.graduatedAt || student.graduatedAt > date;
+
+// "IX A" -> { grade: 'IX', section: 'A' }; "8-B" -> { grade: 'VIII', section: 'B' }
+export const parseClassName = (className: string): { grade: string; section: string } | null => {
+  const match = className.trim().toUpperCase().match(/^(VIII|VII|IX|7|8|9)(?![A-Z0-9])[\s\-.]*(.*)$/);
+  if (!match) return null;
+  return { grade: NUMERIC_GRADES[match[1]] || match[1], section: match[2].trim() };
+};
+
+// Usulan awal: naik satu tingkat dengan rombel yang sama, kelas tertinggi lulus.
+// Kelas yang formatnya tidak dikenali dibiarkan tetap.
+export const suggestClassMapping = (classNames: string[]): ClassMapping =>
+  Object.fromEntries(classNames.map(className => {
+    const parsed = parseClassName(className);
+    if (!parsed) return [className, className];
+    const next = GRADES[GRADES.indexOf(parsed.grade) + 1];
+    if (!next) return [className, null];
+    return [className, parsed.section ? `${next} ${parsed.section}` : next];
+  }));
+
+// Perubahan untuk siswa aktif; siswa di heldBackIds (tinggal kelas) tidak diubah
+export const buildPromotionPlan = (students: Student[], mapping: ClassMapping, heldBackIds: Set<string>): PromotionChange[] =>
+  students
+    .filter(s => isActiveStudent(s) && !heldBackIds.has(s.id) && s.className in mapping)
+    .map(s => ({ student: s, from: s.className, to: mapping[s.className] }))
+    .filter(change => change.to !== change.from);
+
+// Record absensi menyimpan className sendiri, jadi laporan lama tetap memakai kelas lama
+export const applyPromotionPlan = (students: Student[], changes: PromotionChange[], graduationDate: string): Student[] => {
+  const byId = new Map(changes.map(c => [c.student.id, c]));
+  return students.map(s => {
+    const change = byId.get(s.id);
+    if (!change) return s;
+    if (change.to === null) return { ...s, status: 'GRADUATED' as const, graduatedAt: graduationDate };
+    return { ...s, className: change.to };
+  }).sort((a, b) => a.className.localeCompare(b.className) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { PrayerSession } from '../types';
+import { DEFAULT_PRAYER_SESSIONS } from '../constants';
+import { evaluateScanTime, getActiveSession, isSessionOver } from './sessionService';
+
+// Senin 5 Januari 2026 & Jumat 9 Januari 2026, jam lokal
+const monday = (time: string) => new Date(`2026-01-05T${time}:00`);
+const friday = (time: string) => new Date(`2026-01-09T${time}:00`);
+
+const dhuhur = DEFAULT_PRAYER_SESSIONS.find(s => s.id === 'DHUHUR')!;
+
+describe('evaluateScanTime', () => {
+  it('startTime..endTime tepat waktu, sampai toleransi terlambat', () => {
+    expect(evaluateScanTime(dhuhur, monday('11:45'))).toEqual({ status: 'PRESENT' });
+    expect(evaluateScanTime(dhuhur, monday('12:15'))).toEqual({ status: 'PRESENT' });
+    expect(evaluateScanTime(dhuhur, monday('12:16'))).toEqual({ status: 'LATE' });
+    expect(evaluateScanTime(dhuhur, monday('12:45'))).toEqual({ status: 'LATE' });
+  });
+
+  it('menolak scan sebelum dibuka, setelah ditutup & di luar hari sesi', () => {
+    expect(evaluateScanTime(dhuhur, monday('11:44'))).toEqual({ reason: 'Sesi Dhuhur belum dibuka (mulai 11:45).' });
+    expect(evaluateScanTime(dhuhur, monday('12:46'))).toEqual({ reason: 'Sesi Dhuhur sudah ditutup.' });
+    expect(evaluateScanTime(dhuhur, friday('12:00'))).toEqual({ reason: 'Tidak ada sesi Dhuhur hari ini.' });
+  });
+
+  it('tanpa toleransi, lewat endTime langsung ditutup', () => {
+    const session: PrayerSession = { ...dhuhur, graceMinutes: undefined };
+    expect(evaluateScanTime(session, monday('12:16'))).toEqual({ reason: 'Sesi Dhuhur sudah ditutup.' });
+  });
+});
+
+describe('isSessionOver', () => {
+  it('baru lewat setelah toleransi terlambat habis', () => {
+    expect(isSessionOver(dhuhur, monday('12:45'))).toBe(false);
+    expect(isSessionOver(dhuhur, monday('12:46'))).toBe(true);
+    expect(isSessionOver(dhuhur, friday('13:00'))).toBe(false);
+  });
+});
+
+describe('getActiveSession', () => {
+  it('memilih sesi yang sedang berjalan', () => {
+    expect(getActiveSession(DEFAULT_PRAYER_SESSIONS, monday('07:10'))?.id).toBe('DHUHA');
+    expect(getActiveSession(DEFAULT_PRAYER_SESSIONS, friday('11:40'))?.id).toBe('JUMAT');
+  });
+
+  it('di luar jam sesi: sesi berikutnya, lalu sesi terakhir hari ini', () => {
+    expect(getActiveSession(DEFAULT_PRAYER_SESSIONS, monday('09:00'))?.id).toBe('DHUHUR');
+    expect(getActiveSession(DEFAULT_PRAYER_SESSIONS, monday('15:00'))?.id).toBe('DHUHUR');
+  });
+
+  it('hari tanpa sesi memakai sesi pertama yang terdaftar', () => {
+    expect(getActiveSession(DEFAULT_PRAYER_SESSIONS, new Date('2026-01-04T12:00:00'))?.id).toBe('DHUHA');
+  });
+});
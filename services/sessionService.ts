@@ -0,0 +1,63 @@
+import { PrayerSession, AttendanceRecord, AttendanceStatus } from '../types';
+import { DEFAULT_PRAYER_SESSIONS, DEFAULT_SESSION_ID, SETTING_KEYS } from '../constants';
+import { getSetting, saveSetting } from './settingsService';
+
+export const getPrayerSessions = (): PrayerSession[] =>
+  getSetting(SETTING_KEYS.PRAYER_SESSIONS, DEFAULT_PRAYER_SESSIONS);
+
+export const savePrayerSessions = (sessions: PrayerSession[]) =>
+  saveSetting(SETTING_KEYS.PRAYER_SESSIONS, sessions);
+
+// Record sebelum ada fitur sesi dianggap sesi bawaan (Dhuhur)
+export const getRecordSessionId = (record: AttendanceRecord): string => record.sessionId || DEFAULT_SESSION_ID;
+
+export const getSessionName = (sessions: PrayerSession[], sessionId: string): string =>
+  sessions.find(s => s.id === sessionId)?.name || sessionId;
+
+export const getSessionsForDay = (sessions: PrayerSession[], date: Date): PrayerSession[] =>
+  sessions.filter(s => s.days.includes(date.getDay()));
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Sesi yang sedang berlangsung; di luar jam sesi pilih sesi terdekat berikutnya,
+// lalu sesi terakhir hari ini, lalu sesi pertama yang terdaftar.
+export const getActiveSession = (sessions: PrayerSession[], now: Date = new Date()): PrayerSession | undefined => {
+  const todaySessions = getSessionsForDay(sessions, now)
+    .sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  return todaySessions.find(s => minutes >= toMinutes(s.startTime) && minutes <= toMinutes(s.endTime))
+    || todaySessions.find(s => toMinutes(s.startTime) > minutes)
+    || todaySessions[todaySessions.length - 1]
+    || sessions[0];
+};
+
+// Jendela scan (termasuk toleransi terlambat) sesi ini sudah lewat hari ini
+export const isSessionOver = (session: PrayerSession, now: Date): boolean =>
+  session.days.includes(now.getDay()) &&
+  now.getHours() * 60 + now.getMinutes() > toMinutes(session.endTime) + (session.graceMinutes || 0);
+
+export type ScanTiming =
+  | { status: Extract<AttendanceStatus, 'PRESENT' | 'LATE'> }
+  | { reason: string };
+
+// startTime..endTime = tepat waktu, sampai endTime + graceMinutes = terlambat, di luar itu ditolak
+export const evaluateScanTime = (session: PrayerSession, now: Date): ScanTiming => {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(session.startTime);
+  const onTimeEnd = toMinutes(session.endTime);
+  const graceEnd = onTimeEnd + (session.graceMinutes || 0);
+
+  if (!session.days.includes(now.getDay())) {
+    return { reason: `Tidak ada sesi ${session.name} hari ini.` };
+  }
+  if (minutes < start) {
+    return { reason: `Sesi ${session.name} belum dibuka (mulai ${session.startTime}).` };
+  }
+  if (minutes <= onTimeEnd) return { status: 'PRESENT' };
+  if (minutes <= graceEnd) return { status: 'LATE' };
+  return { reason: `Sesi ${session.name} sudah ditutup.` };
+};
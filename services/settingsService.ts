@@ -0,0 +1,73 @@
+import { PRIVATE_SETTING_KEYS, STORAGE_KEYS } from '../constants';
+import { enqueueMutation, getPendingMutations } from './outboxService';
+import { getBackend } from './backends';
+
+// Pengaturan bersama (sesi sholat, kalender, dll). Disimpan lokal agar langsung
+// terbaca saat offline, dan dikirim ke server lewat outbox seperti data lain.
+
+type SettingsListener = () => void;
+
+const listeners = new Set<SettingsListener>();
+
+const readSettings = (): Record<string, unknown> => {
+  const stored = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    return {};
+  }
+};
+
+const writeSettings = (settings: Record<string, unknown>) => {
+  localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+  listeners.forEach(listener => listener());
+};
+
+export const getSetting = <T>(key: string, fallback: T): T => {
+  const settings = readSettings();
+  return key in settings ? settings[key] as T : fallback;
+};
+
+export const saveSetting = <T>(key: string, value: T) => {
+  writeSettings({ ...readSettings(), [key]: value });
+  enqueueMutation('saveSetting', { key, value });
+};
+
+// Sebagian entri pengaturan berbentuk map (mis. kartu per NIS). Hanya entri itu yang dikirim,
+// jadi perubahan perangkat lain pada entri lain tidak tertimpa.
+export const saveSettingEntries = <T>(key: string, entries: Record<string, T>) => {
+  const settings = readSettings();
+  writeSettings({ ...settings, [key]: { ...(settings[key] as Record<string, T> || {}), ...entries } });
+  enqueueMutation('saveSettingEntries', { key, entries });
+};
+
+export const subscribeSettings = (listener: SettingsListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Nilai server menang, kecuali kunci/entri yang perubahannya masih antre di outbox.
+// Rahasia yang dulu ikut pengaturan bersama dihapus dari cache perangkat.
+// Hasil false berarti server tidak bisa dihubungi dan nilai lokal yang dipakai.
+export const syncSettings = async (): Promise<boolean> => {
+  try {
+    const remote = await getBackend().getSettings();
+    if (!remote || typeof remote !== 'object') return false;
+    const pendingKeys = new Set(getPendingMutations('saveSetting').map(e => e.payload.key));
+    const pendingEntries = getPendingMutations('saveSettingEntries').map(e => e.payload);
+    const local = readSettings();
+    const merged = { ...local };
+    Object.entries(remote).forEach(([key, value]) => {
+      if (pendingKeys.has(key)) return;
+      const entries = pendingEntries.filter(p => p.key === key).map(p => p.entries);
+      merged[key] = entries.length === 0 ? value : Object.assign({}, value, ...entries);
+    });
+    PRIVATE_SETTING_KEYS.forEach(key => delete merged[key]);
+    writeSettings(merged);
+    return true;
+  } catch (e) {
+    console.warn("Gagal ambil pengaturan dari cloud, menggunakan lokal.");
+    return false;
+  }
+};
@@ -0,0 +1,51 @@
+// Nada pendek lewat Web Audio, tanpa file suara. Browser baru mengizinkan suara setelah
+// ada interaksi, jadi panggil unlockSound() dari klik tombol sebelum nada pertama.
+export type SoundCue = 'success' | 'duplicate' | 'error';
+
+interface Tone {
+  frequency: number;
+  duration: number; // detik
+}
+
+const CUES: Record<SoundCue, { type: OscillatorType; tones: Tone[] }> = {
+  success: { type: 'sine', tones: [{ frequency: 880, duration: 0.12 }, { frequency: 1320, duration: 0.2 }] },
+  duplicate: { type: 'triangle', tones: [{ frequency: 600, duration: 0.15 }, { frequency: 600, duration: 0.15 }] },
+  error: { type: 'square', tones: [{ frequency: 200, duration: 0.5 }] }
+};
+
+let context: AudioContext | null = null;
+
+const getContext = () => {
+  if (!context) context = new AudioContext();
+  return context;
+};
+
+export const unlockSound = () => {
+  try {
+    getContext().resume();
+  } catch (e) {
+    console.warn("Suara tidak didukung di perangkat ini.");
+  }
+};
+
+export const playCue = (cue: SoundCue) => {
+  try {
+    const ctx = getContext();
+    const { type, tones } = CUES[cue];
+    let start = ctx.currentTime;
+    tones.forEach(({ frequency, duration }) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = type;
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.3, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + duration);
+      start += duration + 0.05;
+    });
+  } catch (e) {
+    console.warn("Gagal memutar suara.", e);
+  }
+};
@@ -0,0 +1,20 @@
+import { StaffMember } from '../types';
+import { ADMIN_USERNAME, DEFAULT_STAFF, SETTING_KEYS } from '../constants';
+import { getSetting, saveSetting } from './settingsService';
+
+export const getStaff = (): StaffMember[] => getSetting(SETTING_KEYS.STAFF, DEFAULT_STAFF);
+
+export const saveStaff = (staff: StaffMember[]) => saveSetting(SETTING_KEYS.STAFF, staff);
+
+export const findStaffByName = (staff: StaffMember[], name: string): StaffMember | undefined =>
+  staff.find(s => s.name === name);
+
+// Nama login -> id kredensial (App hanya menyimpan nama di sesi)
+export const getStaffIdByName = (staff: StaffMember[], name: string): string =>
+  name === ADMIN_USERNAME ? ADMIN_USERNAME : findStaffByName(staff, name)?.id || name;
+
+// Kelas bawaan untuk filter Dashboard, Scanner dan Laporan
+export const getHomeroomClass = (staff: StaffMember[], name: string): string | undefined => {
+  const member = findStaffByName(staff, name);
+  return member?.role === 'HOMEROOM' ? member.classes[0] : undefined;
+};
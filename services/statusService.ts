@@ -0,0 +1,27 @@
+import { AttendanceRecord, AttendanceStatus, AttendanceStatusInfo } from '../types';
+import { ATTENDANCE_STATUSES } from '../constants';
+
+// Record lama tanpa status dianggap hadir
+export const getRecordStatus = (record: AttendanceRecord): AttendanceStatus => record.status || 'PRESENT';
+
+export const getStatusInfo = (status: AttendanceStatus): AttendanceStatusInfo =>
+  ATTENDANCE_STATUSES.find(s => s.id === status) || ATTENDANCE_STATUSES[0];
+
+// Status yang bisa dipilih petugas sebagai mode input
+export const getManualStatuses = (): AttendanceStatusInfo[] => ATTENDANCE_STATUSES.filter(s => s.manual);
+
+// Jumlah record per status; semua status registry selalu ada (minimal 0)
+export const countByStatus = (records: AttendanceRecord[]): Record<AttendanceStatus, number> => {
+  const counts = Object.fromEntries(ATTENDANCE_STATUSES.map(s => [s.id, 0])) as Record<AttendanceStatus, number>;
+  records.forEach(r => { counts[getRecordStatus(r)]++; });
+  return counts;
+};
+
+export const getRecordScore = (record: AttendanceRecord): number => getStatusInfo(getRecordStatus(record)).score;
+
+// Persentase kehadiran terhadap jumlah hari efektif (0 bila tidak ada hari efektif)
+export const getAttendancePercentage = (records: AttendanceRecord[], effectiveDays: number): number => {
+  if (effectiveDays <= 0) return 0;
+  const attended = records.filter(r => getStatusInfo(getRecordStatus(r)).attended).length;
+  return Math.round((attended / effectiveDays) * 100);
+};
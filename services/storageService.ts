@@ -1,31 +1,23 @@
 
-import { Student, AttendanceRecord } from '../types';
-import { INITIAL_STUDENTS, STORAGE_KEYS, GOOGLE_SCRIPT_URL } from '../constants';
-
-const fetchWithTimeout = async (url: string, options: any = {}, timeout = 8000) => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-  try {
-    const response = await fetch(url, { 
-      ...options, 
-      signal: controller.signal,
-      redirect: 'follow' 
-    });
-    clearTimeout(id);
-    return response;
-  } catch (error) {
-    clearTimeout(id);
-    throw error;
-  }
-};
+import { Student, AttendanceRecord, AttendanceDelta, AttendanceStatus, AuditEntry, DateRange } from '../types';
+import { INITIAL_STUDENTS, STORAGE_KEYS, DEFAULT_SESSION_ID } from '../constants';
+import { enqueueMutation, getPendingMutations } from './outboxService';
+import { getBackend } from './backends';
+import { getPrayerSessions, getRecordSessionId, getSessionName, evaluateScanTime } from './sessionService';
+import { calibrateClock, trustedNow } from './clockService';
+import { getStatusInfo } from './statusService';
+import { getSchoolCalendar, getNonEffectiveReason } from './calendarService';
+import { getRecordsInRange, getRecordsForStudentOnDate, getRecord, putRecord, mergeRecords, getAllRecordIds, removeRecords } from './attendanceCache';
+import { getRecordVersion, buildIdempotencyKey, getIdempotencyKey, collapseDuplicates } from './attendanceMerge';
+import { appendAudit } from './auditService';
+import { readAuthSession } from './authSessionService';
 
 export const getStudents = async (): Promise<Student[]> => {
   const stored = localStorage.getItem(STORAGE_KEYS.STUDENTS);
   let localData: Student[] = stored ? JSON.parse(stored) : INITIAL_STUDENTS;
 
   try {
-    const response = await fetchWithTimeout(`${GOOGLE_SCRIPT_URL}?action=getStudents`);
-    const cloudData = await response.json();
+    const cloudData = await getBackend().getStudents(readAuthSession()?.token);
     
     if (Array.isArray(cloudData) && cloudData.length > 0) {
       localStorage.setItem(STORAGE_KEYS.STUDENTS, JSON.stringify(cloudData));
@@ -39,102 +31,167 @@ export const getStudents = async (): Promise<Student[]> => {
 
 export const saveStudents = async (students: Student[]): Promise<boolean> => {
   localStorage.setItem(STORAGE_KEYS.STUDENTS, JSON.stringify(students));
-  try {
-    fetch(GOOGLE_SCRIPT_URL, {
-      method: 'POST',
-      mode: 'no-cors',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'saveStudents', payload: students })
-    });
-    return true;
-  } catch (error) {
-    return false;
+  enqueueMutation('saveStudents', students);
+  return true;
+};
+
+// Server mengirim semua record + tombstone. Record lokal yang tidak dikenal server
+// dibuang, kecuali yang masih antre di outbox (belum sempat terkirim).
+const applyFullResync = async (delta: AttendanceDelta) => {
+  const serverIds = new Set(delta.changed.map(r => r.id));
+  const pendingIds = new Set(getPendingMutations().map(e => e.payload?.id).filter(Boolean));
+  const staleIds = (await getAllRecordIds()).filter(id => !serverIds.has(id) && !pendingIds.has(id));
+  await removeRecords(staleIds);
+  await mergeRecords(delta.changed);
+};
+
+// Sinkronisasi delta berbasis cursor: hanya record yang dibuat, diubah atau dihapus
+// sejak sync terakhir yang diunduh. Tanpa cursor (atau bila server menolaknya,
+// atau fullResync diminta) seluruh cache dibangun ulang dari server.
+export const syncAttendance = async (fullResync = false): Promise<void> => {
+  const cursor = fullResync ? null : localStorage.getItem(STORAGE_KEYS.SYNC_CURSOR);
+  const backend = getBackend();
+  const token = readAuthSession()?.token;
+
+  const requestStart = Date.now();
+  let delta = await backend.getAttendanceChanges(cursor, token);
+  if (delta.serverTime) calibrateClock(delta.serverTime, requestStart, Date.now());
+  let isFull = !cursor;
+  if (cursor && delta.resyncRequired) {
+    console.warn("Cursor sync tidak dikenali server, melakukan resync penuh.");
+    delta = await backend.getAttendanceChanges(null, token);
+    isFull = true;
+  }
+
+  if (isFull) {
+    await applyFullResync(delta);
+  } else {
+    await mergeRecords(delta.changed);
   }
+  localStorage.setItem(STORAGE_KEYS.SYNC_CURSOR, delta.cursor);
 };
 
-export const getAttendance = async (): Promise<AttendanceRecord[]> => {
-  const stored = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
-  const localRecords: AttendanceRecord[] = stored ? JSON.parse(stored) : [];
+// Absen ganda dari sebelum ada kunci idempotensi (atau yang belum ditolak server) digabung:
+// hanya scan pertama yang ditampilkan & dihitung, sisanya dilaporkan ke console.
+const loadCollapsed = async (range: DateRange): Promise<AttendanceRecord[]> => {
+  const { records, duplicates } = collapseDuplicates(await getRecordsInRange(range.start, range.end));
+  if (duplicates.length > 0) {
+    console.warn(
+      `${duplicates.length} absen ganda disembunyikan:`,
+      duplicates.map(r => `${r.studentName} (${r.studentId}) ${r.date} ${getSessionName(getPrayerSessions(), getRecordSessionId(r))} oleh ${r.operatorName} [${r.id}]`)
+    );
+  }
+  return records;
+};
 
+export const getAttendance = async (range: DateRange, fullResync = false): Promise<AttendanceRecord[]> => {
   try {
-    const response = await fetchWithTimeout(`${GOOGLE_SCRIPT_URL}?action=getAttendance`);
-    const cloudRecords = await response.json();
-    
-    if (Array.isArray(cloudRecords)) {
-      const recordMap = new Map();
-      cloudRecords.forEach((r: AttendanceRecord) => recordMap.set(r.id, r));
-      localRecords.forEach((r: AttendanceRecord) => {
-        if (!recordMap.has(r.id)) recordMap.set(r.id, r);
-      });
-
-      const mergedRecords = Array.from(recordMap.values());
-      mergedRecords.sort((a, b) => b.timestamp - a.timestamp);
-      
-      localStorage.setItem(STORAGE_KEYS.ATTENDANCE, JSON.stringify(mergedRecords));
-      return mergedRecords;
-    }
+    await syncAttendance(fullResync);
   } catch (e) {
     console.warn("Gagal sinkron absensi cloud.");
   }
-  return localRecords;
+  return loadCollapsed(range);
 };
 
-export const deleteAttendanceRecord = async (id: string): Promise<boolean> => {
-  const stored = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
-  if (!stored) return false;
-  
-  const records: AttendanceRecord[] = JSON.parse(stored);
-  const filtered = records.filter(r => r.id !== id);
-  localStorage.setItem(STORAGE_KEYS.ATTENDANCE, JSON.stringify(filtered));
+export const loadAttendanceRange = (range: DateRange): Promise<AttendanceRecord[]> => loadCollapsed(range);
 
-  try {
-    fetch(GOOGLE_SCRIPT_URL, {
-      method: 'POST',
-      mode: 'no-cors',
-      body: JSON.stringify({ action: 'deleteAttendance', payload: { id } })
-    });
-    return true;
-  } catch (e) {
-    return true; // Optimistic
-  }
+export const deleteAttendanceRecord = async (id: string, actor: string): Promise<boolean> => {
+  const existing = await getRecord(id);
+  if (!existing || existing.deletedAt) return false;
+
+  // Disimpan sebagai tombstone supaya sync berikutnya tidak menghidupkannya kembali
+  const now = Date.now();
+  const tombstone: AttendanceRecord = { ...existing, deletedAt: now, updatedAt: now };
+  await putRecord(tombstone);
+  enqueueMutation('deleteAttendance', tombstone);
+  await appendAudit('DELETE', existing, tombstone, actor);
+  return true;
 };
 
-export const updateAttendanceStatus = async (id: string, newStatus: 'PRESENT' | 'HAID'): Promise<boolean> => {
-  const stored = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
-  if (!stored) return false;
-  
-  const records: AttendanceRecord[] = JSON.parse(stored);
-  const index = records.findIndex(r => r.id === id);
-  if (index === -1) return false;
+// note undefined = keterangan lama dipertahankan; string kosong = keterangan dihapus
+export const updateAttendanceStatus = async (id: string, newStatus: AttendanceStatus, actor: string, note?: string): Promise<boolean> => {
+  const existing = await getRecord(id);
+  if (!existing || existing.deletedAt) return false;
+
+  const updated: AttendanceRecord = { ...existing, status: newStatus, updatedAt: Date.now() };
+  if (note !== undefined) updated.note = note.trim() || undefined;
+  await putRecord(updated);
+  enqueueMutation('updateAttendance', updated);
+  await appendAudit('UPDATE', existing, updated, actor);
+  return true;
+};
 
-  records[index].status = newStatus;
-  localStorage.setItem(STORAGE_KEYS.ATTENDANCE, JSON.stringify(records));
+// Pulihkan record yang dihapus ke isi sebelum dihapus. Ditolak bila record sudah hidup lagi
+// atau siswa sudah punya absen baru di sesi yang sama (mencegah dobel).
+export const restoreAttendanceRecord = async (entry: AuditEntry, actor: string): Promise<{ success: boolean; message: string }> => {
+  const current = await getRecord(entry.recordId);
+  if (entry.action !== 'DELETE' || !entry.before) return { success: false, message: 'Entri ini bukan penghapusan.' };
+  if (!current?.deletedAt) return { success: false, message: 'Record ini sudah aktif.' };
+
+  const sessionId = getRecordSessionId(entry.before);
+  const sameDay = await getRecordsForStudentOnDate(entry.before.studentId, entry.before.date);
+  if (sameDay.some(r => getRecordSessionId(r) === sessionId)) {
+    return { success: false, message: `${entry.studentName} sudah punya absen lain di sesi ${getSessionName(getPrayerSessions(), sessionId)} tanggal itu.` };
+  }
 
-  try {
-    fetch(GOOGLE_SCRIPT_URL, {
-      method: 'POST',
-      mode: 'no-cors',
-      body: JSON.stringify({ action: 'updateAttendance', payload: { id, status: newStatus } })
-    });
-    return true;
-  } catch (e) {
-    return true;
+  const { deletedAt: _deleted, ...before } = entry.before;
+  const restored: AttendanceRecord = { ...before, updatedAt: Date.now() };
+  await putRecord(restored);
+  enqueueMutation('updateAttendance', restored);
+  await appendAudit('RESTORE', current, restored, actor, entry.id);
+  return { success: true, message: `Absen ${entry.studentName} dipulihkan.` };
+};
+
+// Kembalikan status & keterangan ke nilai sebelum perubahan. Hanya bila record belum
+// diubah lagi sesudahnya, supaya perubahan orang lain tidak ikut tertimpa.
+export const revertAttendanceEdit = async (entry: AuditEntry, actor: string): Promise<{ success: boolean; message: string }> => {
+  const current = await getRecord(entry.recordId);
+  if (entry.action !== 'UPDATE' || !entry.before) return { success: false, message: 'Entri ini bukan perubahan status.' };
+  if (!current || current.deletedAt) return { success: false, message: 'Record sudah dihapus. Pulihkan dulu dari entri penghapusannya.' };
+  if (getRecordVersion(current) !== getRecordVersion(entry.after)) {
+    return { success: false, message: 'Record sudah diubah lagi setelah perubahan ini. Kembalikan perubahan terbaru terlebih dahulu.' };
   }
+
+  const reverted: AttendanceRecord = { ...current, status: entry.before.status, note: entry.before.note, updatedAt: Date.now() };
+  await putRecord(reverted);
+  enqueueMutation('updateAttendance', reverted);
+  await appendAudit('REVERT', current, reverted, actor, entry.id);
+  return { success: true, message: `Status ${entry.studentName} dikembalikan.` };
 };
 
+// LATE tidak bisa diminta langsung: status bertanda timed (PRESENT) bisa berubah menjadi
+// LATE sesuai jendela waktu sesi, diukur dengan jam terpercaya (bukan jam HP mentah).
 export const addAttendanceRecordToSheet = async (
   student: Student, 
   operatorName: string, 
-  status: 'PRESENT' | 'HAID' = 'PRESENT'
-): Promise<{ success: boolean; message: string; record?: AttendanceRecord }> => {
-  const now = new Date();
+  status: Exclude<AttendanceStatus, 'LATE'> = 'PRESENT',
+  sessionId: string = DEFAULT_SESSION_ID,
+  note?: string
+): Promise<{ success: boolean; message: string; record?: AttendanceRecord; duplicate?: boolean }> => {
+  const timestamp = trustedNow();
+  const now = new Date(timestamp);
   const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
 
-  const stored = localStorage.getItem(STORAGE_KEYS.ATTENDANCE);
-  const cachedRecords: AttendanceRecord[] = stored ? JSON.parse(stored) : [];
-  
-  if (cachedRecords.some((r) => r.studentId === student.id && r.date === today)) {
-    return { success: false, message: `${student.name} sudah absen hari ini.` };
+  const sessions = getPrayerSessions();
+  const session = sessions.find(s => s.id === sessionId);
+  const sessionName = getSessionName(sessions, sessionId);
+
+  // Duplikat dicek per sesi: satu siswa boleh absen Dhuha dan Dhuhur di hari yang sama.
+  // Kunci yang sama juga dipakai server untuk menolak absen ganda dari perangkat lain.
+  const idempotencyKey = buildIdempotencyKey(student.id, today, sessionId);
+  const todayRecords = await getRecordsForStudentOnDate(student.id, today);
+  if (todayRecords.some(r => getIdempotencyKey(r) === idempotencyKey)) {
+    return { success: false, message: `${student.name} sudah absen ${sessionName} hari ini.`, duplicate: true };
+  }
+
+  // Haid, izin, sakit dan alpha tidak terikat jam sesi
+  let finalStatus: AttendanceStatus = status;
+  if (getStatusInfo(status).timed && session) {
+    const holiday = getNonEffectiveReason(getSchoolCalendar(), now);
+    if (holiday) return { success: false, message: `Hari ini bukan hari efektif (${holiday}).` };
+    const timing = evaluateScanTime(session, now);
+    if ('reason' in timing) return { success: false, message: timing.reason };
+    finalStatus = timing.status;
   }
 
   const newRecord: AttendanceRecord = {
@@ -143,27 +200,26 @@ export const addAttendanceRecordToSheet = async (
     studentName: student.name,
     className: student.className,
     date: today,
-    timestamp: Date.now(),
+    timestamp,
     operatorName: operatorName,
-    status: status
+    status: finalStatus,
+    sessionId,
+    updatedAt: timestamp,
+    idempotencyKey
   };
+  if (note?.trim()) newRecord.note = note.trim();
 
-  const updatedRecords = [newRecord, ...cachedRecords];
-  localStorage.setItem(STORAGE_KEYS.ATTENDANCE, JSON.stringify(updatedRecords));
-
-  fetch(GOOGLE_SCRIPT_URL, {
-    method: 'POST',
-    mode: 'no-cors', 
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      action: 'addAttendance',
-      payload: newRecord
-    })
-  });
+  await putRecord(newRecord);
+  enqueueMutation('addAttendance', newRecord);
+  await appendAudit('CREATE', null, newRecord, operatorName);
 
   return { 
     success: true, 
-    message: `${student.name} berhasil ABSEN.`,
+    message: finalStatus === 'PRESENT'
+      ? `${student.name} berhasil ABSEN.`
+      : finalStatus === 'LATE'
+        ? `${student.name} ABSEN (TERLAMBAT).`
+        : `${student.name} dicatat ${getStatusInfo(finalStatus).label.toUpperCase()}.`,
     record: newRecord 
   };
 };
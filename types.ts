@@ -4,6 +4,38 @@ export interface Student {
   className: string;
   gender?: 'L' | 'P'; // Laki-laki / Perempuan (Optional now)
   parentPhone?: string; // Optional: Nomor WA Orang Tua (format 628xxx)
+  status?: StudentStatus; // Kosong = ACTIVE
+  graduatedAt?: string; // YYYY-MM-DD, diisi saat lulus lewat wizard kenaikan kelas
+}
+
+export type StudentStatus = 'ACTIVE' | 'GRADUATED';
+
+// Kelas lama -> kelas baru; null = lulus
+export type ClassMapping = Record<string, string | null>;
+
+export interface PromotionChange {
+  student: Student;
+  from: string;
+  to: string | null; // null = lulus
+}
+
+export type AttendanceStatus = 'PRESENT' | 'LATE' | 'HAID' | 'IZIN' | 'SAKIT' | 'ALPHA';
+
+// Satu entri registry status (lihat ATTENDANCE_STATUSES di constants.ts).
+// Status baru cukup ditambahkan ke union di atas dan ke registry.
+export interface AttendanceStatusInfo {
+  id: AttendanceStatus;
+  label: string; // Contoh: "Sakit"
+  short: string; // Kode satu huruf untuk sel matriks & ekspor
+  textClass: string; // Kelas warna teks Tailwind
+  badgeClass: string; // Kelas latar + teks + border untuk chip/kartu
+  hex: string; // Warna grafik
+  score: number; // Poin leaderboard per record
+  attended: boolean; // Dihitung "sudah menunaikan" pada persentase kehadiran
+  manual: boolean; // Bisa dipilih petugas sebagai mode input (LATE otomatis dari jam sesi)
+  timed?: boolean; // Mengikuti jendela waktu sesi (PRESENT -> LATE / ditolak)
+  femaleOnly?: boolean; // Hanya untuk siswi (HAID)
+  allowsNote?: boolean; // Petugas bisa menulis keterangan/alasan
 }
 
 export interface AttendanceRecord {
@@ -14,11 +46,282 @@ export interface AttendanceRecord {
   date: string; // YYYY-MM-DD
   timestamp: number;
   operatorName?: string; // Nama Guru yang melakukan scan
-  status?: 'PRESENT' | 'HAID'; // Status kehadiran
+  status?: AttendanceStatus; // Status kehadiran
+  note?: string; // Keterangan opsional, misalnya alasan izin/sakit
+  sessionId?: string; // Sesi sholat (PrayerSession.id); record lama = DEFAULT_SESSION_ID
+  updatedAt?: number; // Versi untuk last-writer-wins (record lama: pakai timestamp)
+  deletedAt?: number; // Tombstone: record sudah dihapus, disimpan agar tidak muncul lagi saat sync
+  idempotencyKey?: string; // NIS|tanggal|sesi; sama di semua perangkat, dipakai server menolak absen ganda
+}
+
+export interface PrayerSession {
+  id: string;
+  name: string; // Contoh: "Dhuhur"
+  startTime: string; // HH:mm, scan dibuka
+  endTime: string; // HH:mm, batas tepat waktu (PRESENT)
+  graceMinutes?: number; // Toleransi setelah endTime, scan dicatat LATE; lewat dari itu ditolak
+  days: number[]; // Hari berlaku: 0 = Minggu ... 6 = Sabtu
+}
+
+export type CalendarEntryKind = 'HOLIDAY' | 'BREAK' | 'EXAM' | 'NO_PRAYER';
+
+// Rentang hari tidak efektif (libur nasional, libur semester, ujian, tidak ada sholat jamaah)
+export interface CalendarEntry {
+  id: string;
+  name: string; // Contoh: "Hari Kemerdekaan"
+  kind: CalendarEntryKind;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inklusif; sama dengan start untuk libur satu hari
+}
+
+export interface SchoolCalendar {
+  schoolDays: number[]; // Hari sekolah: 0 = Minggu ... 6 = Sabtu
+  entries: CalendarEntry[];
+}
+
+export interface Semester {
+  id: string; // Contoh: "2025/2026-1"
+  name: string; // Contoh: "Ganjil"
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inklusif
+}
+
+export interface AcademicYear {
+  id: string; // Contoh: "2025/2026"
+  name: string;
+  semesters: Semester[];
+}
+
+// Periode yang sedang dipilih di header. readOnly = semester sudah lewat (arsip)
+export interface AcademicPeriod {
+  year: AcademicYear;
+  semester: Semester;
+  readOnly: boolean;
+}
+
+// Jendela tanggal inklusif, format YYYY-MM-DD
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type MutationAction = 'addAttendance' | 'saveStudents' | 'deleteAttendance' | 'updateAttendance' | 'saveSetting' | 'saveSettingEntries' | 'appendAudit' | 'savePhoto';
+
+export type ServerAction =
+  | 'getSecretParams' | 'login' | 'unlock' | 'setupAdmin' | 'changePassword' | 'setPin' | 'resetPassword' | 'getCredentialStatus'
+  | 'setParentAccess' | 'getParentAccessStatus' | 'getParentParams' | 'verifyParentCode' | 'redeemParentLink'
+  | 'getCardSigningKey';
+
+export interface OutboxEntry {
+  id: string;
+  action: MutationAction;
+  payload: any;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms, kapan boleh dikirim ulang
+  lastError?: string;
+  rejections?: number; // Berapa kali server menolak (bukan gangguan jaringan)
+  failedAt?: number; // Epoch ms; ditolak berulang, tidak dikirim ulang otomatis lagi
+}
+
+// Hasil sinkronisasi delta. cursor bersifat opak (ditentukan server) dan dikirim
+// balik pada sync berikutnya. resyncRequired berarti cursor sudah tidak dikenali server.
+// Penghapusan dikirim sebagai tombstone (record dengan deletedAt) di dalam changed.
+export interface AttendanceDelta {
+  changed: AttendanceRecord[];
+  cursor: string;
+  resyncRequired?: boolean;
+  serverTime?: number; // Jam server (epoch ms) saat respons dibuat, untuk kalibrasi jam perangkat
+}
+
+// Jejak audit perubahan absensi. Hanya ditambah, tidak pernah diubah atau dihapus.
+// RESTORE = record terhapus dihidupkan lagi, REVERT = perubahan dikembalikan ke nilai sebelumnya.
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'REVERT';
+
+export interface AuditEntry {
+  id: string;
+  recordId: string; // AttendanceRecord.id
+  studentId: string;
+  studentName: string;
+  action: AuditAction;
+  actor: string; // Nama login yang melakukan perubahan
+  timestamp: number;
+  before: AttendanceRecord | null; // null untuk CREATE
+  after: AttendanceRecord; // Untuk DELETE berupa tombstone
+  sourceId?: string; // Entri yang dibatalkan oleh RESTORE/REVERT
+}
+
+// Sama seperti AttendanceDelta: entri audit sejak cursor terakhir
+export interface AuditDelta {
+  entries: AuditEntry[];
+  cursor: string;
+}
+
+// Foto siswa (data URL JPEG, sudah dikecilkan); photo null = foto dihapus
+export interface StudentPhotoEntry {
+  studentId: string;
+  photo: string | null;
+  updatedAt: number; // Epoch ms, yang lebih baru menang
+}
+
+// Seperti AuditDelta, tapi dibagi per halaman karena foto berukuran besar
+export interface PhotoDelta {
+  photos: StudentPhotoEntry[];
+  cursor: string;
+  hasMore: boolean; // Minta lagi dengan cursor ini sampai false
+}
+
+export type StorageBackendKind = 'apps-script' | 'indexeddb' | 'rest';
+
+// Kontrak penyimpanan pusat. Method baca melempar error bila server tidak bisa
+// dihubungi; sendMutation hanya resolve setelah server mengonfirmasi perubahan.
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  // token = sesi server staf atau wali murid; wali hanya menerima data siswanya sendiri.
+  // Pengaturan tetap terbuka karena form login butuh daftar staf.
+  getStudents(token?: string): Promise<Student[]>;
+  getSettings(): Promise<Record<string, unknown>>;
+  // cursor null = unduh penuh (semua record aktif) beserta cursor awal
+  getAttendanceChanges(cursor: string | null, token?: string): Promise<AttendanceDelta>;
+  // cursor null = seluruh jejak audit (hanya staf)
+  getAuditChanges(cursor: string | null, token?: string): Promise<AuditDelta>;
+  // cursor null = semua foto dari awal
+  getPhotoChanges(cursor: string | null, token?: string): Promise<PhotoDelta>;
+  // token = sesi server petugas yang sedang login; perubahan daftar staf hanya diterima dari Administrator
+  sendMutation(action: MutationAction, payload: any, mutationId: string, token?: string): Promise<void>;
+  // Aksi rahasia (login, password, PIN) langsung ke server, tidak lewat outbox. Melempar error bila
+  // server tidak bisa dihubungi; penolakan dikembalikan sebagai { success: false, message }.
+  callServer(action: ServerAction, payload: any): Promise<any>;
+}
+
+export type TabView = 'dashboard' | 'scan' | 'students' | 'reports' | 'settings';
+export type UserRole = 'ADMIN' | 'TEACHER' | 'HOMEROOM' | 'PARENT';
+export type StaffRole = Exclude<UserRole, 'PARENT'>;
+
+export type Permission =
+  | 'VIEW_DASHBOARD'
+  | 'RECORD_ATTENDANCE'
+  | 'VIEW_REPORTS'
+  | 'EDIT_STATUS'
+  | 'DELETE_RECORD'
+  | 'EXPORT'
+  | 'BROADCAST'
+  | 'MANAGE_STUDENTS'
+  | 'MANAGE_SETTINGS';
+
+export interface PermissionInfo {
+  id: Permission;
+  label: string;
+  parentAllowed?: boolean; // Boleh diberikan ke wali murid (selalu terbatas ke anaknya sendiri)
+  adminLocked?: boolean; // Selalu dimiliki ADMIN supaya admin tidak mengunci dirinya sendiri
+}
+
+// Izin per peran, diatur admin di menu Pengaturan
+export type PermissionMatrix = Record<UserRole, Permission[]>;
+
+// Anggota daftar staf yang dikelola admin. Nama dipakai sebagai identitas login
+// dan operatorName; id tetap sama walau nama diubah.
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  classes: string[]; // Kelas yang diampu; kelas pertama wali kelas jadi filter bawaan
+  active: boolean; // Staf nonaktif tidak bisa login
+}
+
+// Rahasia (password, kode akses) tidak pernah disimpan, hanya hash PBKDF2 (SHA-256) bersalt
+export interface HashedSecret {
+  salt: string; // Base64, acak per rahasia
+  hash: string; // Base64
+  iterations: number;
+}
+
+// Rahasia baru dari perangkat: PBKDF2 dihitung di perangkat, password asli tidak dikirim.
+// Server hanya menyimpan SHA-256 dari proof, jadi isi penyimpanan server tidak bisa dipakai login.
+export interface SecretProof {
+  salt: string; // Base64
+  iterations: number;
+  proof: string; // Base64 hasil PBKDF2
+}
+
+// Disimpan hanya di server (lihat server/appsScript.gs), tidak pernah ikut getSettings
+export interface StaffCredential extends HashedSecret {
+  staffId: string; // StaffMember.id, atau ADMIN_USERNAME untuk akun Administrator bawaan
+  mustChangePassword?: boolean; // Password sementara hasil reset admin
+  pin?: HashedSecret; // PIN layar kunci; tanpa PIN layar kunci dibuka dengan password
+  updatedAt: number;
+}
+
+// Kredensial per staffId
+export type CredentialStore = Record<string, StaffCredential>;
+
+// Ringkasan kredensial untuk daftar staf (hanya Administrator)
+export interface CredentialStatus {
+  mustChangePassword: boolean;
+  hasPin: boolean;
 }
 
-export type TabView = 'dashboard' | 'scan' | 'students' | 'reports';
-export type UserRole = 'ADMIN' | 'TEACHER' | 'PARENT';
+// Kode akses wali murid per siswa, disimpan hanya di server.
+// link = SHA-256 token link/QR sekali pakai (Base64), dihapus setelah dipakai
+export interface ParentAccess extends HashedSecret {
+  studentId: string;
+  link?: string;
+  updatedAt: number;
+}
+
+export type ParentAccessStore = Record<string, ParentAccess>;
+
+// Sesi login di perangkat ini (STORAGE_KEYS.AUTH)
+export interface AuthSession {
+  username: string;
+  role: UserRole;
+  studentData?: Student; // Hanya untuk wali murid
+  loginAt: number; // Epoch ms, dasar batas umur sesi; diperbarui saat ganti petugas
+  lastActiveAt: number; // Epoch ms, sentuhan/ketikan/scan terakhir
+  locked?: boolean; // Layar kunci tetap aktif walau halaman dimuat ulang
+  token?: string; // Sesi server petugas, syarat aksi Administrator (reset password, daftar staf)
+}
+
+// Batas sesi, diatur admin. 0 = tidak dibatasi
+export interface SessionPolicy {
+  idleMinutes: number; // Tanpa aktivitas: layar staf dikunci, wali murid keluar
+  maxHours: number; // Sejak login: wajib login ulang
+}
+
+// Kartu siswa fisik. QR berisi token bertanda tangan SP3.<NIS>.<serial>.<tanda tangan>;
+// kartu yang tidak ACTIVE ditolak scanner walau tanda tangannya sah.
+// LOST = dilaporkan hilang, REVOKED = dicabut atau sudah diganti kartu baru.
+export type CardStatus = 'ACTIVE' | 'LOST' | 'REVOKED';
+
+export interface StudentCard {
+  serial: number; // Naik setiap kartu baru dicetak untuk siswa yang sama
+  issuedAt: number; // Epoch ms
+  status: CardStatus;
+  statusChangedAt?: number; // Epoch ms, saat kartu dinyatakan hilang/dicabut
+  printedAt?: number[]; // Riwayat cetak (cetak ulang kartu yang sama tidak mengganti serial)
+}
+
+// Riwayat kartu per NIS, disimpan sebagai pengaturan bersama
+export type CardRegistry = Record<string, StudentCard[]>;
+
+export interface CardSettings {
+  legacyUntil?: string; // YYYY-MM-DD, batas terakhir kartu lama (QR berisi NIS polos) diterima
+}
+
+// Pilihan kamera scanner di perangkat ini (localStorage)
+export interface CameraPreference {
+  deviceId?: string; // Kosong = kamera belakang bawaan browser
+  torch?: boolean;
+}
+
+export interface LoginResult {
+  success: boolean;
+  message: string;
+  role?: StaffRole;
+  mustChangePassword?: boolean;
+  token?: string; // Sesi server; tidak diberikan selama password sementara belum diganti
+  setupRequired?: boolean; // Password Administrator belum ada, perlu kode setup dari pengelola server
+}
 
 export enum ReportPeriod {
   DAILY = 'DAILY',
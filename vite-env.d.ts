@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_BACKEND?: string;
+  readonly VITE_REST_API_URL?: string;
+  readonly VITE_ADMIN_SETUP_CODE?: string;
+}
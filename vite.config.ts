@@ -1,4 +1,4 @@
-
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -9,4 +9,8 @@ export default defineConfig({
     host: true,
     port: 3000,
   },
+  test: {
+    // localStorage & window untuk service yang menyimpan data di browser
+    environment: 'happy-dom',
+  },
 });